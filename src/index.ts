@@ -1,13 +1,16 @@
 #!/usr/bin/env node
 /**
  * Claude Todoist API Server
- * Entry point for the Express REST API server
+ * Entry point for the Express REST API server (with MCP over HTTP) or the stdio MCP server
  */
 
 // ❌ REMOVED: import './types/global'; // This line caused the runtime error
 import { config } from './utils/config';
 import { appLogger } from './utils/logger';
 import { createExpressServer } from './server/express-server';
+import { startStdioTransport } from './server/transport';
+import { todoistService, todoistAccounts } from './services/todoist-accounts';
+import { startTracing, stopTracing } from './utils/tracing';
 
 // Global error handlers with proper types
 process.on('uncaughtException', (error: Error) => {
@@ -30,9 +33,21 @@ async function startServer(): Promise<void> {
       port: config.PORT,
       logLevel: config.LOG_LEVEL,
       serverName: config.MCP_SERVER_NAME,
-      version: config.MCP_SERVER_VERSION
+      version: config.MCP_SERVER_VERSION,
+      transport: config.MCP_TRANSPORT
     });
 
+    startTracing();
+
+    // stdio mode: the MCP client owns our stdin/stdout, so no HTTP server is started
+    if (config.MCP_TRANSPORT === 'stdio') {
+      if (!todoistAccounts.defaultService) {
+        throw new Error('The stdio transport requires TODOIST_API_KEY');
+      }
+      await startStdioTransport(todoistService);
+      return;
+    }
+
     // Create and start the Express server
     const app = await createExpressServer();
     
@@ -47,8 +62,9 @@ async function startServer(): Promise<void> {
     // Graceful shutdown handlers
     const shutdown = (signal: string) => {
       appLogger.info(`Received ${signal}, shutting down gracefully`);
-      server.close(() => {
+      server.close(async () => {
         appLogger.info('Server closed');
+        await stopTracing();
         process.exit(0);
       });
     };
@@ -0,0 +1,169 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { createHash, timingSafeEqual } from 'crypto';
+import { config, ApiClientConfig } from '../utils/config';
+import { appLogger } from '../utils/logger';
+import { UnauthorizedError, ForbiddenError } from './error-handler';
+
+/**
+ * Scopes that can be granted to API clients
+ */
+export const SCOPES = [
+  'tasks:read',
+  'tasks:write',
+  'projects:read',
+  'projects:write',
+  'projects:admin',
+  'labels:read',
+  'labels:write',
+  'webhooks',
+  'audit',
+  'metrics',
+  'mcp'
+] as const;
+
+export type Scope = typeof SCOPES[number];
+
+export interface AuthenticatedClient {
+  id: string;
+  scopes: readonly Scope[];
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      client?: AuthenticatedClient;
+    }
+  }
+}
+
+interface RegisteredClient extends AuthenticatedClient {
+  keyHash: Buffer;
+}
+
+/**
+ * Hex SHA-256 of an API key, as stored in API_CLIENTS
+ */
+export function hashApiKey(apiKey: string): string {
+  return createHash('sha256').update(apiKey).digest('hex');
+}
+
+function loadClients(clients: readonly ApiClientConfig[]): RegisteredClient[] {
+  return clients.map(client => {
+    const unknownScopes = client.scopes.filter(scope => !SCOPES.includes(scope as Scope));
+    if (unknownScopes.length > 0) {
+      throw new Error(`API client ${client.id} has unknown scopes: ${unknownScopes.join(', ')}`);
+    }
+
+    return {
+      id: client.id,
+      scopes: client.scopes as Scope[],
+      keyHash: Buffer.from(client.key_hash, 'hex')
+    };
+  });
+}
+
+const clients = loadClients(config.API_CLIENTS);
+
+// With no clients and auth not required (local development), every caller gets full access
+const authDisabled = clients.length === 0 && !config.AUTH_REQUIRED;
+
+const anonymousClient: AuthenticatedClient = { id: 'anonymous', scopes: SCOPES };
+
+if (authDisabled) {
+  appLogger.warn('No API_CLIENTS configured: /api routes are open to every caller. Set API_CLIENTS before exposing this server.');
+} else if (clients.length === 0) {
+  appLogger.warn('AUTH_REQUIRED is set but no API_CLIENTS are configured: every /api request will be rejected');
+}
+
+/**
+ * Find the client whose key hash matches the presented key, in constant time per comparison
+ */
+function findClient(apiKey: string): RegisteredClient | undefined {
+  const presented = Buffer.from(hashApiKey(apiKey), 'hex');
+  return clients.find(client => timingSafeEqual(client.keyHash, presented));
+}
+
+/**
+ * Resolve an API key to a client and attach it to the request
+ */
+function authenticateKey(apiKey: string | undefined, req: Request, res: Response, next: NextFunction): void {
+  if (authDisabled) {
+    req.client = anonymousClient;
+    return next();
+  }
+
+  const client = apiKey ? findClient(apiKey) : undefined;
+
+  if (!client) {
+    appLogger.warn('Rejected unauthenticated request', { method: req.method, path: req.originalUrl, ip: req.ip });
+
+    res.set('WWW-Authenticate', 'Bearer realm="todoist-api"');
+    return next(new UnauthorizedError('Authentication required'));
+  }
+
+  req.client = { id: client.id, scopes: client.scopes };
+  next();
+}
+
+function bearerToken(req: Request): string | undefined {
+  const [scheme, token] = (req.get('Authorization') ?? '').split(' ');
+  return scheme === 'Bearer' && token ? token : undefined;
+}
+
+/**
+ * Resolve the bearer token to an API client and attach it to the request
+ */
+export function authenticate(req: Request, res: Response, next: NextFunction): void {
+  authenticateKey(bearerToken(req), req, res, next);
+}
+
+/**
+ * Like authenticate, but also accepts the key as ?key= for clients that cannot send headers,
+ * such as calendar apps subscribing to a feed
+ */
+export function authenticateWithQueryKey(req: Request, res: Response, next: NextFunction): void {
+  const queryKey = typeof req.query.key === 'string' ? req.query.key : undefined;
+  // Keep the key out of logs and error envelopes, which record originalUrl
+  req.originalUrl = req.originalUrl.replace(/([?&]key=)[^&]*/g, '$1[redacted]');
+  authenticateKey(bearerToken(req) ?? queryKey, req, res, next);
+}
+
+/**
+ * Pick a read or write scope from the HTTP method
+ */
+export function methodScope(read: Scope, write: Scope): (req: Request) => Scope {
+  return (req: Request) => (req.method === 'GET' || req.method === 'HEAD' ? read : write);
+}
+
+/**
+ * Reject requests whose client lacks the scope required for this request
+ * Must run after authenticate
+ */
+export function requireScope(scopeFor: Scope | ((req: Request) => Scope)): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const required = typeof scopeFor === 'function' ? scopeFor(req) : scopeFor;
+
+    if (!req.client?.scopes.includes(required)) {
+      appLogger.warn('Rejected request with insufficient scope', {
+        client: req.client?.id,
+        method: req.method,
+        path: req.originalUrl,
+        required
+      });
+
+      return next(new ForbiddenError('Insufficient scope', { required_scope: required }));
+    }
+
+    next();
+  };
+}
+
+/**
+ * Authenticate the caller and enforce the scope a router needs
+ */
+export function authorize(
+  scopeFor: Scope | ((req: Request) => Scope),
+  options: { allowQueryKey?: boolean } = {}
+): RequestHandler[] {
+  return [options.allowQueryKey ? authenticateWithQueryKey : authenticate, requireScope(scopeFor)];
+}
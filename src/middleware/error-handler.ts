@@ -0,0 +1,278 @@
+import { Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { config } from '../utils/config';
+import { appLogger } from '../utils/logger';
+
+export type ErrorCode =
+  | 'validation_error'
+  | 'unauthorized'
+  | 'forbidden'
+  | 'not_found'
+  | 'conflict'
+  | 'rate_limited'
+  | 'upstream_error'
+  | 'upstream_unavailable'
+  | 'internal_error';
+
+/**
+ * JSON body of every error response
+ */
+export interface ErrorEnvelope {
+  success: false;
+  error: string;
+  code: ErrorCode;
+  details?: unknown;
+  upstream?: UpstreamResponse;
+  timestamp: string;
+  path: string;
+}
+
+/**
+ * What Todoist answered, when it answered at all
+ */
+export interface UpstreamResponse {
+  status?: number;
+  body?: string;
+}
+
+/**
+ * Error whose message and status are safe to report to the caller
+ */
+export class AppError extends Error {
+  constructor(
+    message: string,
+    readonly statusCode: number,
+    readonly code: ErrorCode,
+    readonly details?: unknown
+  ) {
+    super(message);
+    this.name = 'AppError';
+  }
+}
+
+export class ValidationError extends AppError {
+  constructor(message: string, details?: unknown) {
+    super(message, 400, 'validation_error', details);
+    this.name = 'ValidationError';
+  }
+}
+
+export class UnauthorizedError extends AppError {
+  constructor(message: string, details?: unknown) {
+    super(message, 401, 'unauthorized', details);
+    this.name = 'UnauthorizedError';
+  }
+}
+
+export class ForbiddenError extends AppError {
+  constructor(message: string, details?: unknown) {
+    super(message, 403, 'forbidden', details);
+    this.name = 'ForbiddenError';
+  }
+}
+
+export class NotFoundError extends AppError {
+  constructor(message: string, details?: unknown) {
+    super(message, 404, 'not_found', details);
+    this.name = 'NotFoundError';
+  }
+}
+
+export class ConflictError extends AppError {
+  constructor(message: string, details?: unknown) {
+    super(message, 409, 'conflict', details);
+    this.name = 'ConflictError';
+  }
+}
+
+/**
+ * Failed call to Todoist, keeping the upstream status and body
+ * Use fromResponse to get the subclass matching the upstream status
+ */
+export class TodoistApiError extends AppError {
+  constructor(
+    message: string,
+    statusCode: number,
+    code: ErrorCode,
+    readonly upstream: UpstreamResponse,
+    readonly retryAfterMs?: number
+  ) {
+    super(message, statusCode, code);
+    this.name = 'TodoistApiError';
+  }
+
+  static fromResponse(status: number, message: string, body?: string, retryAfterMs?: number): TodoistApiError {
+    const upstream = { status, body };
+
+    switch (status) {
+      case 400: return new TodoistBadRequestError(message, upstream);
+      case 401: return new TodoistUnauthorizedError(message, upstream);
+      case 403: return new TodoistForbiddenError(message, upstream);
+      case 404: return new TodoistNotFoundError(message, upstream);
+      case 409: return new TodoistConflictError(message, upstream);
+      case 429: return new TodoistRateLimitError(message, upstream, retryAfterMs);
+      default:  return new TodoistServerError(message, upstream);
+    }
+  }
+}
+
+export class TodoistBadRequestError extends TodoistApiError {
+  constructor(message: string, upstream: UpstreamResponse) {
+    super(message, 400, 'validation_error', upstream);
+    this.name = 'TodoistBadRequestError';
+  }
+}
+
+// Todoist rejected the account's token (revoked OAuth grant, wrong API key)
+export class TodoistUnauthorizedError extends TodoistApiError {
+  constructor(message: string, upstream: UpstreamResponse) {
+    super(message, 401, 'unauthorized', upstream);
+    this.name = 'TodoistUnauthorizedError';
+  }
+}
+
+export class TodoistForbiddenError extends TodoistApiError {
+  constructor(message: string, upstream: UpstreamResponse) {
+    super(message, 403, 'forbidden', upstream);
+    this.name = 'TodoistForbiddenError';
+  }
+}
+
+export class TodoistNotFoundError extends TodoistApiError {
+  constructor(message: string, upstream: UpstreamResponse) {
+    super(message, 404, 'not_found', upstream);
+    this.name = 'TodoistNotFoundError';
+  }
+}
+
+export class TodoistConflictError extends TodoistApiError {
+  constructor(message: string, upstream: UpstreamResponse) {
+    super(message, 409, 'conflict', upstream);
+    this.name = 'TodoistConflictError';
+  }
+}
+
+export class TodoistRateLimitError extends TodoistApiError {
+  constructor(message: string, upstream: UpstreamResponse, retryAfterMs?: number) {
+    super(message, 429, 'rate_limited', upstream, retryAfterMs);
+    this.name = 'TodoistRateLimitError';
+  }
+}
+
+// Todoist failed (5xx), answered with an unexpected status, or sent a body we could not parse
+export class TodoistServerError extends TodoistApiError {
+  constructor(message: string, upstream: UpstreamResponse) {
+    super(message, 502, 'upstream_error', upstream);
+    this.name = 'TodoistServerError';
+  }
+}
+
+/**
+ * Todoist could not be reached: the request timed out, failed at the network level,
+ * or was not attempted because the circuit breaker is open
+ */
+export class TodoistUnavailableError extends TodoistApiError {
+  constructor(
+    message: string,
+    readonly reason: 'timeout' | 'network' | 'circuit_open',
+    retryAfterMs?: number
+  ) {
+    super(message, 502, 'upstream_unavailable', {}, retryAfterMs);
+    this.name = 'TodoistUnavailableError';
+  }
+}
+
+/**
+ * Normalize anything thrown by a route into an AppError
+ */
+export function toAppError(error: unknown): AppError {
+  if (error instanceof AppError) {
+    return error;
+  }
+
+  if (error instanceof z.ZodError) {
+    return new ValidationError('Invalid request', error.errors);
+  }
+
+  // body-parser marks its own client errors (malformed JSON, payload too large) as exposable
+  const httpError = error as { status?: number; expose?: boolean; message?: string };
+  if (httpError?.expose && typeof httpError.status === 'number' && httpError.status < 500) {
+    return new AppError(httpError.message ?? 'Bad request', httpError.status, 'validation_error');
+  }
+
+  return new AppError(
+    error instanceof Error ? error.message : String(error),
+    500,
+    'internal_error'
+  );
+}
+
+/**
+ * Send the error envelope for an AppError
+ */
+export function sendError(req: Request, res: Response, error: AppError): void {
+  // Don't expose internal errors in production
+  const message = error.statusCode >= 500 && error.code === 'internal_error' && config.NODE_ENV === 'production'
+    ? 'Internal Server Error'
+    : error.message;
+
+  const envelope: ErrorEnvelope = {
+    success: false,
+    error: message,
+    code: error.code,
+    timestamp: new Date().toISOString(),
+    path: req.originalUrl
+  };
+
+  if (error.details !== undefined) {
+    envelope.details = error.details;
+  } else if (error.code === 'internal_error' && config.NODE_ENV === 'development') {
+    envelope.details = error.stack;
+  }
+
+  if (error instanceof TodoistApiError && error.upstream.status !== undefined) {
+    envelope.upstream = error.upstream;
+  }
+
+  if (error instanceof TodoistApiError && error.retryAfterMs !== undefined) {
+    res.set('Retry-After', String(Math.ceil(error.retryAfterMs / 1000)));
+  }
+
+  res.status(error.statusCode).json(envelope);
+}
+
+/**
+ * 404 for routes that do not exist
+ */
+export function notFoundHandler(req: Request, res: Response): void {
+  sendError(req, res, new NotFoundError(`Route ${req.method} ${req.path} not found`));
+}
+
+/**
+ * Express error middleware: every route passes its failures here via next(error)
+ */
+export function errorHandler(error: unknown, req: Request, res: Response, next: NextFunction): void {
+  const appError = toAppError(error);
+
+  if (res.headersSent) {
+    return next(error);
+  }
+
+  const context = {
+    method: req.method,
+    path: req.originalUrl,
+    client: req.client?.id,
+    status: appError.statusCode,
+    code: appError.code,
+    error: appError.message,
+    upstream_status: appError instanceof TodoistApiError ? appError.upstream.status : undefined
+  };
+
+  if (appError.statusCode >= 500) {
+    appLogger.error('Request failed', { ...context, stack: appError.stack });
+  } else {
+    appLogger.warn('Request rejected', context);
+  }
+
+  sendError(req, res, appError);
+}
@@ -0,0 +1,22 @@
+import { Request, Response, NextFunction } from 'express';
+import { httpRequestDuration, httpRequests } from '../utils/metrics';
+
+/**
+ * Count and time every request under its route pattern
+ * Must run after requestContext, which records the pattern; requests no route matched share one label
+ */
+export function recordHttpMetrics(req: Request, res: Response, next: NextFunction): void {
+  const stopTimer = httpRequestDuration.startTimer();
+
+  res.on('finish', () => {
+    const labels = {
+      method: req.method,
+      route: (res.locals.route as string | undefined) ?? 'unmatched',
+      status: String(res.statusCode)
+    };
+    httpRequests.inc(labels);
+    stopTimer(labels);
+  });
+
+  next();
+}
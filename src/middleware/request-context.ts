@@ -0,0 +1,96 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { AsyncResource } from 'async_hooks';
+import { randomUUID } from 'crypto';
+import { context, propagation, trace, SpanKind, SpanStatusCode } from '@opentelemetry/api';
+import {
+  ATTR_HTTP_REQUEST_METHOD,
+  ATTR_HTTP_RESPONSE_STATUS_CODE,
+  ATTR_HTTP_ROUTE,
+  ATTR_URL_PATH
+} from '@opentelemetry/semantic-conventions';
+import { runWithRequestContext } from '../utils/request-context';
+import { tracer } from '../utils/tracing';
+
+// Caller-supplied IDs end up in logs and the audit trail, so only short plain tokens are kept
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+/**
+ * Give every request an ID and a server span, and run the rest of the chain inside both
+ * The ID is the caller's X-Request-Id when it is usable, otherwise a new UUID, and is echoed
+ * back in the response; a W3C traceparent header continues the caller's trace
+ */
+export function requestContext(req: Request, res: Response, next: NextFunction): void {
+  const incoming = req.get('X-Request-Id');
+  const requestId = incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : randomUUID();
+  res.locals.requestId = requestId;
+  res.set('X-Request-Id', requestId);
+
+  trackRoutePattern(req, res);
+
+  const parent = propagation.extract(context.active(), req.headers);
+  const span = tracer.startSpan(req.method, {
+    kind: SpanKind.SERVER,
+    attributes: {
+      [ATTR_HTTP_REQUEST_METHOD]: req.method,
+      [ATTR_URL_PATH]: req.path,
+      'request.id': requestId
+    }
+  }, parent);
+
+  let ended = false;
+  const end = () => {
+    if (ended) return;
+    ended = true;
+
+    const route = res.locals.route as string | undefined;
+    if (route) {
+      span.setAttribute(ATTR_HTTP_ROUTE, route);
+      span.updateName(`${req.method} ${route}`);
+    }
+    if (req.client) {
+      span.setAttribute('client.id', req.client.id);
+    }
+    span.setAttribute(ATTR_HTTP_RESPONSE_STATUS_CODE, res.statusCode);
+    if (res.statusCode >= 500) {
+      span.setStatus({ code: SpanStatusCode.ERROR });
+    }
+    span.end();
+  };
+  // close without finish means the client went away mid-response
+  res.on('finish', end);
+  res.on('close', end);
+
+  runWithRequestContext({
+    request_id: requestId,
+    // Authentication runs later in the chain, so read the client when it is needed
+    get client_id() { return req.client?.id; }
+  }, () => context.with(trace.setSpan(parent, span), next));
+}
+
+/**
+ * Record the Express route pattern that handles the request, e.g. /api/tasks/:id, in res.locals.route
+ * Express assigns req.route when a route matches; the mount path is read at that moment because
+ * Express resets req.baseUrl once an error leaves the router
+ */
+function trackRoutePattern(req: Request, res: Response): void {
+  let matched: Request['route'];
+  Object.defineProperty(req, 'route', {
+    configurable: true,
+    enumerable: true,
+    get: () => matched,
+    set(route: Request['route']) {
+      matched = route;
+      if (!route) return;
+      const path = String(route.path);
+      res.locals.route = req.baseUrl && path === '/' ? req.baseUrl : `${req.baseUrl}${path}`;
+    }
+  });
+}
+
+/**
+ * Wrap middleware that reads the request stream (body parsers) so the chain after it keeps the
+ * request's async context; stream callbacks would otherwise run outside it
+ */
+export function keepContext(middleware: RequestHandler): RequestHandler {
+  return (req, res, next) => middleware(req, res, AsyncResource.bind(next));
+}
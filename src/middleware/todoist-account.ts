@@ -0,0 +1,21 @@
+import { Request, Response, NextFunction } from 'express';
+import { todoistAccounts } from '../services/todoist-accounts';
+import { ForbiddenError } from './error-handler';
+
+/**
+ * Bind the authenticated client's Todoist account to the rest of the request
+ * Must run after authenticate
+ */
+export async function bindTodoistAccount(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const service = req.client ? await todoistAccounts.forClient(req.client.id) : todoistAccounts.defaultService;
+
+    if (!service) {
+      return next(new ForbiddenError('No Todoist account linked', { link_url: '/auth/todoist/start' }));
+    }
+
+    todoistAccounts.run(service, next);
+  } catch (error) {
+    next(error);
+  }
+}
@@ -0,0 +1,32 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { TodoistService } from '../services/todoist.service';
+import { loadAgenda } from '../services/agenda.service';
+import { appLogger } from '../utils/logger';
+import { GetAgendaQuerySchema } from '../utils/validation';
+
+export function createAgendaRoutes(todoistService: TodoistService): Router {
+  const router = Router();
+
+  // GET /api/agenda - Overdue tasks, then tasks grouped by day for the next `days` days (tz defaults to the Todoist user's)
+  router.get('/', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const query = GetAgendaQuerySchema.parse(req.query);
+
+      appLogger.info('Fetching agenda', { query });
+
+      const agenda = await loadAgenda(todoistService, query);
+
+      appLogger.info('Agenda built successfully', { count: agenda.count, timezone: agenda.timezone });
+
+      res.json({
+        success: true,
+        data: agenda,
+        count: agenda.count
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  return router;
+}
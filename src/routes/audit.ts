@@ -0,0 +1,56 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { TodoistService } from '../services/todoist.service';
+import { AuditLog } from '../services/audit-log';
+import { appLogger } from '../utils/logger';
+import { AuditFilterSchema, GetAuditQuerySchema } from '../utils/validation';
+
+export function createAuditRoutes(todoistService: TodoistService, auditLog: AuditLog): Router {
+  const router = Router();
+
+  // GET /api/audit - Newest audit entries for this Todoist account, filtered by actor, action, resource, request or time
+  router.get('/', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { limit, ...filter } = GetAuditQuerySchema.parse(req.query);
+
+      appLogger.info('Fetching audit log', { filter, limit });
+
+      const entries = await auditLog.query(await todoistService.getUserId(), filter, limit);
+
+      res.json({
+        success: true,
+        data: entries,
+        count: entries.length
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // GET /api/audit/export - Every matching entry as JSON Lines, oldest first
+  router.get('/export', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const filter = AuditFilterSchema.parse(req.query);
+      const userId = await todoistService.getUserId();
+
+      appLogger.info('Exporting audit log', { filter });
+
+      // attachment() guesses a type from the extension, so set the real one after it
+      res.attachment(`audit-${new Date().toISOString().slice(0, 10)}.jsonl`);
+      res.type('application/x-ndjson');
+      for await (const entry of auditLog.entries(userId, filter)) {
+        res.write(`${JSON.stringify(entry)}\n`);
+      }
+      res.end();
+    } catch (error) {
+      // Once lines are on the wire the status can't change, so cut the download short instead
+      if (res.headersSent) {
+        appLogger.error('Audit log export failed', { error });
+        res.destroy(error as Error);
+        return;
+      }
+      next(error);
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,37 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { TodoistService } from '../services/todoist.service';
+import { BatchService } from '../services/batch.service';
+import { appLogger } from '../utils/logger';
+import { BatchRequestSchema } from '../utils/validation';
+
+export function createBatchRoutes(todoistService: TodoistService): Router {
+  const router = Router();
+  const batchService = new BatchService(todoistService);
+
+  // POST /api/batch - Apply an ordered list of task operations
+  router.post('/', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const batch = BatchRequestSchema.parse(req.body);
+      
+      appLogger.info('Executing batch', { operations: batch.operations.length, atomic: batch.atomic });
+      
+      const result = await batchService.execute(batch);
+      
+      appLogger.info('Batch executed', {
+        succeeded: result.succeeded,
+        failed: result.failed,
+        rolled_back: result.rolled_back
+      });
+      
+      // 207 Multi-Status when at least one operation failed
+      res.status(result.failed === 0 ? 200 : 207).json({
+        success: result.failed === 0,
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,29 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { TodoistService } from '../services/todoist.service';
+import { buildCalendar } from '../services/calendar.service';
+import { appLogger } from '../utils/logger';
+import { GetCalendarQuerySchema } from '../utils/validation';
+
+export function createCalendarRoutes(todoistService: TodoistService): Router {
+  const router = Router();
+
+  // GET /api/calendar.ics - iCalendar feed of dated tasks for calendar subscriptions
+  router.get('/', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const query = GetCalendarQuerySchema.parse(req.query);
+
+      const tasks = await todoistService.getTasks({ project_id: query.project_id });
+      const calendar = buildCalendar(tasks);
+
+      appLogger.info('Calendar feed built', { tasks: tasks.filter(task => task.due).length });
+
+      res.type('text/calendar; charset=utf-8')
+        .set('Content-Disposition', 'inline; filename="todoist.ics"')
+        .send(calendar);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  return router;
+}
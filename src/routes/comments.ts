@@ -0,0 +1,73 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { TodoistService } from '../services/todoist.service';
+import { appLogger } from '../utils/logger';
+import { UpdateCommentSchema } from '../utils/validation';
+
+/**
+ * Routes for individual comments
+ * Listing and creating comments live under /api/tasks/:id/comments and /api/projects/:id/comments
+ */
+export function createCommentRoutes(todoistService: TodoistService): Router {
+  const router = Router();
+
+  // GET /api/comments/:id - Get a single comment
+  router.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const commentId = req.params.id;
+      
+      appLogger.info('Fetching comment', { id: commentId });
+      
+      const comment = await todoistService.getComment(commentId);
+      
+      res.json({
+        success: true,
+        data: comment
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // PATCH /api/comments/:id - Edit comment content
+  router.patch('/:id', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const commentId = req.params.id;
+      const { content } = UpdateCommentSchema.parse(req.body);
+      
+      appLogger.info('Updating comment', { id: commentId });
+      
+      const comment = await todoistService.updateComment(commentId, content);
+      
+      appLogger.info('Comment updated successfully', { id: comment.id });
+      
+      res.json({
+        success: true,
+        data: comment
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // DELETE /api/comments/:id - Delete comment
+  router.delete('/:id', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const commentId = req.params.id;
+      
+      appLogger.info('Deleting comment', { id: commentId });
+      
+      await todoistService.deleteComment(commentId);
+      
+      appLogger.info('Comment deleted successfully', { id: commentId });
+      
+      res.json({
+        success: true,
+        message: 'Comment deleted successfully'
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  return router;
+}
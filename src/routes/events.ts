@@ -0,0 +1,47 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { TodoistService } from '../services/todoist.service';
+import { EventHub, TodoistEvent } from '../services/events';
+import { appLogger } from '../utils/logger';
+import { GetEventsQuerySchema } from '../utils/validation';
+
+// Comment line sent periodically so proxies don't close idle streams
+const KEEP_ALIVE_MS = 25000;
+
+export function createEventRoutes(todoistService: TodoistService, eventHub: EventHub): Router {
+  const router = Router();
+
+  // GET /api/events - Server-Sent Events stream of the caller's Todoist changes (?types= filters)
+  router.get('/', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const query = GetEventsQuerySchema.parse(req.query);
+      const userId = await todoistService.getUserId();
+
+      res.status(200).set({
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+        'X-Accel-Buffering': 'no'
+      });
+      res.flushHeaders();
+      res.write(': connected\n\n');
+
+      appLogger.info('Event stream opened', { client: req.client?.id, types: query.types });
+
+      const unsubscribe = eventHub.subscribe((event: TodoistEvent) => {
+        if (event.user_id !== userId || (query.types && !query.types.includes(event.type))) return;
+        res.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+      });
+      const keepAlive = setInterval(() => res.write(': keep-alive\n\n'), KEEP_ALIVE_MS);
+
+      req.on('close', () => {
+        clearInterval(keepAlive);
+        unsubscribe();
+        appLogger.info('Event stream closed', { client: req.client?.id });
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,71 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { TodoistService } from '../services/todoist.service';
+import { HistoryService, undoScope } from '../services/history.service';
+import { ForbiddenError } from '../middleware/error-handler';
+import { appLogger } from '../utils/logger';
+import { GetHistoryQuerySchema } from '../utils/validation';
+
+export function createHistoryRoutes(todoistService: TodoistService): Router {
+  const router = Router();
+  const historyService = new HistoryService(todoistService);
+
+  // GET /api/history - Recorded changes, newest first
+  router.get('/', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const query = GetHistoryQuerySchema.parse(req.query);
+
+      appLogger.info('Fetching history', { query });
+
+      const entries = await historyService.list(query);
+
+      res.json({
+        success: true,
+        data: entries,
+        count: entries.length
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // GET /api/history/:id - Single change with its before snapshot
+  router.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const entry = await historyService.get(req.params.id);
+
+      res.json({
+        success: true,
+        data: entry
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // POST /api/history/:id/undo - Reverse a change: recreate, reopen or restore what it touched
+  router.post('/:id/undo', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const entry = await historyService.get(req.params.id);
+
+      // Undoing writes to whatever the change touched, so it needs that resource's write scope
+      const required = undoScope(entry);
+      if (!req.client?.scopes.includes(required)) {
+        throw new ForbiddenError('Insufficient scope', { required_scope: required });
+      }
+
+      appLogger.info('Undoing history entry', { id: entry.id, action: entry.action });
+
+      const result = await historyService.undo(entry.id);
+
+      res.json({
+        success: true,
+        data: result,
+        message: 'Change undone'
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  return router;
+}
@@ -1,12 +1,19 @@
-import { Router, Request, Response } from 'express';
+import { Router, Request, Response, NextFunction } from 'express';
 import { TodoistService } from '../services/todoist.service';
 import { appLogger } from '../utils/logger';
+import {
+  CreateLabelSchema,
+  UpdateLabelSchema,
+  GetSharedLabelsQuerySchema,
+  RenameSharedLabelSchema,
+  RemoveSharedLabelSchema
+} from '../utils/validation';
 
 export function createLabelRoutes(todoistService: TodoistService): Router {
   const router = Router();
 
   // GET /api/labels - List all labels
-  router.get('/', async (req: Request, res: Response) => {
+  router.get('/', async (req: Request, res: Response, next: NextFunction) => {
     try {
       appLogger.info('Fetching labels');
       
@@ -20,14 +27,156 @@ export function createLabelRoutes(todoistService: TodoistService): Router {
         count: labels.length
       });
     } catch (error) {
-      appLogger.error('Failed to fetch labels', { error });
+      next(error);
+    }
+  });
+
+  // GET /api/labels/shared - List label names used on tasks
+  router.get('/shared', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const query = GetSharedLabelsQuerySchema.parse(req.query);
+      
+      appLogger.info('Fetching shared labels', { query });
+      
+      const labels = await todoistService.getSharedLabels(query.omit_personal);
+      
+      appLogger.info('Shared labels fetched successfully', { count: labels.length });
+      
+      res.json({
+        success: true,
+        data: labels,
+        count: labels.length
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // POST /api/labels/shared/rename - Rename a label on every task
+  router.post('/shared/rename', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { name, new_name } = RenameSharedLabelSchema.parse(req.body);
+      
+      appLogger.info('Renaming shared label', { name, new_name });
+      
+      await todoistService.renameSharedLabel(name, new_name);
+      
+      appLogger.info('Shared label renamed successfully', { name, new_name });
+      
+      res.json({
+        success: true,
+        message: 'Shared label renamed successfully',
+        data: { name: new_name, previous_name: name }
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // POST /api/labels/shared/remove - Remove a label from every task
+  router.post('/shared/remove', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { name } = RemoveSharedLabelSchema.parse(req.body);
+      
+      appLogger.info('Removing shared label', { name });
+      
+      await todoistService.removeSharedLabel(name);
+      
+      appLogger.info('Shared label removed successfully', { name });
+      
+      res.json({
+        success: true,
+        message: 'Shared label removed successfully'
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // GET /api/labels/:id - Get a single label
+  router.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const labelId = req.params.id;
       
-      res.status(500).json({
-        success: false,
-        error: 'Failed to fetch labels'
+      appLogger.info('Fetching label', { id: labelId });
+      
+      const label = await todoistService.getLabel(labelId);
+      
+      res.json({
+        success: true,
+        data: label
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // POST /api/labels - Create new personal label
+  router.post('/', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const labelData = CreateLabelSchema.parse(req.body);
+      
+      appLogger.info('Creating label', { name: labelData.name });
+      
+      const label = await todoistService.createLabel(labelData);
+      
+      appLogger.info('Label created successfully', { 
+        id: label.id, 
+        name: label.name 
+      });
+      
+      res.status(201).json({
+        success: true,
+        data: label
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // PATCH /api/labels/:id - Rename, recolor or reorder a personal label
+  router.patch('/:id', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const labelId = req.params.id;
+      const updateData = UpdateLabelSchema.parse(req.body);
+      
+      appLogger.info('Updating label', { id: labelId, updates: Object.keys(updateData) });
+      
+      const label = await todoistService.updateLabel(labelId, updateData);
+      
+      appLogger.info('Label updated successfully', { 
+        id: label.id, 
+        name: label.name 
       });
+      
+      res.json({
+        success: true,
+        data: label
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // DELETE /api/labels/:id - Delete personal label
+  router.delete('/:id', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const labelId = req.params.id;
+      
+      appLogger.info('Deleting label', { id: labelId });
+      
+      await todoistService.deleteLabel(labelId);
+      
+      appLogger.info('Label deleted successfully', { id: labelId });
+      
+      res.json({
+        success: true,
+        message: 'Label deleted successfully'
+      });
+    } catch (error) {
+      next(error);
     }
   });
 
   return router;
-}
\ No newline at end of file
+}
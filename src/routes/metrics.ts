@@ -0,0 +1,20 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { Registry } from 'prom-client';
+
+export function createMetricsRoutes(registry: Registry): Router {
+  const router = Router();
+
+  // GET /metrics - Prometheus text exposition of request, Todoist, cache and process metrics
+  router.get('/', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const metrics = await registry.metrics();
+
+      res.type(registry.contentType);
+      res.send(metrics);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  return router;
+}
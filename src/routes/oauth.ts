@@ -0,0 +1,87 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { TodoistAccountRegistry } from '../services/todoist-accounts';
+import { TodoistOAuthService } from '../services/oauth.service';
+import { authenticate } from '../middleware/auth';
+import { ValidationError } from '../middleware/error-handler';
+import { appLogger } from '../utils/logger';
+
+const OAuthCallbackQuerySchema = z.object({
+  code: z.string().optional(),
+  state: z.string().min(1, "state is required"),
+  error: z.string().optional()
+});
+
+export function createOAuthRoutes(accounts: TodoistAccountRegistry, oauthService: TodoistOAuthService): Router {
+  const router = Router();
+
+  // GET /auth/todoist/start - Begin linking the caller's Todoist account
+  router.get('/start', authenticate, (req: Request, res: Response) => {
+    const clientId = req.client!.id;
+
+    appLogger.info('Starting Todoist OAuth flow', { client: clientId });
+
+    res.json({
+      success: true,
+      data: {
+        authorize_url: oauthService.createAuthorizationUrl(clientId)
+      },
+      message: 'Open authorize_url in a browser to grant access'
+    });
+  });
+
+  // GET /auth/todoist/callback - Todoist redirects here after consent (public: the state identifies the client)
+  router.get('/callback', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const query = OAuthCallbackQuerySchema.parse(req.query);
+
+      if (query.error || !query.code) {
+        throw new ValidationError('Todoist authorization was not granted', query.error);
+      }
+
+      const { apiClientId, accessToken } = await oauthService.exchangeCode(query.code, query.state);
+      await accounts.link(apiClientId, accessToken);
+
+      res.json({
+        success: true,
+        message: `Todoist account linked for client ${apiClientId}`
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // GET /auth/todoist/status - Which Todoist account the caller uses
+  router.get('/status', authenticate, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const account = await accounts.getLinkedAccount(req.client!.id);
+
+      res.json({
+        success: true,
+        data: {
+          linked: !!account,
+          linked_at: account?.linked_at ?? null,
+          uses_default_account: !account && !!accounts.defaultService
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // DELETE /auth/todoist - Forget the caller's linked Todoist account
+  router.delete('/', authenticate, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const removed = await accounts.unlink(req.client!.id);
+
+      res.json({
+        success: true,
+        message: removed ? 'Todoist account unlinked' : 'No Todoist account was linked'
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  return router;
+}
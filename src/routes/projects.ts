@@ -1,25 +1,30 @@
-import { Router, Request, Response } from 'express';
-import { z } from 'zod';
+import { Router, Request, Response, NextFunction } from 'express';
 import { TodoistService } from '../services/todoist.service';
+import { loadProjectTree } from '../services/tree.service';
+import { NameResolver, CreatedResource } from '../services/name-resolver.service';
 import { appLogger } from '../utils/logger';
-
-// Validation schemas
-const CreateProjectSchema = z.object({
-  name: z.string().min(1, "Project name is required"),
-  parent_id: z.string().optional(),
-  color: z.string().optional(),
-  is_favorite: z.boolean().optional()
-});
+import {
+  CreateProjectRequestSchema,
+  UpdateProjectSchema,
+  GetProjectsQuerySchema,
+  GetProjectTreeQuerySchema,
+  CreateCommentSchema
+} from '../utils/validation';
 
 export function createProjectRoutes(todoistService: TodoistService): Router {
   const router = Router();
+  const nameResolver = new NameResolver(todoistService);
 
-  // GET /api/projects - List all projects
-  router.get('/', async (req: Request, res: Response) => {
+  // GET /api/projects - List all projects, or only the children of parent_id
+  router.get('/', async (req: Request, res: Response, next: NextFunction) => {
     try {
-      appLogger.info('Fetching projects');
+      const query = GetProjectsQuerySchema.parse(req.query);
+      
+      appLogger.info('Fetching projects', { query });
       
-      const projects = await todoistService.getProjects();
+      const projects = query.parent_id
+        ? await todoistService.getChildProjects(query.parent_id)
+        : await todoistService.getProjects();
       
       appLogger.info('Projects fetched successfully', { count: projects.length });
       
@@ -29,24 +34,23 @@ export function createProjectRoutes(todoistService: TodoistService): Router {
         count: projects.length
       });
     } catch (error) {
-      appLogger.error('Failed to fetch projects', { error });
-      
-      res.status(500).json({
-        success: false,
-        error: 'Failed to fetch projects'
-      });
+      next(error);
     }
   });
 
-  // POST /api/projects - Create new project
-  router.post('/', async (req: Request, res: Response) => {
+  // POST /api/projects - Create new project (parent_name resolves to the parent's ID)
+  router.post('/', async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const projectData = CreateProjectSchema.parse(req.body);
+      const projectData = CreateProjectRequestSchema.parse(req.body);
       
       appLogger.info('Creating project', { name: projectData.name });
       
       // Extract name and pass rest as options to match service signature
-      const { name, ...options } = projectData;
+      const { name, parent_name, create_missing, ...options } = projectData;
+      const created: CreatedResource[] = [];
+      if (parent_name) {
+        options.parent_id = await nameResolver.resolveProjectId(parent_name, create_missing, created);
+      }
       const project = await todoistService.createProject(name, options);
       
       appLogger.info('Project created successfully', { 
@@ -55,24 +59,196 @@ export function createProjectRoutes(todoistService: TodoistService): Router {
       });
       
       res.status(201).json({
+        success: true,
+        data: project,
+        ...(created.length > 0 ? { created } : {})
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // GET /api/projects/archived - List archived projects
+  router.get('/archived', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      appLogger.info('Fetching archived projects');
+      
+      const projects = await todoistService.getArchivedProjects();
+      
+      appLogger.info('Archived projects fetched successfully', { count: projects.length });
+      
+      res.json({
+        success: true,
+        data: projects,
+        count: projects.length
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // GET /api/projects/:id - Get a single project
+  router.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const projectId = req.params.id;
+      
+      appLogger.info('Fetching project', { id: projectId });
+      
+      const project = await todoistService.getProject(projectId);
+      
+      res.json({
         success: true,
         data: project
       });
     } catch (error) {
-      appLogger.error('Failed to create project', { error });
-      
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({
-          success: false,
-          error: 'Invalid project data',
-          details: error.errors
-        });
-      }
+      next(error);
+    }
+  });
+
+  // GET /api/projects/:id/tree - Sections, tasks and subtasks nested by order with rolled-up counts
+  router.get('/:id/tree', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const projectId = req.params.id;
+      const query = GetProjectTreeQuerySchema.parse(req.query);
+      
+      appLogger.info('Fetching project tree', { id: projectId, query });
+      
+      const tree = await loadProjectTree(todoistService, projectId, query.include_completed);
+      
+      appLogger.info('Project tree fetched successfully', { id: projectId, counts: tree.counts });
+      
+      res.json({
+        success: true,
+        data: tree
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // PATCH /api/projects/:id - Update existing project
+  router.patch('/:id', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const projectId = req.params.id;
+      const updateData = UpdateProjectSchema.parse(req.body);
+      
+      appLogger.info('Updating project', { id: projectId, updates: Object.keys(updateData) });
+      
+      const project = await todoistService.updateProject(projectId, updateData);
+      
+      appLogger.info('Project updated successfully', { 
+        id: project.id, 
+        name: project.name 
+      });
+      
+      res.json({
+        success: true,
+        data: project
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // DELETE /api/projects/:id - Delete project with its tasks and sub-projects
+  router.delete('/:id', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const projectId = req.params.id;
+      
+      appLogger.info('Deleting project', { id: projectId });
+      
+      await todoistService.deleteProject(projectId);
+      
+      appLogger.info('Project deleted successfully', { id: projectId });
+      
+      res.json({
+        success: true,
+        message: 'Project deleted successfully'
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // POST /api/projects/:id/archive - Archive project and its sub-projects
+  router.post('/:id/archive', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const projectId = req.params.id;
+      
+      appLogger.info('Archiving project', { id: projectId });
+      
+      await todoistService.archiveProject(projectId);
+      
+      appLogger.info('Project archived successfully', { id: projectId });
+      
+      res.json({
+        success: true,
+        message: 'Project archived successfully'
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // POST /api/projects/:id/unarchive - Restore an archived project
+  router.post('/:id/unarchive', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const projectId = req.params.id;
+      
+      appLogger.info('Unarchiving project', { id: projectId });
       
-      res.status(500).json({
-        success: false,
-        error: 'Failed to create project'
+      await todoistService.unarchiveProject(projectId);
+      
+      appLogger.info('Project unarchived successfully', { id: projectId });
+      
+      res.json({
+        success: true,
+        message: 'Project unarchived successfully'
       });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // GET /api/projects/:id/comments - List comments on a project
+  router.get('/:id/comments', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const projectId = req.params.id;
+      
+      appLogger.info('Fetching project comments', { id: projectId });
+      
+      const comments = await todoistService.getComments({ project_id: projectId });
+      
+      appLogger.info('Project comments fetched successfully', { id: projectId, count: comments.length });
+      
+      res.json({
+        success: true,
+        data: comments,
+        count: comments.length
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // POST /api/projects/:id/comments - Add a comment (optionally with an attachment) to a project
+  router.post('/:id/comments', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const projectId = req.params.id;
+      const commentData = CreateCommentSchema.parse(req.body);
+      
+      appLogger.info('Adding project comment', { id: projectId, hasAttachment: !!commentData.attachment });
+      
+      const comment = await todoistService.createComment({ project_id: projectId, ...commentData });
+      
+      appLogger.info('Project comment added successfully', { id: projectId, commentId: comment.id });
+      
+      res.status(201).json({
+        success: true,
+        data: comment
+      });
+    } catch (error) {
+      next(error);
     }
   });
 
@@ -0,0 +1,148 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { TodoistService } from '../services/todoist.service';
+import { NameResolver, CreatedResource } from '../services/name-resolver.service';
+import { appLogger } from '../utils/logger';
+import {
+  GetSectionsQuerySchema,
+  CreateSectionRequestSchema,
+  UpdateSectionSchema,
+  MoveTasksToSectionSchema
+} from '../utils/validation';
+
+export function createSectionRoutes(todoistService: TodoistService): Router {
+  const router = Router();
+  const nameResolver = new NameResolver(todoistService);
+
+  // GET /api/sections - List sections, optionally for a single project
+  router.get('/', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const query = GetSectionsQuerySchema.parse(req.query);
+      
+      appLogger.info('Fetching sections', { query });
+      
+      const sections = await todoistService.getSections(query.project_id);
+      
+      appLogger.info('Sections fetched successfully', { count: sections.length });
+      
+      res.json({
+        success: true,
+        data: sections,
+        count: sections.length
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // GET /api/sections/:id - Get a single section
+  router.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const sectionId = req.params.id;
+      
+      appLogger.info('Fetching section', { id: sectionId });
+      
+      const section = await todoistService.getSection(sectionId);
+      
+      res.json({
+        success: true,
+        data: section
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // POST /api/sections - Create new section (project_name resolves to the project's ID)
+  router.post('/', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { project_name, create_missing, ...sectionData } = CreateSectionRequestSchema.parse(req.body);
+      
+      appLogger.info('Creating section', { name: sectionData.name, project_id: sectionData.project_id, project_name });
+      
+      const created: CreatedResource[] = [];
+      const projectId = sectionData.project_id ?? await nameResolver.resolveProjectId(project_name!, create_missing, created);
+      const section = await todoistService.createSection({ ...sectionData, project_id: projectId });
+      
+      appLogger.info('Section created successfully', { 
+        id: section.id, 
+        name: section.name 
+      });
+      
+      res.status(201).json({
+        success: true,
+        data: section,
+        ...(created.length > 0 ? { created } : {})
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // PATCH /api/sections/:id - Rename section
+  router.patch('/:id', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const sectionId = req.params.id;
+      const { name } = UpdateSectionSchema.parse(req.body);
+      
+      appLogger.info('Updating section', { id: sectionId, name });
+      
+      const section = await todoistService.updateSection(sectionId, name);
+      
+      appLogger.info('Section updated successfully', { 
+        id: section.id, 
+        name: section.name 
+      });
+      
+      res.json({
+        success: true,
+        data: section
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // DELETE /api/sections/:id - Delete section and its tasks
+  router.delete('/:id', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const sectionId = req.params.id;
+      
+      appLogger.info('Deleting section', { id: sectionId });
+      
+      await todoistService.deleteSection(sectionId);
+      
+      appLogger.info('Section deleted successfully', { id: sectionId });
+      
+      res.json({
+        success: true,
+        message: 'Section deleted successfully'
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // POST /api/sections/:id/tasks - Move existing tasks into this section
+  router.post('/:id/tasks', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const sectionId = req.params.id;
+      const { task_ids } = MoveTasksToSectionSchema.parse(req.body);
+      
+      appLogger.info('Moving tasks to section', { id: sectionId, count: task_ids.length });
+      
+      await todoistService.moveTasksToSection(task_ids, sectionId);
+      
+      appLogger.info('Tasks moved successfully', { id: sectionId, count: task_ids.length });
+      
+      res.json({
+        success: true,
+        message: 'Tasks moved successfully',
+        data: { section_id: sectionId, task_ids }
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,33 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { TodoistService } from '../services/todoist.service';
+import { buildStatsReport } from '../services/stats.service';
+import { appLogger } from '../utils/logger';
+
+export function createStatsRoutes(todoistService: TodoistService): Router {
+  const router = Router();
+
+  // GET /api/stats - Completions per day and week, streaks and per-project breakdown
+  router.get('/', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      appLogger.info('Fetching productivity stats');
+      
+      const [stats, projects] = await Promise.all([
+        todoistService.getProductivityStats(),
+        todoistService.getProjects()
+      ]);
+      
+      const report = buildStatsReport(stats, projects);
+      
+      appLogger.info('Productivity stats fetched successfully', { completed_total: report.completed_total });
+      
+      res.json({
+        success: true,
+        data: report
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  return router;
+}
@@ -1,51 +1,34 @@
-import { Router, Request, Response } from 'express';
-import { z } from 'zod';
+import { Router, Request, Response, NextFunction } from 'express';
 import { TodoistService } from '../services/todoist.service';
+import { buildTaskTree } from '../services/tree.service';
+import { QuickAddService } from '../services/quick-add.service';
+import { NameResolver, toTaskDestination } from '../services/name-resolver.service';
+import { DueDateService } from '../services/due-dates.service';
+import { BulkTaskService } from '../services/bulk.service';
 import { appLogger } from '../utils/logger';
-
-// Validation schemas
-const CreateTaskSchema = z.object({
-  content: z.string().min(1, "Task content is required"),
-  description: z.string().optional(),
-  project_id: z.string().optional(),
-  section_id: z.string().optional(),
-  parent_id: z.string().optional(),
-  order: z.number().optional(),
-  labels: z.array(z.string()).optional(),
-  priority: z.number().min(1).max(4).optional(),
-  due_string: z.string().optional(),
-  due_date: z.string().optional(),
-  due_datetime: z.string().optional(),
-  due_lang: z.string().optional(),
-  assignee_id: z.string().optional()
-});
-
-const UpdateTaskSchema = z.object({
-  content: z.string().optional(),
-  description: z.string().optional(),
-  labels: z.array(z.string()).optional(),
-  priority: z.number().min(1).max(4).optional(),
-  due_string: z.string().optional(),
-  due_date: z.string().optional(),
-  due_datetime: z.string().optional(),
-  due_lang: z.string().optional(),
-  assignee_id: z.string().optional()
-});
-
-const GetTasksQuerySchema = z.object({
-  project_id: z.string().optional(),
-  section_id: z.string().optional(),
-  label: z.string().optional(),
-  filter: z.string().optional(),
-  lang: z.string().optional(),
-  ids: z.string().transform(str => str.split(',').map(id => id.trim())).optional()
-});
+import {
+  CreateTaskRequestSchema,
+  UpdateTaskSchema,
+  GetTasksQuerySchema,
+  GetCompletedTasksQuerySchema,
+  MoveTaskRequestSchema,
+  CreateCommentSchema,
+  QuickAddTaskSchema,
+  GetOccurrencesQuerySchema,
+  PostponeTaskSchema,
+  RescheduleOverdueSchema,
+  BulkTaskRequestSchema
+} from '../utils/validation';
 
 export function createTaskRoutes(todoistService: TodoistService): Router {
   const router = Router();
+  const quickAdd = new QuickAddService(todoistService);
+  const nameResolver = new NameResolver(todoistService);
+  const dueDates = new DueDateService(todoistService);
+  const bulk = new BulkTaskService(todoistService);
 
-  // GET /api/tasks - List tasks with optional filtering
-  router.get('/', async (req: Request, res: Response) => {
+  // GET /api/tasks - List tasks with optional filtering (view=tree nests subtasks under parents)
+  router.get('/', async (req: Request, res: Response, next: NextFunction) => {
     try {
       const query = GetTasksQuerySchema.parse(req.query);
       
@@ -60,39 +43,65 @@ export function createTaskRoutes(todoistService: TodoistService): Router {
         ids: query.ids
       });
 
-      appLogger.info('Tasks fetched successfully', { count: tasks.length });
+      appLogger.info('Tasks fetched successfully', { count: tasks.length, view: query.view });
       
       res.json({
         success: true,
-        data: tasks,
+        data: query.view === 'tree' ? buildTaskTree(tasks) : tasks,
         count: tasks.length
       });
     } catch (error) {
-      appLogger.error('Failed to fetch tasks', { error });
+      next(error);
+    }
+  });
+
+  // GET /api/tasks/completed - Completed task history with date and project filters
+  router.get('/completed', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const query = GetCompletedTasksQuerySchema.parse(req.query);
       
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({
-          success: false,
-          error: 'Invalid query parameters',
-          details: error.errors
-        });
-      }
+      appLogger.info('Fetching completed tasks', { query });
       
-      res.status(500).json({
-        success: false,
-        error: 'Failed to fetch tasks'
+      const tasks = await todoistService.getCompletedTasks({
+        project_id: query.project_id,
+        since: query.since,
+        until: query.until,
+        limit: query.limit,
+        offset: query.offset
+      });
+
+      appLogger.info('Completed tasks fetched successfully', { count: tasks.length });
+      
+      res.json({
+        success: true,
+        data: tasks,
+        count: tasks.length,
+        pagination: {
+          limit: query.limit,
+          offset: query.offset,
+          next_offset: tasks.length === query.limit ? query.offset + query.limit : null
+        }
       });
+    } catch (error) {
+      next(error);
     }
   });
 
-  // POST /api/tasks - Create new task
-  router.post('/', async (req: Request, res: Response) => {
+  // POST /api/tasks - Create new task (project_name, section_name and parent_content resolve to IDs)
+  router.post('/', async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const taskData = CreateTaskSchema.parse(req.body);
+      const { project_name, section_name, parent_content, create_missing, ...taskData } = CreateTaskRequestSchema.parse(req.body);
       
       appLogger.info('Creating task', { content: taskData.content });
       
-      const task = await todoistService.createTask(taskData);
+      const { created, ...references } = await nameResolver.resolveTaskReferences({
+        ...taskData,
+        project_name,
+        section_name,
+        parent_content,
+        create_missing
+      });
+      const task = await todoistService.createTask({ ...taskData, ...references });
       
       appLogger.info('Task created successfully', { 
         id: task.id, 
@@ -101,28 +110,139 @@ export function createTaskRoutes(todoistService: TodoistService): Router {
       
       res.status(201).json({
         success: true,
-        data: task
+        data: task,
+        ...(created.length > 0 ? { created } : {})
       });
     } catch (error) {
-      appLogger.error('Failed to create task', { error });
-      
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({
-          success: false,
-          error: 'Invalid task data',
-          details: error.errors
+      next(error);
+    }
+  });
+
+  // POST /api/tasks/quick - Create a task from natural-language text (dry_run only parses)
+  router.post('/quick', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const quickAddData = QuickAddTaskSchema.parse(req.body);
+
+      appLogger.info('Quick adding task', { text: quickAddData.text, dry_run: quickAddData.dry_run });
+
+      const { parsed, task } = await quickAdd.add(quickAddData.text, {
+        dryRun: quickAddData.dry_run,
+        description: quickAddData.description
+      });
+
+      if (!task) {
+        return res.json({
+          success: true,
+          dry_run: true,
+          parsed
         });
       }
-      
-      res.status(500).json({
-        success: false,
-        error: 'Failed to create task'
+
+      appLogger.info('Task created successfully', {
+        id: task.id,
+        content: task.content
+      });
+
+      res.status(201).json({
+        success: true,
+        data: task,
+        parsed
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // POST /api/tasks/reschedule-overdue - Move every overdue task to one date (dry_run previews)
+  router.post('/reschedule-overdue', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { to, project_id, dry_run } = RescheduleOverdueSchema.parse(req.body);
+
+      appLogger.info('Rescheduling overdue tasks', { to, project_id, dry_run });
+
+      const rescheduled = await dueDates.rescheduleOverdue(to, { projectId: project_id, dryRun: dry_run });
+
+      res.json({
+        success: true,
+        ...(dry_run ? { dry_run: true } : {}),
+        data: rescheduled,
+        count: rescheduled.length
       });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // POST /api/tasks/bulk - Apply one action to every task a selector matches (dry run first, then confirm)
+  router.post('/bulk', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { selector, action, dry_run, confirmation_token } = BulkTaskRequestSchema.parse(req.body);
+
+      appLogger.info('Bulk task action', { selector, action: action.type, dry_run });
+
+      if (dry_run) {
+        const preview = await bulk.preview(selector, action);
+        return res.json({
+          success: true,
+          dry_run: true,
+          data: preview,
+          count: preview.count
+        });
+      }
+
+      const result = await bulk.apply(selector, action, confirmation_token!);
+
+      res.json({
+        success: true,
+        data: result,
+        count: result.task_ids.length
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // GET /api/tasks/:id/occurrences - Expand a task's recurrence into its next due dates
+  router.get('/:id/occurrences', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { count } = GetOccurrencesQuerySchema.parse(req.query);
+
+      const result = await dueDates.getOccurrences(req.params.id, count);
+
+      res.json({
+        success: true,
+        data: result,
+        count: result.occurrences.length
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // POST /api/tasks/:id/postpone - Shift the due date, keeping the time of day and recurrence
+  router.post('/:id/postpone', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const taskId = req.params.id;
+      const { amount, unit } = PostponeTaskSchema.parse(req.body);
+
+      appLogger.info('Postponing task', { id: taskId, amount, unit });
+
+      const { task, from, to } = await dueDates.postpone(taskId, amount, unit);
+
+      res.json({
+        success: true,
+        message: 'Task postponed successfully',
+        data: task,
+        from,
+        to
+      });
+    } catch (error) {
+      next(error);
     }
   });
 
   // PATCH /api/tasks/:id - Update existing task
-  router.patch('/:id', async (req: Request, res: Response) => {
+  router.patch('/:id', async (req: Request, res: Response, next: NextFunction) => {
     try {
       const taskId = req.params.id;
       const updateData = UpdateTaskSchema.parse(req.body);
@@ -141,25 +261,12 @@ export function createTaskRoutes(todoistService: TodoistService): Router {
         data: task
       });
     } catch (error) {
-      appLogger.error('Failed to update task', { error, taskId: req.params.id });
-      
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({
-          success: false,
-          error: 'Invalid update data',
-          details: error.errors
-        });
-      }
-      
-      res.status(500).json({
-        success: false,
-        error: 'Failed to update task'
-      });
+      next(error);
     }
   });
 
   // POST /api/tasks/:id/complete - Mark task as completed
-  router.post('/:id/complete', async (req: Request, res: Response) => {
+  router.post('/:id/complete', async (req: Request, res: Response, next: NextFunction) => {
     try {
       const taskId = req.params.id;
       
@@ -175,17 +282,12 @@ export function createTaskRoutes(todoistService: TodoistService): Router {
         completed: result  // Change from "data: result" to "completed: result"
       });
     } catch (error) {
-      appLogger.error('Failed to complete task', { error, taskId: req.params.id });
-      
-      res.status(500).json({
-        success: false,
-        error: 'Failed to complete task'
-      });
+      next(error);
     }
   });
 
   // POST /api/tasks/:id/reopen - Reopen completed task
-  router.post('/:id/reopen', async (req: Request, res: Response) => {
+  router.post('/:id/reopen', async (req: Request, res: Response, next: NextFunction) => {
     try {
       const taskId = req.params.id;
       
@@ -201,17 +303,37 @@ export function createTaskRoutes(todoistService: TodoistService): Router {
         data: result
       });
     } catch (error) {
-      appLogger.error('Failed to reopen task', { error, taskId: req.params.id });
+      next(error);
+    }
+  });
+
+  // POST /api/tasks/:id/move - Move task and its subtasks to a project, section or parent task (by ID or name)
+  router.post('/:id/move', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const taskId = req.params.id;
+      const references = await nameResolver.resolveTaskReferences(MoveTaskRequestSchema.parse(req.body));
+      const destination = toTaskDestination(references);
       
-      res.status(500).json({
-        success: false,
-        error: 'Failed to reopen task'
+      appLogger.info('Moving task', { id: taskId, destination });
+      
+      const result = await todoistService.moveTaskWithSubtasks(taskId, destination);
+      
+      appLogger.info('Task moved successfully', { id: taskId, subtasks: result.subtask_ids.length });
+      
+      res.json({
+        success: true,
+        message: 'Task moved successfully',
+        data: result.task,
+        moved_subtask_ids: result.subtask_ids,
+        ...(references.created.length > 0 ? { created: references.created } : {})
       });
+    } catch (error) {
+      next(error);
     }
   });
 
   // DELETE /api/tasks/:id - Delete task
-  router.delete('/:id', async (req: Request, res: Response) => {
+  router.delete('/:id', async (req: Request, res: Response, next: NextFunction) => {
     try {
       const taskId = req.params.id;
       
@@ -227,12 +349,49 @@ export function createTaskRoutes(todoistService: TodoistService): Router {
         data: result
       });
     } catch (error) {
-      appLogger.error('Failed to delete task', { error, taskId: req.params.id });
+      next(error);
+    }
+  });
+
+  // GET /api/tasks/:id/comments - List comments on a task
+  router.get('/:id/comments', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const taskId = req.params.id;
+      
+      appLogger.info('Fetching task comments', { id: taskId });
+      
+      const comments = await todoistService.getComments({ task_id: taskId });
+      
+      appLogger.info('Task comments fetched successfully', { id: taskId, count: comments.length });
+      
+      res.json({
+        success: true,
+        data: comments,
+        count: comments.length
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // POST /api/tasks/:id/comments - Add a comment (optionally with an attachment) to a task
+  router.post('/:id/comments', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const taskId = req.params.id;
+      const commentData = CreateCommentSchema.parse(req.body);
+      
+      appLogger.info('Adding task comment', { id: taskId, hasAttachment: !!commentData.attachment });
+      
+      const comment = await todoistService.createComment({ task_id: taskId, ...commentData });
+      
+      appLogger.info('Task comment added successfully', { id: taskId, commentId: comment.id });
       
-      res.status(500).json({
-        success: false,
-        error: 'Failed to delete task'
+      res.status(201).json({
+        success: true,
+        data: comment
       });
+    } catch (error) {
+      next(error);
     }
   });
 
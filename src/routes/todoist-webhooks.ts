@@ -0,0 +1,61 @@
+import express, { Router, Request, Response, NextFunction } from 'express';
+import { TodoistAccountRegistry } from '../services/todoist-accounts';
+import { EventHub, verifyWebhookSignature, normalizeWebhookEvent, resourcesChangedBy } from '../services/events';
+import { UnauthorizedError, ValidationError } from '../middleware/error-handler';
+import { keepContext } from '../middleware/request-context';
+import { appLogger } from '../utils/logger';
+
+/**
+ * Receiver for Todoist's webhook deliveries
+ * Must be mounted before the JSON body parser: the signature covers the raw body
+ */
+export function createTodoistWebhookRoutes(
+  clientSecret: string,
+  accounts: TodoistAccountRegistry,
+  eventHub: EventHub
+): Router {
+  const router = Router();
+
+  // POST /webhooks/todoist - Verify, normalise and publish a Todoist event
+  router.post('/', keepContext(express.raw({ type: '*/*', limit: '1mb' })), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const rawBody: Buffer = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+
+      if (!verifyWebhookSignature(rawBody, req.get('X-Todoist-Hmac-SHA256'), clientSecret)) {
+        throw new UnauthorizedError('Invalid webhook signature');
+      }
+
+      let body: unknown;
+      try {
+        body = JSON.parse(rawBody.toString('utf8'));
+      } catch {
+        throw new ValidationError('Webhook body is not valid JSON');
+      }
+
+      const event = normalizeWebhookEvent(body);
+
+      // Todoist retries anything but a 200, so unsupported events are acknowledged too
+      if (!event) {
+        appLogger.debug('Ignoring Todoist webhook event', { event: (body as { event_name?: string }).event_name });
+        return res.json({ success: true, message: 'Event ignored' });
+      }
+
+      appLogger.info('Todoist webhook received', { event: event.todoist_event, id: event.id });
+
+      // The change happened outside this server, so cached reads are out of date
+      const resources = resourcesChangedBy(event);
+      await Promise.all(accounts.activeServices.map(service => service.markChanged(resources)));
+
+      eventHub.publish(event);
+
+      res.json({
+        success: true,
+        data: { id: event.id, type: event.type }
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,68 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { TodoistService } from '../services/todoist.service';
+import { OutboundWebhookService } from '../services/outbound-webhooks';
+import { NotFoundError } from '../middleware/error-handler';
+import { appLogger } from '../utils/logger';
+import { CreateWebhookSubscriptionSchema } from '../utils/validation';
+
+export function createWebhookRoutes(todoistService: TodoistService, webhooks: OutboundWebhookService): Router {
+  const router = Router();
+
+  // GET /api/webhooks - List the caller's webhook subscriptions
+  router.get('/', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const subscriptions = await webhooks.list(req.client!.id);
+
+      res.json({
+        success: true,
+        data: subscriptions,
+        count: subscriptions.length
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // POST /api/webhooks - Register a URL for the caller's Todoist events
+  router.post('/', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const subscriptionData = CreateWebhookSubscriptionSchema.parse(req.body);
+
+      appLogger.info('Creating webhook subscription', { url: subscriptionData.url, events: subscriptionData.events });
+
+      const subscription = await webhooks.subscribe(
+        req.client!.id,
+        await todoistService.getUserId(),
+        subscriptionData.url,
+        subscriptionData.events
+      );
+
+      res.status(201).json({
+        success: true,
+        data: subscription,
+        message: 'Store the secret now: it is used to sign deliveries and is not shown again'
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // DELETE /api/webhooks/:id - Remove a webhook subscription
+  router.delete('/:id', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const removed = await webhooks.remove(req.client!.id, req.params.id);
+      if (!removed) {
+        throw new NotFoundError(`Webhook subscription ${req.params.id} not found`);
+      }
+
+      res.json({
+        success: true,
+        message: 'Webhook subscription deleted'
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  return router;
+}
@@ -3,27 +3,41 @@ import cors from 'cors';
 import helmet from 'helmet';
 import { config } from '../utils/config';
 import { appLogger } from '../utils/logger';
-import { todoistService } from '../services/todoist.service';
+import { todoistService, todoistAccounts, todoistOAuth } from '../services/todoist-accounts';
+import { authorize, methodScope, Scope } from '../middleware/auth';
+import { bindTodoistAccount } from '../middleware/todoist-account';
+import { errorHandler, notFoundHandler } from '../middleware/error-handler';
+import { requestContext, keepContext } from '../middleware/request-context';
+import { recordHttpMetrics } from '../middleware/metrics';
+import { metricsRegistry } from '../utils/metrics';
 
 // Import route handlers
 import { createTaskRoutes } from '../routes/tasks';
 import { createProjectRoutes } from '../routes/projects';
 import { createLabelRoutes } from '../routes/labels';
+import { createSectionRoutes } from '../routes/sections';
+import { createCommentRoutes } from '../routes/comments';
+import { createBatchRoutes } from '../routes/batch';
+import { createHistoryRoutes } from '../routes/history';
+import { createAuditRoutes } from '../routes/audit';
+import { createStatsRoutes } from '../routes/stats';
 import { createHealthRoutes } from '../routes/health';
+import { createMetricsRoutes } from '../routes/metrics';
+import { createOAuthRoutes } from '../routes/oauth';
+import { createTodoistWebhookRoutes } from '../routes/todoist-webhooks';
+import { createWebhookRoutes } from '../routes/webhooks';
+import { createEventRoutes } from '../routes/events';
+import { createAgendaRoutes } from '../routes/agenda';
+import { createCalendarRoutes } from '../routes/calendar';
+import { eventHub } from '../services/events';
+import { outboundWebhooks } from '../services/outbound-webhooks';
+import { auditLog } from '../services/audit-log';
+import { createMcpRoutes } from './transport';
 
-// Type definitions for consistent error handling
-interface ApiError extends Error {
-  statusCode?: number;
-  code?: string;
-}
-
-interface ErrorResponse {
-  error: string;
-  message?: string;
-  details?: string;
-  timestamp: string;
-  path: string;
-}
+// Deleting and (un)archiving projects needs projects:admin; other writes need projects:write
+const projectMethodScope = methodScope('projects:read', 'projects:write');
+const projectScope = (req: Request): Scope =>
+  req.method === 'DELETE' || /\/(un)?archive$/.test(req.path) ? 'projects:admin' : projectMethodScope(req);
 
 /**
  * Create Express application with all middleware and routes
@@ -34,6 +48,10 @@ export async function createExpressServer(): Promise<Application> {
   // Trust proxy for accurate IP addresses when behind load balancer
   app.set('trust proxy', 1);
 
+  // Request ID and trace span first, so every later log line and Todoist call is tied to the request
+  app.use(requestContext);
+  app.use(recordHttpMetrics);
+
   // Security middleware
   app.use(helmet({
     contentSecurityPolicy: {
@@ -56,13 +74,31 @@ export async function createExpressServer(): Promise<Application> {
       'https://claudeusercontent.com'       // Alternative without www
     ] : true, // Allow all in development
     methods: ['GET', 'POST', 'PATCH', 'DELETE', 'OPTIONS'],
-    allowedHeaders: ['Content-Type', 'Authorization'],
+    allowedHeaders: ['Content-Type', 'Authorization', 'Mcp-Protocol-Version', 'If-None-Match', 'X-Request-Id', 'traceparent', 'tracestate'],
+    exposedHeaders: ['ETag', 'X-Request-Id'],
     credentials: false,
   }));
 
+  // Conditional GETs: Express puts an ETag on every JSON body and answers 304 to a matching If-None-Match;
+  // no-cache makes clients revalidate rather than reuse a stale copy
+  app.set('etag', 'weak');
+  app.use('/api', (req: Request, res: Response, next: NextFunction): void => {
+    if (req.method === 'GET') {
+      res.set('Cache-Control', 'private, no-cache');
+    }
+    next();
+  });
+
+  // Todoist webhook deliveries - public but signed; mounted before body parsing because the
+  // signature covers the raw body
+  if (config.TODOIST_CLIENT_SECRET) {
+    app.use('/webhooks/todoist', createTodoistWebhookRoutes(config.TODOIST_CLIENT_SECRET, todoistAccounts, eventHub));
+    outboundWebhooks.start();
+  }
+
   // Body parsing middleware
-  app.use(express.json({ limit: '10mb' }));
-  app.use(express.urlencoded({ extended: true, limit: '10mb' }));
+  app.use(keepContext(express.json({ limit: '10mb' })));
+  app.use(keepContext(express.urlencoded({ extended: true, limit: '10mb' })));
 
   // Request logging middleware
   app.use((req: Request, res: Response, next: NextFunction): void => {
@@ -71,6 +107,8 @@ export async function createExpressServer(): Promise<Application> {
     res.on('finish', () => {
       const duration = Date.now() - start;
       appLogger.info('HTTP Request', {
+        request_id: res.locals.requestId,
+        client: req.client?.id,
         method: req.method,
         path: req.path,
         status: res.statusCode,
@@ -90,85 +128,163 @@ export async function createExpressServer(): Promise<Application> {
       version: config.MCP_SERVER_VERSION,
       description: 'REST API server enabling Claude AI to manage Todoist tasks, projects, and labels',
       environment: config.NODE_ENV,
+      authentication: 'Bearer API key with scopes (tasks:read, tasks:write, projects:read, projects:write, projects:admin, labels:read, labels:write, webhooks, audit, metrics, mcp)',
       endpoints: {
         health: {
           'GET /health': 'Comprehensive health check with Todoist connectivity',
           'GET /health/simple': 'Simple health check for load balancers',
           'GET /health/ready': 'Readiness probe for orchestrators'
         },
+        metrics: {
+          'GET /metrics': 'Prometheus metrics: requests per route, Todoist calls per endpoint, rate limits, cache hit ratio, process'
+        },
         tasks: {
-          'GET /api/tasks': 'List tasks with optional filtering',
-          'POST /api/tasks': 'Create a new task',
+          'GET /api/tasks': 'List tasks with optional filtering (view=tree nests subtasks)',
+          'GET /api/tasks/completed': 'Completed task history (since, until, project_id, limit, offset)',
+          'POST /api/tasks': 'Create a new task (project_name, section_name and parent_content accepted in place of IDs)',
+          'POST /api/tasks/quick': 'Create a task from natural-language text (#project /section @label p1-p4 due {deadline}; dry_run parses only)',
+          'POST /api/tasks/bulk': 'Complete, delete, relabel, reprioritise, reschedule or move every task a filter or selector matches (dry run, then confirmation_token)',
+          'POST /api/tasks/reschedule-overdue': 'Move every overdue task to one date, keeping times and recurrences (to, project_id, dry_run)',
+          'GET /api/tasks/:id/occurrences': 'Next due dates of a recurring task (count)',
+          'POST /api/tasks/:id/postpone': 'Shift the due date by days, weeks or months, keeping time of day and recurrence',
           'PATCH /api/tasks/:id': 'Update an existing task',
           'POST /api/tasks/:id/complete': 'Mark task as completed',
           'POST /api/tasks/:id/reopen': 'Reopen a completed task',
-          'DELETE /api/tasks/:id': 'Delete a task'
+          'POST /api/tasks/:id/move': 'Move a task and its subtasks to a project, section or parent task, by ID or name',
+          'DELETE /api/tasks/:id': 'Delete a task',
+          'GET /api/tasks/:id/comments': 'List comments on a task',
+          'POST /api/tasks/:id/comments': 'Add a comment (with optional attachment) to a task'
         },
         projects: {
-          'GET /api/projects': 'List all projects',
-          'POST /api/projects': 'Create a new project'
+          'GET /api/projects': 'List all projects, or the children of ?parent_id',
+          'POST /api/projects': 'Create a new project (parent_name accepted in place of parent_id)',
+          'GET /api/projects/archived': 'List archived projects',
+          'GET /api/projects/:id': 'Get a single project',
+          'GET /api/projects/:id/tree': 'Project sections, tasks and subtasks as a nested tree with counts',
+          'PATCH /api/projects/:id': 'Update an existing project',
+          'DELETE /api/projects/:id': 'Delete a project',
+          'POST /api/projects/:id/archive': 'Archive a project',
+          'POST /api/projects/:id/unarchive': 'Unarchive a project',
+          'GET /api/projects/:id/comments': 'List comments on a project',
+          'POST /api/projects/:id/comments': 'Add a comment (with optional attachment) to a project'
+        },
+        comments: {
+          'GET /api/comments/:id': 'Get a single comment',
+          'PATCH /api/comments/:id': 'Edit a comment',
+          'DELETE /api/comments/:id': 'Delete a comment'
+        },
+        stats: {
+          'GET /api/stats': 'Completions per day and week, streaks and per-project breakdown'
+        },
+        agenda: {
+          'GET /api/agenda': 'Overdue tasks, then tasks grouped by day (days, tz, project_id)',
+          'GET /api/calendar.ics': 'iCalendar feed of dated tasks; accepts ?key= for calendar subscriptions'
+        },
+        batch: {
+          'POST /api/batch': 'Apply an ordered list of task operations, optionally all-or-nothing'
+        },
+        history: {
+          'GET /api/history': 'Changes made through this server, newest first (resource, resource_id, limit)',
+          'GET /api/history/:id': 'A single change with the snapshot taken before it',
+          'POST /api/history/:id/undo': 'Reverse a change: recreate deleted items, reopen closed tasks or restore updated fields'
+        },
+        audit: {
+          'GET /api/audit': 'Who changed what: actor, action, resource, field diff and request ID (filters: actor, action, resource, resource_id, request_id, since, until, limit)',
+          'GET /api/audit/export': 'Matching audit entries as a JSON Lines download'
+        },
+        sections: {
+          'GET /api/sections': 'List sections, optionally filtered by project_id',
+          'GET /api/sections/:id': 'Get a single section',
+          'POST /api/sections': 'Create a new section (project_name accepted in place of project_id)',
+          'PATCH /api/sections/:id': 'Rename a section',
+          'DELETE /api/sections/:id': 'Delete a section',
+          'POST /api/sections/:id/tasks': 'Move tasks into a section'
         },
         labels: {
-          'GET /api/labels': 'List all labels'
+          'GET /api/labels': 'List all labels',
+          'GET /api/labels/:id': 'Get a single label',
+          'POST /api/labels': 'Create a new personal label',
+          'PATCH /api/labels/:id': 'Rename, recolor or reorder a personal label',
+          'DELETE /api/labels/:id': 'Delete a personal label',
+          'GET /api/labels/shared': 'List label names used on tasks',
+          'POST /api/labels/shared/rename': 'Rename a label on every task',
+          'POST /api/labels/shared/remove': 'Remove a label from every task'
+        },
+        mcp: {
+          'POST /mcp': 'MCP streamable HTTP endpoint (stateless)'
+        },
+        events: {
+          'GET /api/events': 'Server-Sent Events stream of task, project and comment changes (?types= filters)',
+          'POST /webhooks/todoist': 'Receiver for signed Todoist webhook deliveries'
+        },
+        webhooks: {
+          'GET /api/webhooks': 'List outbound webhook subscriptions',
+          'POST /api/webhooks': 'Subscribe a URL to events; returns the signing secret once',
+          'DELETE /api/webhooks/:id': 'Remove an outbound webhook subscription'
+        },
+        oauth: {
+          'GET /auth/todoist/start': 'Get the Todoist consent URL for the calling client',
+          'GET /auth/todoist/callback': 'OAuth redirect target; stores the encrypted access token',
+          'GET /auth/todoist/status': 'Whether the calling client has a linked Todoist account',
+          'DELETE /auth/todoist': 'Unlink the calling client\'s Todoist account'
         }
       },
       documentation: 'https://github.com/neoman007-git/claude-todoist-api'
     });
   });
 
-  // API routes - pass todoistService instance to each route creator
-  app.use('/health', createHealthRoutes(todoistService));
-  app.use('/api/tasks', createTaskRoutes(todoistService));
-  app.use('/api/projects', createProjectRoutes(todoistService));
-  app.use('/api/labels', createLabelRoutes(todoistService));
+  // Health checks stay public for load balancers and orchestrators
+  app.use('/health', createHealthRoutes(todoistAccounts.defaultService));
 
-  // 404 handler
-  app.use((req: Request, res: Response): void => {
-    res.status(404).json({
-      error: 'Not Found',
-      message: `Route ${req.method} ${req.path} not found`,
-      timestamp: new Date().toISOString(),
-      path: req.path
-    } satisfies ErrorResponse);
-  });
+  // Prometheus scrapes with a bearer token like any other client; no Todoist account is involved
+  app.use('/metrics', authorize('metrics'), createMetricsRoutes(metricsRegistry));
 
-  // Global error handler
-  app.use((error: ApiError, req: Request, res: Response, next: NextFunction): void => {
-    // Log the error
-    appLogger.error('Express error handler', {
-      error: error.message,
-      stack: error.stack,
-      path: req.path,
-      method: req.method,
-      statusCode: error.statusCode
-    });
+  // Todoist account linking - only when OAuth credentials are configured
+  if (todoistOAuth) {
+    app.use('/auth/todoist', createOAuthRoutes(todoistAccounts, todoistOAuth));
+  }
 
-    // Determine status code
-    const statusCode = error.statusCode || 500;
-    
-    // Don't expose internal errors in production
-    const message = config.NODE_ENV === 'production' && statusCode >= 500
-      ? 'Internal Server Error'
-      : error.message;
-
-    const errorResponse: ErrorResponse = {
-      error: message,
-      timestamp: new Date().toISOString(),
-      path: req.path
-    };
-
-    // Add details in development
-    if (config.NODE_ENV === 'development') {
-      errorResponse.details = error.stack;
-    }
+  // API routes - each router requires an authenticated client with the scope its routes need,
+  // and runs against that client's linked Todoist account
+  const account = (scopeFor: Scope | ((req: Request) => Scope), options: { allowQueryKey?: boolean } = {}) =>
+    [...authorize(scopeFor, options), bindTodoistAccount];
 
-    res.status(statusCode).json(errorResponse);
-  });
+  app.use('/api/tasks', account(methodScope('tasks:read', 'tasks:write')), createTaskRoutes(todoistService));
+  app.use('/api/projects', account(projectScope), createProjectRoutes(todoistService));
+  app.use('/api/sections', account(methodScope('projects:read', 'projects:write')), createSectionRoutes(todoistService));
+  app.use('/api/batch', account('tasks:write'), createBatchRoutes(todoistService));
+  // Undo additionally checks the write scope of whatever the change touched
+  app.use('/api/history', account(methodScope('tasks:read', 'tasks:write')), createHistoryRoutes(todoistService));
+  app.use('/api/stats', account('tasks:read'), createStatsRoutes(todoistService));
+  app.use('/api/comments', account(methodScope('tasks:read', 'tasks:write')), createCommentRoutes(todoistService));
+  app.use('/api/labels', account(methodScope('labels:read', 'labels:write')), createLabelRoutes(todoistService));
+  app.use('/api/agenda', account('tasks:read'), createAgendaRoutes(todoistService));
+  // Calendar apps subscribe by URL, so the feed also accepts the API key as ?key=
+  app.use('/api/calendar.ics', account('tasks:read', { allowQueryKey: true }), createCalendarRoutes(todoistService));
+  // Events only arrive through the Todoist webhook receiver, so the stream and outbound
+  // subscriptions exist only alongside it
+  if (config.TODOIST_CLIENT_SECRET) {
+    app.use('/api/events', account('tasks:read'), createEventRoutes(todoistService, eventHub));
+    app.use('/api/webhooks', account('webhooks'), createWebhookRoutes(todoistService, outboundWebhooks));
+  }
+  app.use('/api/audit', account('audit'), createAuditRoutes(todoistService, auditLog));
+  app.use('/mcp', account('mcp'), createMcpRoutes(todoistService));
+
+  // 404 handler
+  app.use(notFoundHandler);
+
+  // Global error handler - routes pass every failure here
+  app.use(errorHandler);
 
   // Initialize services and verify connectivity
   try {
+    if (!todoistAccounts.defaultService) {
+      appLogger.info('No TODOIST_API_KEY set: requests use the Todoist account each client links via /auth/todoist');
+      return app;
+    }
+
     appLogger.info('Initializing Todoist service...');
-    const healthStatus = await todoistService.healthCheck();
+    const healthStatus = await todoistAccounts.defaultService.healthCheck();
     
     if (!healthStatus) {
       appLogger.warn('Todoist service health check failed during startup');
@@ -0,0 +1,20 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { config } from '../utils/config';
+import { TodoistService } from '../services/todoist.service';
+import { registerTools } from '../tools';
+import type { Scope } from '../middleware/auth';
+
+/**
+ * Create an MCP server exposing every Todoist operation as a tool
+ * scopes limits the tools to those an HTTP client may use; stdio passes none
+ */
+export function createMcpServer(todoistService: TodoistService, scopes?: readonly Scope[]): McpServer {
+  const server = new McpServer({
+    name: config.MCP_SERVER_NAME,
+    version: config.MCP_SERVER_VERSION
+  });
+
+  registerTools(server, todoistService, scopes);
+
+  return server;
+}
@@ -0,0 +1,69 @@
+import { Router, Request, Response } from 'express';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { TodoistService } from '../services/todoist.service';
+import { appLogger } from '../utils/logger';
+import { createMcpServer } from './mcp-server';
+
+/**
+ * Serve MCP over stdin/stdout (used when launched by Claude Desktop)
+ */
+export async function startStdioTransport(todoistService: TodoistService): Promise<void> {
+  const server = createMcpServer(todoistService);
+  const transport = new StdioServerTransport();
+
+  await server.connect(transport);
+
+  appLogger.info('MCP server listening on stdio');
+}
+
+/**
+ * Serve MCP over streamable HTTP
+ * Runs stateless: every POST gets a fresh server and transport, so no session state is kept between requests
+ */
+export function createMcpRoutes(todoistService: TodoistService): Router {
+  const router = Router();
+
+  // POST /mcp - JSON-RPC requests from MCP clients
+  router.post('/', async (req: Request, res: Response) => {
+    // Tools are limited to the client's scopes, the same ones the REST routes require
+    const server = createMcpServer(todoistService, req.client?.scopes ?? []);
+    const transport = new StreamableHTTPServerTransport({ sessionIdGenerator: undefined });
+
+    res.on('close', () => {
+      transport.close();
+      server.close();
+    });
+
+    try {
+      await server.connect(transport);
+      await transport.handleRequest(req, res, req.body);
+    } catch (error) {
+      appLogger.error('Failed to handle MCP request', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+
+      if (!res.headersSent) {
+        res.status(500).json({
+          jsonrpc: '2.0',
+          error: { code: -32603, message: 'Internal server error' },
+          id: null
+        });
+      }
+    }
+  });
+
+  // GET/DELETE /mcp - Server-initiated streams and sessions are not supported in stateless mode
+  const methodNotAllowed = (req: Request, res: Response) => {
+    res.status(405).json({
+      jsonrpc: '2.0',
+      error: { code: -32000, message: 'Method not allowed' },
+      id: null
+    });
+  };
+
+  router.get('/', methodNotAllowed);
+  router.delete('/', methodNotAllowed);
+
+  return router;
+}
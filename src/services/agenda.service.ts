@@ -0,0 +1,95 @@
+import { Task, TodoistService } from './todoist.service';
+import { addDays, dueWallTime, zonedWallTime } from './due-dates.service';
+
+export interface AgendaEntry {
+  time: string | null;                          // HH:MM in the agenda's timezone, null for all-day tasks
+  date: string;                                 // YYYY-MM-DD in the agenda's timezone
+  task: Task;
+}
+
+export interface AgendaDay {
+  date: string;
+  weekday: string;
+  tasks: AgendaEntry[];
+}
+
+export interface Agenda {
+  timezone: string;
+  today: string;
+  overdue: AgendaEntry[];
+  days: AgendaDay[];
+  count: number;
+}
+
+/**
+ * Whether a string is an IANA timezone this runtime knows, e.g. "Europe/Berlin"
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Timed entries first in time order, then all-day ones by priority (p1 first) and list order
+ */
+function compareEntries(a: AgendaEntry, b: AgendaEntry): number {
+  if (a.date !== b.date) return a.date < b.date ? -1 : 1;
+  if (a.time && b.time) return a.time.localeCompare(b.time);
+  if (a.time || b.time) return a.time ? -1 : 1;
+  return b.task.priority - a.task.priority || a.task.order - b.task.order;
+}
+
+/**
+ * Group dated tasks into overdue and one bucket per day, from today for `days` days, in a timezone
+ */
+export function buildAgenda(tasks: Task[], days: number, timeZone: string, now: Date = new Date()): Agenda {
+  const today = zonedWallTime(now, timeZone).date;
+  const lastDay = addDays(today, days - 1);
+
+  const entries: AgendaEntry[] = tasks
+    .filter(task => task.due)
+    .map(task => {
+      const wall = dueWallTime(task.due!, timeZone);
+      return { date: wall.date, time: wall.time?.slice(0, 5) ?? null, task };
+    })
+    .filter(entry => entry.date <= lastDay)
+    .sort(compareEntries);
+
+  const weekdayFormat = new Intl.DateTimeFormat('en-US', { weekday: 'long', timeZone: 'UTC' });
+  const agendaDays: AgendaDay[] = Array.from({ length: days }, (_, offset) => {
+    const date = addDays(today, offset);
+    return {
+      date,
+      weekday: weekdayFormat.format(new Date(`${date}T00:00:00Z`)),
+      tasks: entries.filter(entry => entry.date === date)
+    };
+  });
+
+  const overdue = entries.filter(entry => entry.date < today);
+  return {
+    timezone: timeZone,
+    today,
+    overdue,
+    days: agendaDays,
+    count: overdue.length + agendaDays.reduce((total, day) => total + day.tasks.length, 0)
+  };
+}
+
+/**
+ * Fetch tasks and build the agenda; the timezone defaults to the user's Todoist setting, then the server's
+ */
+export async function loadAgenda(
+  todoistService: TodoistService,
+  options: { days: number; tz?: string; project_id?: string }
+): Promise<Agenda> {
+  const [tasks, user] = await Promise.all([
+    todoistService.getTasks({ project_id: options.project_id }),
+    options.tz ? undefined : todoistService.getUser()
+  ]);
+  const timeZone = options.tz ?? user?.timezone ?? Intl.DateTimeFormat().resolvedOptions().timeZone;
+  return buildAgenda(tasks, options.days, timeZone);
+}
@@ -0,0 +1,192 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import readline from 'readline';
+import { randomUUID } from 'crypto';
+import { config } from '../utils/config';
+import { appLogger } from '../utils/logger';
+import { redactSecrets } from '../utils/redact';
+import { currentRequestContext } from '../utils/request-context';
+import { HistoryChange, HistoryResource, changeTarget } from './history-store';
+
+export type AuditDiff = Record<string, { before: unknown; after: unknown }>;
+
+export interface AuditEntry {
+  id: string;
+  at: string;
+  request_id: string | null;                    // Ties the entry to the HTTP request logs
+  actor: string;                                // API client ID; "system" outside HTTP requests (stdio MCP)
+  todoist_user_id: string;
+  action: HistoryChange['action'];
+  resource: HistoryResource;
+  resource_id: string;
+  history_id: string | null;                    // Undo journal entry for the same change, when history is on
+  diff: AuditDiff;                              // Changed fields; creates have no before, deletes no after
+}
+
+export interface AuditFilter {
+  actor?: string;
+  action?: string;
+  resource?: HistoryResource;
+  resource_id?: string;
+  request_id?: string;
+  since?: string;
+  until?: string;
+}
+
+/**
+ * Fields that differ between two versions of a resource
+ * With both versions, only the fields present in after are compared (after may be partial)
+ */
+export function diffFields(before?: object, after?: object): AuditDiff {
+  const beforeFields = (before ?? {}) as Record<string, unknown>;
+  const afterFields = (after ?? {}) as Record<string, unknown>;
+  const keys = before && after
+    ? Object.keys(afterFields)
+    : [...new Set([...Object.keys(beforeFields), ...Object.keys(afterFields)])];
+
+  const diff: AuditDiff = {};
+  for (const key of keys) {
+    const was = before ? beforeFields[key] ?? null : null;
+    const is = after ? afterFields[key] ?? null : null;
+    if (JSON.stringify(was) !== JSON.stringify(is)) {
+      diff[key] = { before: was, after: is };
+    }
+  }
+  return diff;
+}
+
+// Shared labels have no snapshot, only a name
+function changeBefore(change: HistoryChange): object | undefined {
+  if ('before' in change) return change.before;
+  if (change.action === 'label.rename_shared' || change.action === 'label.remove_shared') return { name: change.name };
+  return undefined;
+}
+
+export function matchesAuditFilter(entry: AuditEntry, filter: AuditFilter): boolean {
+  return (!filter.actor || entry.actor === filter.actor) &&
+    (!filter.action || entry.action === filter.action) &&
+    (!filter.resource || entry.resource === filter.resource) &&
+    (!filter.resource_id || entry.resource_id === filter.resource_id) &&
+    (!filter.request_id || entry.request_id === filter.request_id) &&
+    (!filter.since || Date.parse(entry.at) >= Date.parse(filter.since)) &&
+    (!filter.until || Date.parse(entry.at) <= Date.parse(filter.until));
+}
+
+/**
+ * Append-only audit trail of writes, one JSON object per line
+ * Entries are never rewritten; rotate or archive the file externally
+ */
+export class AuditLog {
+  private writing: Promise<void> = Promise.resolve();
+  private tailChecked = false;
+
+  constructor(
+    private readonly filePath: string,
+    readonly enabled: boolean
+  ) {}
+
+  /**
+   * Record a change made for a Todoist user by whoever made the current request
+   */
+  async append(
+    todoistUserId: string,
+    change: HistoryChange,
+    after: object | undefined,
+    historyId?: string
+  ): Promise<AuditEntry> {
+    const context = currentRequestContext();
+    const entry: AuditEntry = {
+      id: randomUUID(),
+      at: new Date().toISOString(),
+      request_id: context?.request_id ?? null,
+      actor: context?.client_id ?? 'system',
+      todoist_user_id: todoistUserId,
+      action: change.action,
+      ...changeTarget(change),
+      history_id: historyId ?? null,
+      diff: redactSecrets(diffFields(changeBefore(change), after))
+    };
+
+    const line = `${JSON.stringify(entry)}\n`;
+    const write = async () => {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      // After a crash mid-append, start on a new line so the torn one does not swallow this entry
+      const prefix = this.tailChecked || (await this.endsWithNewline()) ? '' : '\n';
+      await fs.appendFile(this.filePath, prefix + line, { mode: 0o600 });
+      this.tailChecked = true;
+    };
+
+    // Appends are queued so concurrent writes never interleave
+    this.writing = this.writing.then(write, write);
+    await this.writing;
+    return entry;
+  }
+
+  private async endsWithNewline(): Promise<boolean> {
+    let handle: fs.FileHandle;
+    try {
+      handle = await fs.open(this.filePath, 'r');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return true;
+      throw error;
+    }
+
+    try {
+      const { size } = await handle.stat();
+      if (size === 0) return true;
+      const { buffer } = await handle.read(Buffer.alloc(1), 0, 1, size - 1);
+      return buffer[0] === 0x0a;
+    } finally {
+      await handle.close();
+    }
+  }
+
+  /**
+   * Every entry for a Todoist user matching the filter, oldest first
+   */
+  async *entries(todoistUserId: string, filter: AuditFilter = {}): AsyncGenerator<AuditEntry> {
+    let lines: readline.Interface;
+    try {
+      // Open first so a missing file is an empty log rather than a stream error
+      const handle = await fs.open(this.filePath, 'r');
+      lines = readline.createInterface({ input: handle.createReadStream(), crlfDelay: Infinity });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return;
+      appLogger.error('Failed to read audit log', { path: this.filePath, error });
+      throw error;
+    }
+
+    let lineNumber = 0;
+    for await (const line of lines) {
+      lineNumber++;
+      if (!line.trim()) continue;
+
+      // A crash mid-append can leave a torn line; one bad line must not hide the rest of the log
+      let entry: AuditEntry;
+      try {
+        entry = JSON.parse(line) as AuditEntry;
+      } catch {
+        appLogger.warn('Skipping malformed audit log line', { path: this.filePath, line: lineNumber });
+        continue;
+      }
+
+      if (entry.todoist_user_id === todoistUserId && matchesAuditFilter(entry, filter)) {
+        yield entry;
+      }
+    }
+  }
+
+  /**
+   * The newest `limit` matching entries, newest first
+   */
+  async query(todoistUserId: string, filter: AuditFilter, limit: number): Promise<AuditEntry[]> {
+    const newest: AuditEntry[] = [];
+    for await (const entry of this.entries(todoistUserId, filter)) {
+      newest.push(entry);
+      if (newest.length > limit) newest.shift();
+    }
+    return newest.reverse();
+  }
+}
+
+export const auditLog = new AuditLog(config.AUDIT_LOG_PATH, config.AUDIT_LOG_ENABLED);
@@ -0,0 +1,280 @@
+import { randomUUID } from 'crypto';
+import { z } from 'zod';
+import { SpanKind, SpanStatusCode } from '@opentelemetry/api';
+import {
+  ATTR_ERROR_TYPE,
+  ATTR_HTTP_REQUEST_METHOD,
+  ATTR_HTTP_REQUEST_RESEND_COUNT,
+  ATTR_HTTP_RESPONSE_STATUS_CODE,
+  ATTR_SERVER_ADDRESS,
+  ATTR_URL_FULL
+} from '@opentelemetry/semantic-conventions';
+import { config } from '../utils/config';
+import { appLogger } from '../utils/logger';
+import { tracer } from '../utils/tracing';
+import { todoistRateLimitHits, todoistRequestDuration, todoistRequestErrors, todoistRequests } from '../utils/metrics';
+import { TodoistUnavailableError, TodoistServerError } from '../middleware/error-handler';
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerStatus {
+  state: CircuitState;
+  consecutive_failures: number;
+  opened_at: string | null;
+  retry_at: string | null;
+}
+
+/**
+ * Stops calling Todoist after repeated server errors or timeouts
+ * Once the reset period has passed a single trial request is let through;
+ * its outcome closes the circuit again or re-opens it
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt?: number;
+  private trialInFlight = false;
+
+  constructor(private readonly threshold: number, private readonly resetMs: number) {}
+
+  /**
+   * Ask to send a request; throws while the circuit is open
+   */
+  acquire(): void {
+    if (this.state === 'open' && Date.now() - this.openedAt! >= this.resetMs) {
+      this.state = 'half_open';
+    }
+
+    if (this.state === 'closed') return;
+
+    if (this.state === 'half_open' && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return;
+    }
+
+    throw new TodoistUnavailableError(
+      'Todoist API is unavailable (circuit open)',
+      'circuit_open',
+      Math.max(0, this.openedAt! + this.resetMs - Date.now())
+    );
+  }
+
+  recordSuccess(): void {
+    if (this.state !== 'closed') {
+      appLogger.info('Todoist circuit breaker closed');
+    }
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.openedAt = undefined;
+    this.trialInFlight = false;
+  }
+
+  recordFailure(): void {
+    this.consecutiveFailures++;
+    this.trialInFlight = false;
+
+    if (this.state === 'half_open' || (this.state === 'closed' && this.consecutiveFailures >= this.threshold)) {
+      appLogger.warn('Todoist circuit breaker opened', {
+        consecutive_failures: this.consecutiveFailures,
+        reset_ms: this.resetMs
+      });
+      this.state = 'open';
+      this.openedAt = Date.now();
+    }
+  }
+
+  get status(): CircuitBreakerStatus {
+    return {
+      state: this.state,
+      consecutive_failures: this.consecutiveFailures,
+      opened_at: this.openedAt ? new Date(this.openedAt).toISOString() : null,
+      retry_at: this.openedAt ? new Date(this.openedAt + this.resetMs).toISOString() : null,
+    };
+  }
+}
+
+export interface RetryPolicy {
+  timeoutMs: number;
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+// An outage affects every linked account, so all Todoist clients share one breaker
+export const todoistCircuitBreaker = new CircuitBreaker(config.CIRCUIT_BREAKER_THRESHOLD, config.CIRCUIT_BREAKER_RESET_MS);
+
+const defaultRetryPolicy: RetryPolicy = {
+  timeoutMs: config.TODOIST_TIMEOUT_MS,
+  maxRetries: config.TODOIST_MAX_RETRIES,
+  baseDelayMs: config.TODOIST_RETRY_BASE_DELAY_MS,
+  maxDelayMs: config.TODOIST_RETRY_MAX_DELAY_MS,
+};
+
+const RETRYABLE_STATUSES = new Set([429, 500, 502, 503, 504]);
+
+const sleep = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Parse a Retry-After header given either in seconds or as an HTTP date
+ */
+export function retryAfterMs(headers: Headers): number | undefined {
+  const value = headers.get('Retry-After');
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Low-cardinality name for a Todoist URL: numeric and alphanumeric IDs in the path become :id
+ * e.g. https://api.todoist.com/rest/v2/tasks/6X7rM8997g3RQmvh/close -> /rest/v2/tasks/:id/close
+ */
+export function todoistEndpoint(url: string): string {
+  return new URL(url).pathname
+    .split('/')
+    .map(segment => (/\d/.test(segment) && !/^v\d+$/.test(segment) ? ':id' : segment))
+    .join('/');
+}
+
+/**
+ * HTTP plumbing shared by the Todoist services: per-attempt timeouts, retries with
+ * exponential backoff and full jitter for 429/5xx and network failures, and the circuit breaker
+ */
+export abstract class BaseService {
+  protected constructor(
+    private readonly circuitBreaker: CircuitBreaker = todoistCircuitBreaker,
+    private readonly retryPolicy: RetryPolicy = defaultRetryPolicy
+  ) {}
+
+  /**
+   * fetch with retries; returns the last response when retries are exhausted
+   * Writes carry one X-Request-Id across every attempt so Todoist applies them at most once
+   * Traced as one client span and measured as one call, covering every attempt
+   */
+  protected async fetchWithRetry(url: string, init: RequestInit = {}): Promise<Response> {
+    const method = init.method ?? 'GET';
+    const endpoint = todoistEndpoint(url);
+    const attributes = {
+      [ATTR_HTTP_REQUEST_METHOD]: method,
+      [ATTR_URL_FULL]: url,
+      [ATTR_SERVER_ADDRESS]: new URL(url).hostname,
+      'todoist.endpoint': endpoint
+    };
+
+    return tracer.startActiveSpan(`${method} ${endpoint}`, { kind: SpanKind.CLIENT, attributes }, async span => {
+      const progress = { retries: 0 };
+      const stopTimer = todoistRequestDuration.startTimer({ method, endpoint });
+      let status = 'error';
+      try {
+        const response = await this.fetchWithRetries(url, init, progress);
+        status = String(response.status);
+        span.setAttribute(ATTR_HTTP_RESPONSE_STATUS_CODE, response.status);
+        if (response.status >= 400) {
+          span.setAttribute(ATTR_ERROR_TYPE, String(response.status));
+          span.setStatus({ code: SpanStatusCode.ERROR });
+        }
+        return response;
+      } catch (error) {
+        if (error instanceof TodoistUnavailableError) status = error.reason;
+        span.setAttribute(ATTR_ERROR_TYPE, status);
+        span.recordException(error as Error);
+        span.setStatus({ code: SpanStatusCode.ERROR, message: error instanceof Error ? error.message : String(error) });
+        throw error;
+      } finally {
+        if (progress.retries > 0) {
+          span.setAttribute(ATTR_HTTP_REQUEST_RESEND_COUNT, progress.retries);
+        }
+        span.end();
+
+        stopTimer();
+        todoistRequests.inc({ method, endpoint, status });
+        if (!/^[23]/.test(status)) {
+          todoistRequestErrors.inc({ method, endpoint, status });
+        }
+      }
+    });
+  }
+
+  private async fetchWithRetries(url: string, init: RequestInit, progress: { retries: number }): Promise<Response> {
+    const { timeoutMs, maxRetries, maxDelayMs } = this.retryPolicy;
+    const method = init.method ?? 'GET';
+    const headers = new Headers(init.headers);
+    if (method !== 'GET' && !headers.has('X-Request-Id')) {
+      headers.set('X-Request-Id', randomUUID());
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      progress.retries = attempt;
+      this.circuitBreaker.acquire();
+
+      let response: Response;
+      try {
+        response = await fetch(url, { ...init, headers, signal: AbortSignal.timeout(timeoutMs) });
+      } catch (error) {
+        this.circuitBreaker.recordFailure();
+
+        const timedOut = error instanceof Error && error.name === 'TimeoutError';
+        const failure = timedOut
+          ? new TodoistUnavailableError(`Todoist API timed out after ${timeoutMs}ms`, 'timeout')
+          : new TodoistUnavailableError(
+              `Todoist API unreachable: ${error instanceof Error ? error.message : String(error)}`,
+              'network'
+            );
+
+        if (attempt >= maxRetries) throw failure;
+
+        const delay = this.backoffDelay(attempt);
+        appLogger.warn('Retrying Todoist request', { method, url, attempt: attempt + 1, delay_ms: delay, reason: failure.reason });
+        await sleep(delay);
+        continue;
+      }
+
+      if (response.status === 429) {
+        todoistRateLimitHits.inc({ method, endpoint: todoistEndpoint(url) });
+      }
+
+      // Rate limits and client errors still mean Todoist is up
+      if (response.status >= 500) {
+        this.circuitBreaker.recordFailure();
+      } else {
+        this.circuitBreaker.recordSuccess();
+      }
+
+      if (!RETRYABLE_STATUSES.has(response.status) || attempt >= maxRetries) {
+        return response;
+      }
+
+      const delay = retryAfterMs(response.headers) ?? this.backoffDelay(attempt);
+      if (delay > maxDelayMs) {
+        return response;
+      }
+
+      await response.body?.cancel();
+      appLogger.warn('Retrying Todoist request', { method, url, attempt: attempt + 1, delay_ms: delay, status: response.status });
+      await sleep(delay);
+    }
+  }
+
+  /**
+   * Validate a Todoist response body; a mismatch is Todoist's fault, not the caller's
+   */
+  protected parseResponse<S extends z.ZodTypeAny>(schema: S, data: unknown): z.output<S> {
+    const result = schema.safeParse(data);
+    if (!result.success) {
+      appLogger.error('Unexpected Todoist response', { issues: result.error.errors });
+      throw new TodoistServerError(`Unexpected response from Todoist: ${result.error.errors[0]?.message}`, {});
+    }
+    return result.data;
+  }
+
+  /**
+   * Full jitter: a random delay up to the exponential ceiling for this attempt
+   */
+  private backoffDelay(attempt: number): number {
+    const ceiling = Math.min(this.retryPolicy.maxDelayMs, this.retryPolicy.baseDelayMs * 2 ** attempt);
+    return Math.round(Math.random() * ceiling);
+  }
+}
@@ -0,0 +1,175 @@
+import { TodoistService, Task } from './todoist.service';
+import { appLogger } from '../utils/logger';
+import { BatchOperation, BatchRequest } from '../utils/validation';
+import { taskToCreateOptions, revertUpdateOptions, taskLocation } from '../utils/task-snapshot';
+
+export type BatchOperationStatus = 'ok' | 'failed' | 'skipped' | 'rolled_back' | 'rollback_failed';
+
+export interface BatchOperationResult {
+  index: number;
+  type: BatchOperation['type'];
+  status: BatchOperationStatus;
+  id?: string;
+  temp_id?: string;
+  data?: Task;
+  error?: string;
+  rollback_error?: string;
+}
+
+export interface BatchResult {
+  atomic: boolean;
+  succeeded: number;
+  failed: number;
+  rolled_back: boolean;
+  temp_id_mapping: Record<string, string>;
+  results: BatchOperationResult[];
+}
+
+// A successfully applied operation and how to reverse it in atomic mode
+interface AppliedOperation {
+  result: BatchOperationResult;
+  undo?: () => Promise<void>;
+}
+
+/**
+ * Applies an ordered list of task operations
+ * Operations run sequentially so later ones can reference tasks created earlier via temp_id
+ */
+export class BatchService {
+  constructor(private readonly todoistService: TodoistService) {}
+
+  async execute(request: BatchRequest): Promise<BatchResult> {
+    const tempIdMapping: Record<string, string> = {};
+    const failedTempIds = new Set<string>();
+    const applied: AppliedOperation[] = [];
+    const results: BatchOperationResult[] = [];
+    let rolledBack = false;
+
+    // Swap temp_ids for real IDs, refusing references to creates that failed
+    const resolveId = (id: string): string => {
+      if (failedTempIds.has(id)) {
+        throw new Error(`Depends on temp_id ${id}, whose create operation failed`);
+      }
+      return tempIdMapping[id] ?? id;
+    };
+
+    for (const [index, operation] of request.operations.entries()) {
+      const result: BatchOperationResult = { index, type: operation.type, status: 'ok' };
+      results.push(result);
+
+      try {
+        const undo = await this.apply(operation, result, resolveId, request.atomic);
+
+        if (operation.type === 'create' && operation.temp_id && result.id) {
+          tempIdMapping[operation.temp_id] = result.id;
+        }
+        applied.push({ result, undo });
+      } catch (error) {
+        result.status = 'failed';
+        result.error = error instanceof Error ? error.message : String(error);
+
+        if (operation.type === 'create' && operation.temp_id) {
+          failedTempIds.add(operation.temp_id);
+        }
+
+        appLogger.warn('Batch operation failed', { index, type: operation.type, error: result.error });
+
+        if (request.atomic) {
+          await this.rollback(applied);
+          rolledBack = true;
+
+          for (const [skippedIndex, skipped] of request.operations.entries()) {
+            if (skippedIndex > index) {
+              results.push({ index: skippedIndex, type: skipped.type, status: 'skipped' });
+            }
+          }
+          break;
+        }
+      }
+    }
+
+    return {
+      atomic: request.atomic,
+      succeeded: results.filter(result => result.status === 'ok').length,
+      failed: results.filter(result => result.status === 'failed').length,
+      rolled_back: rolledBack,
+      temp_id_mapping: tempIdMapping,
+      results
+    };
+  }
+
+  /**
+   * Apply one operation, filling in its result
+   * In atomic mode the task is snapshotted first and an undo function is returned
+   */
+  private async apply(
+    operation: BatchOperation,
+    result: BatchOperationResult,
+    resolveId: (id: string) => string,
+    atomic: boolean
+  ): Promise<(() => Promise<void>) | undefined> {
+    const service = this.todoistService;
+
+    if (operation.type === 'create') {
+      const data = operation.data.parent_id
+        ? { ...operation.data, parent_id: resolveId(operation.data.parent_id) }
+        : operation.data;
+      const task = await service.createTask(data);
+
+      result.id = task.id;
+      result.temp_id = operation.temp_id;
+      result.data = task;
+      return () => service.deleteTask(task.id);
+    }
+
+    const taskId = resolveId(operation.id);
+    result.id = taskId;
+    const snapshot = atomic && ['update', 'delete', 'move'].includes(operation.type)
+      ? await service.getTask(taskId)
+      : undefined;
+
+    switch (operation.type) {
+      case 'update': {
+        result.data = await service.updateTask(taskId, operation.data);
+        return snapshot && (async () => {
+          await service.updateTask(taskId, revertUpdateOptions(snapshot, Object.keys(operation.data)));
+        });
+      }
+      case 'close':
+        await service.closeTask(taskId);
+        return () => service.reopenTask(taskId);
+      case 'reopen':
+        await service.reopenTask(taskId);
+        return () => service.closeTask(taskId);
+      case 'delete':
+        await service.deleteTask(taskId);
+        // Best effort: the task comes back with a new ID and without its subtasks
+        return snapshot && (async () => {
+          await service.createTask(taskToCreateOptions(snapshot));
+        });
+      case 'move': {
+        const destination = 'parent_id' in operation.to
+          ? { parent_id: resolveId(operation.to.parent_id) }
+          : operation.to;
+        await service.moveTask(taskId, destination);
+        return snapshot && (() => service.moveTask(taskId, taskLocation(snapshot)));
+      }
+    }
+  }
+
+  /**
+   * Undo applied operations in reverse order, recording the outcome on each result
+   */
+  private async rollback(applied: AppliedOperation[]): Promise<void> {
+    for (const { result, undo } of [...applied].reverse()) {
+      try {
+        await undo?.();
+        result.status = 'rolled_back';
+      } catch (error) {
+        result.status = 'rollback_failed';
+        result.rollback_error = error instanceof Error ? error.message : String(error);
+        appLogger.error('Batch rollback failed', { index: result.index, type: result.type, error: result.rollback_error });
+      }
+    }
+  }
+}
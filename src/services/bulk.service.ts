@@ -0,0 +1,160 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { TodoistService, Task, SyncCommandInput, SYNC_COMMAND_LIMIT } from './todoist.service';
+import { NameResolver, toTaskDestination } from './name-resolver.service';
+import { resolveDatePhrase, rescheduleDue } from './due-dates.service';
+import { ConflictError, ValidationError } from '../middleware/error-handler';
+import { config } from '../utils/config';
+import { appLogger } from '../utils/logger';
+import { BulkAction, TaskSelector } from '../utils/validation';
+
+export interface BulkTaskSummary {
+  id: string;
+  content: string;
+  project_id: string;
+  due: Task['due'];
+}
+
+export interface BulkPreview {
+  action: BulkAction;
+  tasks: BulkTaskSummary[];
+  count: number;
+  confirmation_token: string;
+  expires_at: string;
+}
+
+export interface BulkResult {
+  action: BulkAction;
+  task_ids: string[];                           // Every task the action applied to, subtasks included
+  commands: number;                             // Sync commands sent; subtasks follow their parents
+}
+
+// Tokens are signed with a per-process key, so they don't survive a restart
+const signingKey = randomBytes(32);
+
+const base64url = (value: Buffer | string): string => Buffer.from(value).toString('base64url');
+
+const sha256 = (value: string): string => createHash('sha256').update(value).digest('hex');
+
+function sign(payload: string): string {
+  return createHmac('sha256', signingKey).update(payload).digest('base64url');
+}
+
+/**
+ * Drop tasks whose parent is also selected: completing, deleting or moving the parent
+ * already takes its subtasks along
+ */
+function withoutSelectedDescendants(tasks: Task[]): Task[] {
+  const byId = new Map(tasks.map(task => [task.id, task]));
+  const hasSelectedAncestor = (task: Task): boolean => {
+    for (let parentId = task.parent_id; parentId; parentId = byId.get(parentId)?.parent_id ?? null) {
+      if (byId.has(parentId)) return true;
+    }
+    return false;
+  };
+  return tasks.filter(task => !hasSelectedAncestor(task));
+}
+
+/**
+ * Applies one action to every task matching a selector, behind a dry-run confirmation
+ *
+ * A dry run returns the matching tasks and a token bound to the Todoist account, the exact
+ * request and the set of tasks it matched. Applying the action requires that token, and is
+ * refused if the selector now matches different tasks.
+ */
+export class BulkTaskService {
+  private readonly nameResolver: NameResolver;
+
+  constructor(private readonly todoistService: TodoistService) {
+    this.nameResolver = new NameResolver(todoistService);
+  }
+
+  async preview(selector: TaskSelector, action: BulkAction): Promise<BulkPreview> {
+    const tasks = await this.todoistService.getTasks(selector);
+    // Resolve early so a bad destination or date fails the preview, not the real run
+    await this.buildCommands(tasks, action);
+
+    const expiresAt = Date.now() + config.BULK_CONFIRMATION_TTL_MS;
+    const payload = base64url(JSON.stringify({ exp: expiresAt, tasks: sha256(tasks.map(task => task.id).sort().join(',')) }));
+    const token = `${payload}.${sign(`${payload}.${await this.requestDigest(selector, action)}`)}`;
+
+    return {
+      action,
+      tasks: tasks.map(task => ({ id: task.id, content: task.content, project_id: task.project_id, due: task.due })),
+      count: tasks.length,
+      confirmation_token: token,
+      expires_at: new Date(expiresAt).toISOString()
+    };
+  }
+
+  async apply(selector: TaskSelector, action: BulkAction, confirmationToken: string): Promise<BulkResult> {
+    const [payload, signature] = confirmationToken.split('.');
+    const expected = sign(`${payload}.${await this.requestDigest(selector, action)}`);
+    if (!signature || signature.length !== expected.length || !timingSafeEqual(Buffer.from(signature), Buffer.from(expected))) {
+      throw new ValidationError('confirmation_token does not match this request; run it with dry_run first');
+    }
+
+    const { exp, tasks: tasksDigest } = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8')) as { exp: number; tasks: string };
+    if (Date.now() > exp) {
+      throw new ValidationError('confirmation_token has expired; run the dry run again');
+    }
+
+    const tasks = await this.todoistService.getTasks(selector);
+    if (sha256(tasks.map(task => task.id).sort().join(',')) !== tasksDigest) {
+      throw new ConflictError('The selector matches different tasks than in the dry run; run the dry run again', {
+        count: tasks.length
+      });
+    }
+
+    const commands = await this.buildCommands(tasks, action);
+    for (let index = 0; index < commands.length; index += SYNC_COMMAND_LIMIT) {
+      await this.todoistService.executeCommands(commands.slice(index, index + SYNC_COMMAND_LIMIT));
+    }
+
+    appLogger.info('Bulk action applied', { action: action.type, tasks: tasks.length, commands: commands.length });
+    return { action, task_ids: tasks.map(task => task.id), commands: commands.length };
+  }
+
+  // Binds a token to the Todoist account and the request it previewed
+  private async requestDigest(selector: TaskSelector, action: BulkAction): Promise<string> {
+    const userId = await this.todoistService.getUserId();
+    return sha256(JSON.stringify([userId, selector, action]));
+  }
+
+  private async buildCommands(tasks: Task[], action: BulkAction): Promise<SyncCommandInput[]> {
+    switch (action.type) {
+      case 'complete':
+        return withoutSelectedDescendants(tasks).map(task => ({ type: 'item_close', args: { id: task.id } }));
+      case 'delete':
+        return withoutSelectedDescendants(tasks).map(task => ({ type: 'item_delete', args: { id: task.id } }));
+      case 'add_labels':
+        return tasks
+          .filter(task => action.labels.some(label => !task.labels.includes(label)))
+          .map(task => ({ type: 'item_update', args: { id: task.id, labels: [...new Set([...task.labels, ...action.labels])] } }));
+      case 'remove_labels':
+        return tasks
+          .filter(task => action.labels.some(label => task.labels.includes(label)))
+          .map(task => ({ type: 'item_update', args: { id: task.id, labels: task.labels.filter(label => !action.labels.includes(label)) } }));
+      case 'set_priority':
+        return tasks
+          .filter(task => task.priority !== action.priority)
+          .map(task => ({ type: 'item_update', args: { id: task.id, priority: action.priority } }));
+      case 'reschedule': {
+        const date = resolveDatePhrase(action.to, (await this.todoistService.getUser()).timezone);
+        if (!date) {
+          throw new ValidationError(`Could not understand "${action.to}"; use a date like 2026-03-30, "today", "tomorrow" or "friday"`);
+        }
+        return tasks.map(task => ({
+          type: 'item_update',
+          args: { id: task.id, due: task.due ? rescheduleDue(task.due, date).reschedule : { date } }
+        }));
+      }
+      case 'move': {
+        // Bulk moves never create projects or sections
+        const destination = toTaskDestination(
+          await this.nameResolver.resolveTaskReferences({ ...action.to, create_missing: false })
+        );
+        return withoutSelectedDescendants(tasks).map(task => ({ type: 'item_move', args: { id: task.id, ...destination } }));
+      }
+    }
+  }
+}
@@ -0,0 +1,282 @@
+import { z } from 'zod';
+import { Task } from './todoist.service';
+import { RecurrenceRule, addDays, dueWallTime, parseRecurrence, zonedWallTime } from './due-dates.service';
+
+const ICS_DAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+// Timed tasks without a Todoist duration show as this long
+const DEFAULT_EVENT_MINUTES = 30;
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// Years a timezone's DST rule is derived from and checked against, starting at the feed's year
+const TIMEZONE_RULE_YEARS = 3;
+
+const DurationSchema = z.object({
+  amount: z.number().positive(),
+  unit: z.enum(['minute', 'day'])
+});
+
+/**
+ * Escape a TEXT value (RFC 5545 §3.3.11)
+ */
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold a content line at 75 octets, never splitting a UTF-8 character (RFC 5545 §3.1)
+ */
+function foldLine(line: string): string {
+  const chunks: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+
+  for (const char of line) {
+    const bytes = Buffer.byteLength(char);
+    // Continuation lines start with a space, which counts towards their 75
+    const limit = chunks.length === 0 ? 75 : 74;
+    if (currentBytes + bytes > limit) {
+      chunks.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  chunks.push(current);
+  return chunks.join('\r\n ');
+}
+
+const compact = (value: string): string => value.replace(/[-:]/g, '');
+
+function icsDateTimeUtc(date: Date): string {
+  return compact(date.toISOString().replace(/\.\d{3}Z$/, 'Z'));
+}
+
+interface OffsetChange {
+  at: number;                                   // UTC milliseconds
+  from: number;                                 // UTC offset in minutes before the change
+  to: number;                                   // and after it
+}
+
+// UTC offset of a timezone at an instant, in minutes
+function offsetMinutes(instant: number, timeZone: string): number {
+  const wall = zonedWallTime(new Date(instant), timeZone);
+  return Math.round((Date.parse(`${wall.date}T${wall.time}Z`) - instant) / MINUTE_MS);
+}
+
+/**
+ * Offset changes (DST starts and ends) in a calendar year, to the minute
+ */
+function offsetChanges(timeZone: string, year: number): OffsetChange[] {
+  const changes: OffsetChange[] = [];
+  const end = Date.UTC(year + 1, 0, 1);
+  let previous = offsetMinutes(Date.UTC(year, 0, 1), timeZone);
+
+  for (let day = Date.UTC(year, 0, 1) + DAY_MS; day <= end; day += DAY_MS) {
+    const offset = offsetMinutes(day, timeZone);
+    if (offset === previous) continue;
+
+    // The change happened in the last day; narrow it down to the minute
+    let low = day - DAY_MS;
+    let high = day;
+    while (high - low > MINUTE_MS) {
+      const middle = low + Math.floor((high - low) / 2 / MINUTE_MS) * MINUTE_MS;
+      if (offsetMinutes(middle, timeZone) === previous) low = middle;
+      else high = middle;
+    }
+    changes.push({ at: high, from: previous, to: offset });
+    previous = offset;
+  }
+  return changes;
+}
+
+const icsLocal = (instant: number): string => icsDateTimeUtc(new Date(instant)).slice(0, -1);
+
+function icsOffset(minutes: number): string {
+  const sign = minutes < 0 ? '-' : '+';
+  const absolute = Math.abs(minutes);
+  return `${sign}${String(Math.floor(absolute / 60)).padStart(2, '0')}${String(absolute % 60).padStart(2, '0')}`;
+}
+
+interface YearlyChange {
+  month: number;                                // 0-11
+  weekday: number;                              // 0 = Sunday
+  nth: number;                                  // 1-5, or -1 for the last one in the month
+  minutes: number;                              // Local time of day, in minutes
+}
+
+const daysInMonth = (year: number, month: number): number => new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+// Day of the month of the nth (or last, for -1) weekday
+function nthWeekday(year: number, month: number, weekday: number, nth: number): number {
+  if (nth > 0) {
+    return 1 + (weekday - new Date(Date.UTC(year, month, 1)).getUTCDay() + 7) % 7 + (nth - 1) * 7;
+  }
+  const lastDay = daysInMonth(year, month);
+  return lastDay - (new Date(Date.UTC(year, month, lastDay)).getUTCDay() - weekday + 7) % 7;
+}
+
+/**
+ * The nth-weekday rule a change follows in every sampled year, e.g. the second Sunday of March at 02:00,
+ * or undefined when no such rule fits them all
+ */
+function yearlyChange(changes: OffsetChange[]): YearlyChange | undefined {
+  const locals = changes.map(change => new Date(change.at + change.from * MINUTE_MS));
+  const [first] = locals;
+  const month = first.getUTCMonth();
+  const weekday = first.getUTCDay();
+  const minutes = first.getUTCHours() * 60 + first.getUTCMinutes();
+
+  return [Math.ceil(first.getUTCDate() / 7), -1]
+    .map(nth => ({ month, weekday, nth, minutes }))
+    .find(rule => locals.every(local =>
+      local.getUTCMonth() === month &&
+      local.getUTCHours() * 60 + local.getUTCMinutes() === minutes &&
+      local.getUTCDate() === nthWeekday(local.getUTCFullYear(), month, weekday, rule.nth)
+    ));
+}
+
+const timeZoneComponents = new Map<string, string[]>();
+
+/**
+ * VTIMEZONE for an IANA zone (RFC 5545 §3.6.5), built from the zone's offsets around `year`
+ * Each DST start and end becomes an observance with a yearly rule, or with explicit dates
+ * when the zone follows no nth-weekday rule; zones without DST get one fixed observance
+ */
+function timeZoneComponent(timeZone: string, year: number): string[] {
+  // Deriving the rules takes a few hundred offset lookups, so each zone is built once per year
+  const key = `${timeZone}/${year}`;
+  let component = timeZoneComponents.get(key);
+  if (!component) {
+    component = buildTimeZoneComponent(timeZone, year);
+    timeZoneComponents.set(key, component);
+  }
+  return component;
+}
+
+function buildTimeZoneComponent(timeZone: string, year: number): string[] {
+  const changes = Array.from({ length: TIMEZONE_RULE_YEARS }, (_, index) => offsetChanges(timeZone, year + index)).flat();
+
+  if (changes.length === 0) {
+    const offset = icsOffset(offsetMinutes(Date.UTC(year, 0, 1), timeZone));
+    return [
+      'BEGIN:VTIMEZONE', `TZID:${timeZone}`,
+      'BEGIN:STANDARD', 'DTSTART:19700101T000000', `TZOFFSETFROM:${offset}`, `TZOFFSETTO:${offset}`, 'END:STANDARD',
+      'END:VTIMEZONE'
+    ];
+  }
+
+  // Group by direction: offsets going up start daylight time, offsets going down end it
+  const groups = new Map<string, OffsetChange[]>();
+  for (const change of changes) {
+    const key = `${change.from}>${change.to}`;
+    groups.set(key, [...(groups.get(key) ?? []), change]);
+  }
+
+  const observances = [...groups.values()].flatMap(group => {
+    const [first] = group;
+    const kind = first.to > first.from ? 'DAYLIGHT' : 'STANDARD';
+    const rule = group.length === TIMEZONE_RULE_YEARS ? yearlyChange(group) : undefined;
+    // Rules start in 1970 so events from any year fall under an observance
+    const timing = rule
+      ? [
+        `DTSTART:${icsLocal(Date.UTC(1970, rule.month, nthWeekday(1970, rule.month, rule.weekday, rule.nth)) + rule.minutes * MINUTE_MS)}`,
+        `RRULE:FREQ=YEARLY;BYMONTH=${rule.month + 1};BYDAY=${rule.nth}${ICS_DAYS[rule.weekday]}`
+      ]
+      : group.map((change, index) => `${index === 0 ? 'DTSTART' : 'RDATE'}:${icsLocal(change.at + change.from * MINUTE_MS)}`);
+    return [
+      `BEGIN:${kind}`,
+      ...timing,
+      `TZOFFSETFROM:${icsOffset(first.from)}`,
+      `TZOFFSETTO:${icsOffset(first.to)}`,
+      `END:${kind}`
+    ];
+  });
+
+  return ['BEGIN:VTIMEZONE', `TZID:${timeZone}`, ...observances, 'END:VTIMEZONE'];
+}
+
+/**
+ * RRULE for a parsed recurrence
+ */
+export function toRRule(rule: RecurrenceRule): string {
+  const parts = [
+    `FREQ=${{ day: 'DAILY', week: 'WEEKLY', month: 'MONTHLY', year: 'YEARLY' }[rule.unit]}`,
+    ...(rule.interval > 1 ? [`INTERVAL=${rule.interval}`] : [])
+  ];
+  if (rule.weekdays) parts.push(`BYDAY=${rule.weekdays.map(day => ICS_DAYS[day]).join(',')}`);
+  if (rule.month_days) parts.push(`BYMONTHDAY=${rule.month_days.join(',')}`);
+  if (rule.nth_weekday) parts.push(`BYDAY=${rule.nth_weekday.week}${ICS_DAYS[rule.nth_weekday.weekday]}`);
+  return parts.join(';');
+}
+
+function taskEvent(task: Task, stamp: string): string[] {
+  const due = task.due!;
+  const duration = DurationSchema.safeParse(task.duration);
+
+  let timing: string[];
+  if (due.datetime) {
+    // Zoned times are written as local time with a TZID so weekly rules land on the right local weekday;
+    // floating times have no zone, and calendars show them at the same clock time everywhere
+    const wall = dueWallTime(due);
+    const start = new Date(`${wall.date}T${wall.time}Z`);
+    const minutes = duration.success
+      ? duration.data.amount * (duration.data.unit === 'day' ? 24 * 60 : 1)
+      : DEFAULT_EVENT_MINUTES;
+    const end = new Date(start.getTime() + minutes * 60 * 1000);
+    const zone = due.timezone ? `;TZID=${due.timezone}` : '';
+    const local = (date: Date): string => icsDateTimeUtc(date).slice(0, -1);
+    timing = [`DTSTART${zone}:${local(start)}`, `DTEND${zone}:${local(end)}`];
+  } else {
+    const days = duration.success && duration.data.unit === 'day' ? duration.data.amount : 1;
+    timing = [`DTSTART;VALUE=DATE:${compact(due.date)}`, `DTEND;VALUE=DATE:${compact(addDays(due.date, days))}`];
+  }
+
+  const rule = due.is_recurring ? parseRecurrence(due.string) : null;
+  const description = [task.description, task.url].filter(Boolean).join('\n\n');
+
+  return [
+    'BEGIN:VEVENT',
+    `UID:task-${task.id}@todoist`,
+    `DTSTAMP:${stamp}`,
+    ...timing,
+    ...(rule ? [`RRULE:${toRRule(rule)}`] : []),
+    `SUMMARY:${escapeText(task.content)}`,
+    ...(description ? [`DESCRIPTION:${escapeText(description)}`] : []),
+    `URL:${task.url}`,
+    ...(task.labels.length > 0 ? [`CATEGORIES:${task.labels.map(escapeText).join(',')}`] : []),
+    'END:VEVENT'
+  ];
+}
+
+/**
+ * iCalendar (RFC 5545) feed with one event per dated task
+ * Recurring tasks carry an RRULE when their due string can be expanded locally, and each timezone
+ * a timed task uses gets a VTIMEZONE
+ */
+export function buildCalendar(tasks: Task[], name = 'Todoist', now: Date = new Date()): string {
+  const stamp = icsDateTimeUtc(now);
+  const dated = tasks.filter(task => task.due);
+  // Every TZID an event references needs its VTIMEZONE, or clients guess the offset
+  const timeZones = new Set(dated.flatMap(task => (task.due!.datetime && task.due!.timezone ? [task.due!.timezone] : [])));
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//claude-todoist-api//Tasks//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    ...[...timeZones].flatMap(timeZone => timeZoneComponent(timeZone, now.getUTCFullYear())),
+    ...dated.flatMap(task => taskEvent(task, stamp)),
+    'END:VCALENDAR'
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
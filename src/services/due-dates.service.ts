@@ -0,0 +1,422 @@
+import { TodoistService, Task, TaskReschedule, SYNC_COMMAND_LIMIT } from './todoist.service';
+import { NotFoundError, ValidationError } from '../middleware/error-handler';
+import { appLogger } from '../utils/logger';
+
+export type TaskDue = NonNullable<Task['due']>;
+export type ShiftUnit = 'days' | 'weeks' | 'months';
+
+/**
+ * A due date as the user sees it: calendar date and optional time in the task's own timezone
+ */
+export interface WallTime {
+  date: string;                                 // YYYY-MM-DD
+  time?: string;                                // HH:MM:SS
+}
+
+export interface Occurrence {
+  date: string;                                 // YYYY-MM-DD in the task's timezone
+  datetime?: string;                            // UTC ("Z") when the task has a timezone, floating otherwise
+}
+
+export interface RecurrenceRule {
+  unit: 'day' | 'week' | 'month' | 'year';
+  interval: number;
+  weekdays?: number[];                          // 0 = Sunday; only for unit 'week'
+  month_days?: number[];                        // -1 = last day of the month; only for unit 'month'
+  nth_weekday?: { week: number; weekday: number }; // "2nd monday" (week -1 = last); only for unit 'month'
+}
+
+export interface OccurrencesResult {
+  task_id: string;
+  due_string: string;
+  is_recurring: boolean;
+  rule: RecurrenceRule | null;
+  occurrences: Occurrence[];
+}
+
+export interface RescheduledTask {
+  id: string;
+  content: string;
+  from: Occurrence;
+  to: Occurrence;
+}
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Occurrence expansion stops after this many days without finding the next one
+const MAX_SCAN_DAYS = 366 * 5;
+
+function toIsoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function parseIsoDate(date: string): Date {
+  return new Date(`${date}T00:00:00Z`);
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+export function addDays(date: string, days: number): string {
+  return toIsoDate(new Date(parseIsoDate(date).getTime() + days * DAY_MS));
+}
+
+/**
+ * Add whole months, clamping to the end of shorter months (Jan 31 + 1 month = Feb 28)
+ */
+export function addMonths(date: string, months: number, day?: number): string {
+  const start = parseIsoDate(date);
+  const target = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + months, 1));
+  const lastDay = daysInMonth(target.getUTCFullYear(), target.getUTCMonth());
+  const wanted = day === undefined ? start.getUTCDate() : day === -1 ? lastDay : day;
+  target.setUTCDate(Math.min(wanted, lastDay));
+  return toIsoDate(target);
+}
+
+export function shiftDate(date: string, amount: number, unit: ShiftUnit): string {
+  if (unit === 'months') return addMonths(date, amount);
+  return addDays(date, unit === 'weeks' ? amount * 7 : amount);
+}
+
+/**
+ * Resolve a simple date phrase ("today", "friday", "in 3 days", "in 2 months", "march 30", "2026-03-30") to YYYY-MM-DD
+ * "Today" is the calendar date in the given timezone (the user's Todoist timezone), else the server's
+ */
+export function resolveDatePhrase(
+  phrase: string,
+  timeZone: string = Intl.DateTimeFormat().resolvedOptions().timeZone,
+  now: Date = new Date()
+): string | null {
+  const value = phrase.trim().toLowerCase();
+  const today = zonedWallTime(now, timeZone).date;
+  const weekdayOf = (date: string): number => parseIsoDate(date).getUTCDay();
+
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    // Date rolls 2026-02-31 over to March, so only dates that round-trip exist
+    const parsed = parseIsoDate(value);
+    return !Number.isNaN(parsed.getTime()) && toIsoDate(parsed) === value ? value : null;
+  }
+  if (value === 'today' || value === 'tod') return today;
+  if (value === 'tomorrow' || value === 'tmrw') return addDays(today, 1);
+  if (value === 'next week') return addDays(today, ((8 - weekdayOf(today)) % 7) || 7);
+
+  const relative = /^in (\d+) (day|week|month|year)s?$/.exec(value);
+  if (relative) {
+    const amount = Number(relative[1]);
+    switch (relative[2]) {
+      case 'day': return addDays(today, amount);
+      case 'week': return addDays(today, amount * 7);
+      case 'month': return addMonths(today, amount);
+      default: return addMonths(today, amount * 12);
+    }
+  }
+
+  // At least three letters, so "s" or "t" never silently picks one of two weekdays
+  const weekday = /^(?:next |this |on )?([a-z]{3,})$/.exec(value);
+  const weekdayIndex = weekday ? WEEKDAYS.findIndex(day => day.startsWith(weekday[1].slice(0, 3))) : -1;
+  if (weekday && weekdayIndex >= 0 && WEEKDAYS[weekdayIndex].startsWith(weekday[1])) {
+    return addDays(today, ((weekdayIndex - weekdayOf(today) + 7) % 7) || 7);
+  }
+
+  // "march 30[, 2027]" or "30 march [2027]"
+  const monthFirst = /^([a-z]+) (\d{1,2})(?:st|nd|rd|th)?(?:,? (\d{4}))?$/.exec(value);
+  const dayFirst = /^(\d{1,2})(?:st|nd|rd|th)? ([a-z]+)(?: (\d{4}))?$/.exec(value);
+  const monthDay = monthFirst
+    ? { month: monthFirst[1], day: monthFirst[2], year: monthFirst[3] }
+    : dayFirst ? { month: dayFirst[2], day: dayFirst[1], year: dayFirst[3] } : null;
+  if (monthDay) {
+    const month = MONTHS.indexOf(monthDay.month.slice(0, 3));
+    if (month < 0) return null;
+
+    const day = Number(monthDay.day);
+    const year = Number(monthDay.year ?? today.slice(0, 4));
+    if (day < 1 || day > daysInMonth(year, month)) return null;
+
+    const date = toIsoDate(new Date(Date.UTC(year, month, day)));
+    // Without a year, a date already past means next year's
+    if (!monthDay.year && date < today) return addMonths(date, 12);
+    return date;
+  }
+
+  return null;
+}
+
+/**
+ * Calendar date and time of an instant in a timezone
+ */
+export function zonedWallTime(instant: Date, timeZone: string): WallTime & { time: string } {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-CA', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric', month: '2-digit', day: '2-digit',
+      hour: '2-digit', minute: '2-digit', second: '2-digit'
+    }).formatToParts(instant).map(part => [part.type, part.value])
+  );
+  return { date: `${parts.year}-${parts.month}-${parts.day}`, time: `${parts.hour}:${parts.minute}:${parts.second}` };
+}
+
+/**
+ * UTC instant of a wall-clock time in a timezone, correct across DST changes
+ */
+function zonedToUtc(wall: WallTime & { time: string }, timeZone: string): string {
+  const asUtc = Date.parse(`${wall.date}T${wall.time}Z`);
+  let instant = asUtc;
+  // Two passes settle the offset even when the guess lands on the other side of a DST change
+  for (let pass = 0; pass < 2; pass++) {
+    const seen = zonedWallTime(new Date(instant), timeZone);
+    instant -= Date.parse(`${seen.date}T${seen.time}Z`) - asUtc;
+  }
+  return new Date(instant).toISOString().replace(/\.\d{3}Z$/, 'Z');
+}
+
+/**
+ * A task's due date as wall time, in its own timezone unless another is given
+ * Floating times read the same in every timezone
+ */
+export function dueWallTime(due: TaskDue, timeZone: string | undefined = due.timezone): WallTime {
+  if (!due.datetime) return { date: due.date };
+
+  if (timeZone && due.datetime.endsWith('Z')) {
+    return zonedWallTime(new Date(due.datetime), timeZone);
+  }
+  return { date: due.datetime.slice(0, 10), time: due.datetime.slice(11, 19) };
+}
+
+/**
+ * Turn wall time back into the Todoist representation for this due's timezone
+ */
+export function toOccurrence(wall: WallTime, timezone?: string): Occurrence {
+  if (!wall.time) return { date: wall.date };
+  return {
+    date: wall.date,
+    datetime: timezone ? zonedToUtc({ date: wall.date, time: wall.time }, timezone) : `${wall.date}T${wall.time}`
+  };
+}
+
+/**
+ * Parse the recurrence part of a due string ("every other monday at 9am", "every 3 months", "every 15th")
+ * Returns null for patterns that can't be expanded locally
+ */
+export function parseRecurrence(dueString: string): RecurrenceRule | null {
+  let value = dueString.trim().toLowerCase()
+    .replace(/^(every!?|ev!?)\s+/, 'every ')
+    .replace(/\s+(?:starting|from|until|for)\s+.*$/, '')
+    .replace(/\s+(?:at\s+\d{1,2}(?::\d{2})?\s*(?:am|pm)?|\d{1,2}:\d{2}\s*(?:am|pm)?|\d{1,2}\s*(?:am|pm))$/, '')
+    .trim();
+
+  const synonyms: Record<string, string> = { daily: 'every day', weekly: 'every week', monthly: 'every month', yearly: 'every year', annually: 'every year' };
+  value = synonyms[value] ?? value;
+
+  const match = /^every (other |\d+ )?(.+)$/.exec(value);
+  if (!match) return null;
+
+  const interval = match[1] === 'other ' ? 2 : match[1] ? Number(match[1]) : 1;
+  const rest = match[2].replace(/s$/, '');
+
+  if (rest === 'day') return { unit: 'day', interval };
+  if (rest === 'week') return { unit: 'week', interval };
+  if (rest === 'month') return { unit: 'month', interval };
+  if (rest === 'year') return { unit: 'year', interval };
+  if (rest === 'weekday' || rest === 'workday') return { unit: 'week', interval, weekdays: [1, 2, 3, 4, 5] };
+
+  // "monday, wednesday and friday"
+  const tokens = match[2].split(/\s*(?:,|\band\b)\s*/).filter(Boolean);
+  const weekdays = tokens.map(token => WEEKDAYS.findIndex(day => token.length >= 2 && day.startsWith(token.replace(/s$/, ''))));
+  if (weekdays.length > 0 && weekdays.every(day => day >= 0)) {
+    return { unit: 'week', interval, weekdays: [...new Set(weekdays)].sort() };
+  }
+
+  // "2nd monday", "last friday"
+  const nth = /^(1st|2nd|3rd|4th|5th|first|second|third|fourth|fifth|last) ([a-z]+)$/.exec(match[2]);
+  const nthWeekday = nth ? WEEKDAYS.findIndex(day => day.startsWith(nth[2])) : -1;
+  if (nth && nthWeekday >= 0 && nth[2].length >= 2) {
+    const ordinals = ['first', 'second', 'third', 'fourth', 'fifth'];
+    const week = nth[1] === 'last' ? -1 : /^\d/.test(nth[1]) ? Number(nth[1][0]) : ordinals.indexOf(nth[1]) + 1;
+    return { unit: 'month', interval, nth_weekday: { week, weekday: nthWeekday } };
+  }
+
+  // "1st", "1st and 15th", "last day"
+  const monthDays = tokens.map(token => token === 'last day' ? -1 : /^(\d{1,2})(?:st|nd|rd|th)?$/.exec(token)?.[1]);
+  if (monthDays.every(day => day !== undefined && (day === -1 || (Number(day) >= 1 && Number(day) <= 31)))) {
+    return { unit: 'month', interval, month_days: monthDays.map(Number).sort((a, b) => a - b) };
+  }
+
+  // "march 30" / "30 march": yearly, anchored on the current due date
+  if (tokens.length === 1 && interval === 1 && /^(?:[a-z]+ \d{1,2}|\d{1,2} [a-z]+)(?:st|nd|rd|th)?$/.test(tokens[0])) {
+    const monthName = tokens[0].match(/[a-z]+/)![0];
+    if (MONTHS.includes(monthName.slice(0, 3))) return { unit: 'year', interval: 1 };
+  }
+
+  return null;
+}
+
+/**
+ * The occurrence after `date` for a rule anchored at `anchor` (the task's current due date)
+ */
+export function nextDate(rule: RecurrenceRule, anchor: string, date: string): string {
+  switch (rule.unit) {
+    case 'day':
+      return addDays(date, rule.interval);
+    case 'year':
+      return addMonths(date, 12 * rule.interval, parseIsoDate(anchor).getUTCDate());
+    case 'week': {
+      if (!rule.weekdays) return addDays(date, 7 * rule.interval);
+
+      // Only weeks a multiple of interval away from the anchor's week count
+      const anchorWeekStart = parseIsoDate(anchor).getTime() - parseIsoDate(anchor).getUTCDay() * DAY_MS;
+      for (let offset = 1; offset <= MAX_SCAN_DAYS; offset++) {
+        const candidate = addDays(date, offset);
+        const weeksFromAnchor = Math.floor((parseIsoDate(candidate).getTime() - anchorWeekStart) / (7 * DAY_MS));
+        if (weeksFromAnchor % rule.interval === 0 && rule.weekdays.includes(parseIsoDate(candidate).getUTCDay())) {
+          return candidate;
+        }
+      }
+      break;
+    }
+    case 'month': {
+      if (rule.nth_weekday) {
+        const { week, weekday } = rule.nth_weekday;
+        // Step month by month; a "5th monday" is skipped in months that don't have one
+        for (let months = rule.interval; months <= 12 * 5; months += rule.interval) {
+          const monthStart = parseIsoDate(addMonths(`${date.slice(0, 8)}01`, months));
+          const lastDay = daysInMonth(monthStart.getUTCFullYear(), monthStart.getUTCMonth());
+          const firstMatch = 1 + (weekday - monthStart.getUTCDay() + 7) % 7;
+          const day = week === -1 ? firstMatch + 7 * Math.floor((lastDay - firstMatch) / 7) : firstMatch + 7 * (week - 1);
+          if (day <= lastDay) return addDays(toIsoDate(monthStart), day - 1);
+        }
+        break;
+      }
+      if (!rule.month_days) return addMonths(date, rule.interval, parseIsoDate(anchor).getUTCDate());
+
+      for (let offset = 1; offset <= MAX_SCAN_DAYS; offset++) {
+        const candidate = parseIsoDate(addDays(date, offset));
+        const monthsFromAnchor = (candidate.getUTCFullYear() - parseIsoDate(anchor).getUTCFullYear()) * 12
+          + candidate.getUTCMonth() - parseIsoDate(anchor).getUTCMonth();
+        const lastDay = daysInMonth(candidate.getUTCFullYear(), candidate.getUTCMonth());
+        const day = candidate.getUTCDate();
+        // A 31st also fires on the last day of shorter months
+        const matches = rule.month_days.some(wanted => wanted === -1 ? day === lastDay : day === Math.min(wanted, lastDay));
+        if (monthsFromAnchor % rule.interval === 0 && matches) return toIsoDate(candidate);
+      }
+      break;
+    }
+  }
+  throw new ValidationError('Could not find the next occurrence', { rule });
+}
+
+/**
+ * The next `count` occurrences of a due date, starting with the current one
+ */
+export function expandOccurrences(due: TaskDue, count: number): { rule: RecurrenceRule | null; occurrences: Occurrence[] } {
+  const start = dueWallTime(due);
+  if (!due.is_recurring) {
+    return { rule: null, occurrences: [toOccurrence(start, due.timezone)] };
+  }
+
+  const rule = parseRecurrence(due.string);
+  if (!rule) {
+    throw new ValidationError(`Recurrence "${due.string}" cannot be expanded`, { due_string: due.string });
+  }
+
+  const occurrences: Occurrence[] = [toOccurrence(start, due.timezone)];
+  let date = start.date;
+  while (occurrences.length < count) {
+    date = nextDate(rule, start.date, date);
+    occurrences.push(toOccurrence({ date, time: start.time }, due.timezone));
+  }
+  return { rule, occurrences };
+}
+
+/**
+ * Move a due to another calendar date, keeping its time of day, timezone and recurrence
+ */
+export function rescheduleDue(due: TaskDue, date: string): { reschedule: TaskReschedule['due']; to: Occurrence } {
+  const to = toOccurrence({ date, time: dueWallTime(due).time }, due.timezone);
+  return {
+    to,
+    reschedule: {
+      date: to.datetime ?? to.date,
+      // Sending the original string with a new date is how Todoist keeps a recurrence
+      ...(due.is_recurring ? { string: due.string, lang: due.lang, is_recurring: true } : {}),
+      ...(due.timezone ? { timezone: due.timezone } : {})
+    }
+  };
+}
+
+/**
+ * Occurrence expansion, postponing and overdue triage for task due dates
+ */
+export class DueDateService {
+  constructor(private readonly todoistService: TodoistService) {}
+
+  async getOccurrences(taskId: string, count: number): Promise<OccurrencesResult> {
+    const task = await this.todoistService.getTask(taskId);
+    if (!task.due) throw new NotFoundError(`Task ${taskId} has no due date`);
+
+    return {
+      task_id: task.id,
+      due_string: task.due.string,
+      is_recurring: task.due.is_recurring,
+      ...expandOccurrences(task.due, count)
+    };
+  }
+
+  /**
+   * Shift a task's due date by a relative amount; a recurring task keeps its recurrence
+   */
+  async postpone(taskId: string, amount: number, unit: ShiftUnit): Promise<{ task: Task; from: Occurrence; to: Occurrence }> {
+    const task = await this.todoistService.getTask(taskId);
+    if (!task.due) throw new ValidationError(`Task ${taskId} has no due date to postpone`);
+
+    const start = dueWallTime(task.due);
+    const { reschedule, to } = rescheduleDue(task.due, shiftDate(start.date, amount, unit));
+    await this.todoistService.rescheduleTasks([{ id: task.id, due: reschedule }]);
+
+    appLogger.info('Task postponed', { id: task.id, amount, unit, to });
+    return {
+      task: await this.todoistService.getTask(taskId),
+      from: toOccurrence(start, task.due.timezone),
+      to
+    };
+  }
+
+  /**
+   * Move every overdue task to one date, optionally only within a project
+   * With dryRun the plan is returned without changing anything
+   */
+  async rescheduleOverdue(
+    to: string,
+    options: { projectId?: string; dryRun?: boolean } = {}
+  ): Promise<RescheduledTask[]> {
+    const date = resolveDatePhrase(to, (await this.todoistService.getUser()).timezone);
+    if (!date) {
+      throw new ValidationError(`Could not understand "${to}"; use a date like 2026-03-30, "today", "tomorrow" or "friday"`);
+    }
+
+    // Todoist evaluates "overdue" in the user's own timezone
+    const overdue = (await this.todoistService.getTasks({ filter: 'overdue' }))
+      .filter(task => task.due && (!options.projectId || task.project_id === options.projectId));
+
+    const plan = overdue.map(task => {
+      const due = task.due!;
+      const { reschedule, to: target } = rescheduleDue(due, date);
+      return {
+        change: { id: task.id, due: reschedule },
+        result: { id: task.id, content: task.content, from: toOccurrence(dueWallTime(due), due.timezone), to: target }
+      };
+    });
+
+    if (!options.dryRun && plan.length > 0) {
+      for (let index = 0; index < plan.length; index += SYNC_COMMAND_LIMIT) {
+        await this.todoistService.rescheduleTasks(plan.slice(index, index + SYNC_COMMAND_LIMIT).map(({ change }) => change));
+      }
+      appLogger.info('Overdue tasks rescheduled', { count: plan.length, date });
+    }
+
+    return plan.map(({ result }) => result);
+  }
+}
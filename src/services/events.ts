@@ -0,0 +1,182 @@
+import { EventEmitter } from 'events';
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import { z } from 'zod';
+import type { Task, Project, Comment, Attachment } from './todoist.service';
+import type { CacheResource } from './response-cache';
+import { SyncItemSchema, SyncProjectSchema, syncItemToTask, syncProjectToProject } from './sync-store';
+
+// Todoist webhook delivery (Sync API v9 object formats in event_data)
+const WebhookPayloadSchema = z.object({
+  event_name: z.string(),
+  user_id: z.union([z.string(), z.number()]).transform(String),
+  event_data: z.record(z.unknown()),
+  version: z.string().optional(),
+  triggered_at: z.string().optional(),
+});
+
+const WebhookNoteSchema = z.object({
+  id: z.string(),
+  item_id: z.string().nullable().optional(),
+  project_id: z.string().nullable().optional(),
+  content: z.string(),
+  posted_at: z.string(),
+  file_attachment: z.object({ resource_type: z.string() }).passthrough().nullable().optional(),
+});
+
+const TASK_EVENTS = {
+  'item:added': 'task.added',
+  'item:updated': 'task.updated',
+  'item:deleted': 'task.deleted',
+  'item:completed': 'task.completed',
+  'item:uncompleted': 'task.uncompleted',
+} as const;
+
+const PROJECT_EVENTS = {
+  'project:added': 'project.added',
+  'project:updated': 'project.updated',
+  'project:deleted': 'project.deleted',
+  'project:archived': 'project.archived',
+  'project:unarchived': 'project.unarchived',
+} as const;
+
+const COMMENT_EVENTS = {
+  'note:added': 'comment.added',
+  'note:updated': 'comment.updated',
+  'note:deleted': 'comment.deleted',
+} as const;
+
+export type TaskEventType = typeof TASK_EVENTS[keyof typeof TASK_EVENTS];
+export type ProjectEventType = typeof PROJECT_EVENTS[keyof typeof PROJECT_EVENTS];
+export type CommentEventType = typeof COMMENT_EVENTS[keyof typeof COMMENT_EVENTS];
+export type TodoistEventType = TaskEventType | ProjectEventType | CommentEventType;
+
+export const EVENT_TYPES = [
+  ...Object.values(TASK_EVENTS),
+  ...Object.values(PROJECT_EVENTS),
+  ...Object.values(COMMENT_EVENTS),
+] as [TodoistEventType, ...TodoistEventType[]];
+
+interface TodoistEventBase {
+  id: string;
+  todoist_event: string;                        // Original Todoist event name, e.g. item:completed
+  user_id: string;                              // Todoist user whose data changed
+  triggered_at: string;
+}
+
+export interface TaskEvent extends TodoistEventBase {
+  type: TaskEventType;
+  task: Task;
+}
+
+export interface ProjectEvent extends TodoistEventBase {
+  type: ProjectEventType;
+  project: Project;
+}
+
+export interface CommentEvent extends TodoistEventBase {
+  type: CommentEventType;
+  comment: Comment;
+}
+
+export type TodoistEvent = TaskEvent | ProjectEvent | CommentEvent;
+
+/**
+ * Check the X-Todoist-Hmac-SHA256 header: base64 HMAC-SHA256 of the raw body, keyed with the app's client secret
+ */
+export function verifyWebhookSignature(rawBody: Buffer, signature: string | undefined, secret: string): boolean {
+  if (!signature) return false;
+
+  const expected = createHmac('sha256', secret).update(rawBody).digest();
+  const presented = Buffer.from(signature, 'base64');
+  return presented.length === expected.length && timingSafeEqual(presented, expected);
+}
+
+/**
+ * Turn a Todoist webhook delivery into a typed event
+ * Returns undefined for event types we do not publish (sections, labels, reminders, ...)
+ */
+export function normalizeWebhookEvent(body: unknown): TodoistEvent | undefined {
+  const payload = WebhookPayloadSchema.parse(body);
+  const base: TodoistEventBase = {
+    id: randomUUID(),
+    todoist_event: payload.event_name,
+    user_id: payload.user_id,
+    triggered_at: payload.triggered_at ?? new Date().toISOString(),
+  };
+
+  if (payload.event_name in TASK_EVENTS) {
+    const item = SyncItemSchema.parse(payload.event_data);
+    return { ...base, type: TASK_EVENTS[payload.event_name as keyof typeof TASK_EVENTS], task: syncItemToTask(item) };
+  }
+
+  if (payload.event_name in PROJECT_EVENTS) {
+    const project = SyncProjectSchema.parse(payload.event_data);
+    return {
+      ...base,
+      type: PROJECT_EVENTS[payload.event_name as keyof typeof PROJECT_EVENTS],
+      project: syncProjectToProject(project),
+    };
+  }
+
+  if (payload.event_name in COMMENT_EVENTS) {
+    const note = WebhookNoteSchema.parse(payload.event_data);
+    return {
+      ...base,
+      type: COMMENT_EVENTS[payload.event_name as keyof typeof COMMENT_EVENTS],
+      comment: {
+        id: note.id,
+        task_id: note.item_id ?? null,
+        project_id: note.item_id ? null : note.project_id ?? null,
+        posted_at: note.posted_at,
+        content: note.content,
+        attachment: (note.file_attachment ?? null) as Attachment | null,
+      },
+    };
+  }
+
+  return undefined;
+}
+
+/**
+ * Cached resources an event tells us are out of date
+ */
+export function resourcesChangedBy(event: TodoistEvent): CacheResource[] {
+  if ('task' in event) return ['tasks'];
+  if ('project' in event) {
+    return event.type === 'project.updated' || event.type === 'project.added'
+      ? ['projects']
+      : ['projects', 'sections', 'tasks'];
+  }
+  // Comment counts live on tasks and projects
+  return ['tasks', 'projects'];
+}
+
+/**
+ * In-process fan-out of Todoist events to SSE streams and outbound webhooks
+ */
+export class EventHub {
+  private readonly emitter = new EventEmitter();
+
+  constructor() {
+    // Every open SSE stream is a listener
+    this.emitter.setMaxListeners(0);
+  }
+
+  publish(event: TodoistEvent): void {
+    this.emitter.emit('event', event);
+  }
+
+  /**
+   * Returns a function that removes the listener
+   */
+  subscribe(listener: (event: TodoistEvent) => void): () => void {
+    this.emitter.on('event', listener);
+    return () => this.emitter.off('event', listener);
+  }
+
+  get subscriberCount(): number {
+    return this.emitter.listenerCount('event');
+  }
+}
+
+export const eventHub = new EventHub();
@@ -0,0 +1,152 @@
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { config } from '../utils/config';
+import { JsonFileStore } from './json-file-store';
+import type { Task, Project, Section, Comment, Label, SyncCommandInput } from './todoist.service';
+
+export const HISTORY_RESOURCES = ['task', 'project', 'section', 'comment', 'label', 'command'] as const;
+
+export type HistoryResource = typeof HISTORY_RESOURCES[number];
+
+/**
+ * One mutation and the state needed to reverse it
+ * Snapshots (before, subtasks, ...) are taken just before the change was sent to Todoist
+ */
+export type HistoryChange =
+  | { action: 'task.create'; task: Task }
+  | { action: 'task.update'; before: Task; fields: string[] }
+  | { action: 'task.close'; before: Task; subtasks: Task[] }    // Closing a parent also closes its subtasks
+  | { action: 'task.reopen'; before: Task }
+  | { action: 'task.delete'; before: Task; subtasks: Task[] }   // Deleting a parent also deletes its subtasks
+  | { action: 'task.move'; before: Task }
+  | { action: 'project.create'; project: Project }
+  | { action: 'project.update'; before: Project; fields: string[] }
+  | { action: 'project.archive' | 'project.unarchive'; project_id: string }
+  | { action: 'project.delete'; before: Project; projects: Project[]; sections: Section[]; tasks: Task[] }
+  | { action: 'section.create'; section: Section }
+  | { action: 'section.update'; before: Section }
+  | { action: 'section.delete'; before: Section; tasks: Task[] }
+  | { action: 'comment.create'; comment: Comment }
+  | { action: 'comment.update'; before: Comment }
+  | { action: 'comment.delete'; before: Comment }
+  | { action: 'label.create'; label: Label }
+  | { action: 'label.update'; before: Label; fields: string[] }
+  | { action: 'label.delete'; before: Label; task_ids: string[] }
+  | { action: 'label.rename_shared'; name: string; new_name: string }
+  | { action: 'label.remove_shared'; name: string; task_ids: string[] }
+  | { action: 'command'; command: SyncCommandInput };           // Sync commands this journal cannot reverse
+
+export type HistoryEntry = HistoryChange & {
+  id: string;
+  resource: HistoryResource;
+  resource_id: string;
+  at: string;
+  undone_at?: string;
+};
+
+export interface HistoryQuery {
+  resource?: HistoryResource;
+  resource_id?: string;
+  limit: number;
+}
+
+/**
+ * Resource and ID a change applies to, so history and audit entries can be filtered by what they touched
+ */
+export function changeTarget(change: HistoryChange): { resource: HistoryResource; resource_id: string } {
+  switch (change.action) {
+    case 'task.create': return { resource: 'task', resource_id: change.task.id };
+    case 'project.create': return { resource: 'project', resource_id: change.project.id };
+    case 'project.archive':
+    case 'project.unarchive': return { resource: 'project', resource_id: change.project_id };
+    case 'section.create': return { resource: 'section', resource_id: change.section.id };
+    case 'comment.create': return { resource: 'comment', resource_id: change.comment.id };
+    case 'label.create': return { resource: 'label', resource_id: change.label.id };
+    case 'label.rename_shared':
+    case 'label.remove_shared': return { resource: 'label', resource_id: change.name };
+    case 'command': return { resource: 'command', resource_id: String(change.command.args.id ?? '') };
+    default: return { resource: change.action.split('.')[0] as HistoryResource, resource_id: change.before.id };
+  }
+}
+
+/**
+ * File-backed journal of mutations, one file per Todoist user in `directory`, newest last
+ * Each user keeps at most maxEntries; older entries are dropped, so a write only ever
+ * rewrites one user's bounded file
+ */
+export class HistoryStore {
+  private readonly files = new Map<string, JsonFileStore<HistoryEntry[]>>();
+  // Entries being undone right now, so concurrent undos cannot both apply one
+  private readonly undoing = new Set<string>();
+
+  constructor(
+    private readonly directory: string,
+    private readonly maxEntries: number
+  ) {}
+
+  get enabled(): boolean {
+    return this.maxEntries > 0;
+  }
+
+  async append(userId: string, change: HistoryChange): Promise<HistoryEntry> {
+    const file = this.file(userId);
+    const entries = await file.load();
+    const entry: HistoryEntry = { ...change, ...changeTarget(change), id: randomUUID(), at: new Date().toISOString() };
+
+    entries.push(entry);
+    entries.splice(0, entries.length - this.maxEntries);
+    await file.save();
+    return entry;
+  }
+
+  /**
+   * Entries newest first
+   */
+  async list(userId: string, query: HistoryQuery): Promise<HistoryEntry[]> {
+    return [...await this.file(userId).load()]
+      .filter(entry => !query.resource || entry.resource === query.resource)
+      .filter(entry => !query.resource_id || entry.resource_id === query.resource_id)
+      .reverse()
+      .slice(0, query.limit);
+  }
+
+  async get(userId: string, id: string): Promise<HistoryEntry | undefined> {
+    return (await this.file(userId).load()).find(entry => entry.id === id);
+  }
+
+  /**
+   * Reserve an entry for undoing; false when another undo already holds it
+   * Call it in the same tick as the undone_at check so nothing can slip in between
+   */
+  claimUndo(id: string): boolean {
+    if (this.undoing.has(id)) return false;
+    this.undoing.add(id);
+    return true;
+  }
+
+  releaseUndo(id: string): void {
+    this.undoing.delete(id);
+  }
+
+  async markUndone(userId: string, id: string): Promise<HistoryEntry | undefined> {
+    const entry = await this.get(userId, id);
+    if (!entry) return undefined;
+
+    entry.undone_at = new Date().toISOString();
+    await this.file(userId).save();
+    return entry;
+  }
+
+  private file(userId: string): JsonFileStore<HistoryEntry[]> {
+    let file = this.files.get(userId);
+    if (!file) {
+      // Todoist user IDs are plain tokens; encoding keeps any other character out of the path
+      file = new JsonFileStore(path.join(this.directory, `${encodeURIComponent(userId)}.json`), 'history', () => []);
+      this.files.set(userId, file);
+    }
+    return file;
+  }
+}
+
+// Shared by every account; entries are kept per Todoist user
+export const historyStore = new HistoryStore(config.HISTORY_PATH, config.HISTORY_MAX_ENTRIES);
@@ -0,0 +1,269 @@
+import { TodoistService, Task, Comment, SYNC_COMMAND_LIMIT, UpdateProjectOptions, UpdateLabelOptions } from './todoist.service';
+import { HistoryStore, HistoryEntry, HistoryQuery, historyStore } from './history-store';
+import { dueWallTime, rescheduleDue } from './due-dates.service';
+import { NotFoundError, ConflictError, ValidationError } from '../middleware/error-handler';
+import { Scope } from '../middleware/auth';
+import { appLogger } from '../utils/logger';
+import { taskToCreateOptions, revertUpdateOptions, taskLocation } from '../utils/task-snapshot';
+
+type ChangeOf<A extends HistoryEntry['action']> = Extract<HistoryEntry, { action: A }>;
+
+export interface UndoResult {
+  entry: HistoryEntry;
+  restored_ids: Record<string, string>;         // Old ID → new ID of everything recreated
+}
+
+const PROJECT_FIELDS = ['name', 'color', 'is_favorite', 'view_style'] as const;
+const LABEL_FIELDS = ['name', 'order', 'color', 'is_favorite'] as const;
+
+/**
+ * Pick the snapshot values of the fields a change touched
+ */
+function pickFields<T extends object, K extends keyof T>(snapshot: T, allowed: readonly K[], fields: string[]): Pick<T, K> {
+  return Object.fromEntries(
+    allowed.filter(field => fields.includes(String(field))).map(field => [field, snapshot[field]])
+  ) as Pick<T, K>;
+}
+
+/**
+ * Scope a client needs to undo an entry: the one the reversing request would need
+ */
+export function undoScope(entry: HistoryEntry): Scope {
+  switch (entry.resource) {
+    case 'project':
+      // Undoing a create deletes, and archiving is admin-only either way
+      return ['project.update', 'project.delete'].includes(entry.action) ? 'projects:write' : 'projects:admin';
+    case 'section':
+      return 'projects:write';
+    case 'label':
+      return 'labels:write';
+    default:
+      return 'tasks:write';
+  }
+}
+
+/**
+ * Lists and reverses the changes TodoistService records for the current account
+ *
+ * Undo restores the snapshot taken before the change, so anything changed since is
+ * overwritten. Recreated tasks, projects, sections, labels and comments get new IDs.
+ */
+export class HistoryService {
+  constructor(
+    private readonly todoistService: TodoistService,
+    private readonly store: HistoryStore = historyStore
+  ) {}
+
+  async list(query: HistoryQuery): Promise<HistoryEntry[]> {
+    return this.store.list(await this.todoistService.getUserId(), query);
+  }
+
+  async get(id: string): Promise<HistoryEntry> {
+    const entry = await this.store.get(await this.todoistService.getUserId(), id);
+    if (!entry) {
+      throw new NotFoundError(`History entry ${id} not found`);
+    }
+    return entry;
+  }
+
+  async undo(id: string): Promise<UndoResult> {
+    const userId = await this.todoistService.getUserId();
+    const entry = await this.get(id);
+    if (entry.undone_at) {
+      throw new ConflictError(`History entry ${id} has already been undone`, { undone_at: entry.undone_at });
+    }
+    // Claimed before any Todoist call, so a second undo cannot recreate the same task or project
+    if (!this.store.claimUndo(entry.id)) {
+      throw new ConflictError(`History entry ${id} is already being undone`);
+    }
+
+    try {
+      const restored = new Map<string, string>();
+      await this.revert(entry, restored);
+
+      const undone = await this.store.markUndone(userId, id);
+      appLogger.info('History entry undone', { id, action: entry.action, restored: restored.size });
+      return { entry: undone ?? entry, restored_ids: Object.fromEntries(restored) };
+    } finally {
+      this.store.releaseUndo(entry.id);
+    }
+  }
+
+  private async revert(entry: HistoryEntry, restored: Map<string, string>): Promise<void> {
+    const service = this.todoistService;
+
+    switch (entry.action) {
+      case 'task.create':
+        return service.deleteTask(entry.task.id);
+      case 'task.update':
+        return this.revertTaskUpdate(entry);
+      case 'task.close':
+        // Closing a recurring task moves it to its next date instead of completing it
+        if (entry.before.due?.is_recurring) {
+          return this.restoreDue(entry.before.id, entry.before.due);
+        }
+        for (const task of [entry.before, ...entry.subtasks]) {
+          await service.reopenTask(task.id);
+        }
+        return;
+      case 'task.reopen':
+        return service.closeTask(entry.before.id);
+      case 'task.delete':
+        return this.restoreTasks([entry.before, ...entry.subtasks], restored);
+      case 'task.move':
+        return service.moveTask(entry.before.id, taskLocation(entry.before));
+      case 'project.create':
+        return service.deleteProject(entry.project.id);
+      case 'project.update': {
+        const revert: UpdateProjectOptions = pickFields(entry.before, PROJECT_FIELDS, entry.fields);
+        await service.updateProject(entry.before.id, revert);
+        return;
+      }
+      case 'project.archive':
+        return service.unarchiveProject(entry.project_id);
+      case 'project.unarchive':
+        return service.archiveProject(entry.project_id);
+      case 'project.delete':
+        return this.restoreProject(entry, restored);
+      case 'section.create':
+        return service.deleteSection(entry.section.id);
+      case 'section.update':
+        await service.updateSection(entry.before.id, entry.before.name);
+        return;
+      case 'section.delete':
+        await this.restoreSection(entry.before, restored);
+        return this.restoreTasks(entry.tasks, restored);
+      case 'comment.create':
+        return service.deleteComment(entry.comment.id);
+      case 'comment.update':
+        await service.updateComment(entry.before.id, entry.before.content);
+        return;
+      case 'comment.delete':
+        return this.restoreComment(entry.before, restored);
+      case 'label.create':
+        return service.deleteLabel(entry.label.id);
+      case 'label.update': {
+        const revert: UpdateLabelOptions = pickFields(entry.before, LABEL_FIELDS, entry.fields);
+        await service.updateLabel(entry.before.id, revert);
+        return;
+      }
+      case 'label.delete': {
+        const { id, name, color, order, is_favorite } = entry.before;
+        const label = await service.createLabel({ name, color, order, is_favorite });
+        restored.set(id, label.id);
+        return this.addLabel(entry.task_ids, name);
+      }
+      case 'label.rename_shared':
+        return service.renameSharedLabel(entry.new_name, entry.name);
+      case 'label.remove_shared':
+        return this.addLabel(entry.task_ids, entry.name);
+      case 'command':
+        throw new ValidationError(`Sync command ${entry.command.type} cannot be undone`);
+    }
+  }
+
+  private async revertTaskUpdate(entry: ChangeOf<'task.update'>): Promise<void> {
+    const { before, fields } = entry;
+    const revert = revertUpdateOptions(before, fields);
+
+    // A due string would restart a recurrence from today; restore the exact next date instead
+    const recurringDue = before.due?.is_recurring && 'due_string' in revert ? before.due : null;
+    if (recurringDue) {
+      delete revert.due_string;
+      delete revert.due_lang;
+    }
+
+    if (Object.keys(revert).length > 0) {
+      await this.todoistService.updateTask(before.id, revert);
+    }
+    if (recurringDue) {
+      await this.restoreDue(before.id, recurringDue);
+    }
+  }
+
+  private async restoreDue(taskId: string, due: NonNullable<Task['due']>): Promise<void> {
+    const { reschedule } = rescheduleDue(due, dueWallTime(due).date);
+    await this.todoistService.rescheduleTasks([{ id: taskId, due: reschedule }]);
+  }
+
+  /**
+   * Recreate tasks parents first, pointing each at its recreated project, section or parent
+   */
+  private async restoreTasks(tasks: Task[], restored: Map<string, string>): Promise<void> {
+    const snapshotIds = new Set(tasks.map(task => task.id));
+    const pending = [...tasks];
+    const mapped = (id: string | null): string | null => (id ? restored.get(id) ?? id : null);
+
+    while (pending.length > 0) {
+      const ready = pending.findIndex(task => !task.parent_id || !snapshotIds.has(task.parent_id) || restored.has(task.parent_id));
+      const [task] = pending.splice(Math.max(ready, 0), 1);
+
+      const created = await this.todoistService.createTask(taskToCreateOptions({
+        ...task,
+        project_id: mapped(task.project_id)!,
+        section_id: mapped(task.section_id),
+        parent_id: mapped(task.parent_id)
+      }));
+      restored.set(task.id, created.id);
+
+      if (task.due?.is_recurring) {
+        await this.restoreDue(created.id, task.due);
+      }
+    }
+  }
+
+  private async restoreProject(entry: ChangeOf<'project.delete'>, restored: Map<string, string>): Promise<void> {
+    // Sub-projects are snapshotted parents first
+    for (const project of [entry.before, ...entry.projects]) {
+      const parentId = project.parent_id ? restored.get(project.parent_id) ?? project.parent_id : undefined;
+      const created = await this.todoistService.createProject(project.name, {
+        ...(parentId ? { parent_id: parentId } : {}),
+        color: project.color,
+        is_favorite: project.is_favorite,
+        view_style: project.view_style
+      });
+      restored.set(project.id, created.id);
+    }
+
+    for (const section of entry.sections) {
+      await this.restoreSection(section, restored);
+    }
+    await this.restoreTasks(entry.tasks, restored);
+  }
+
+  private async restoreSection(section: ChangeOf<'section.delete'>['before'], restored: Map<string, string>): Promise<void> {
+    const created = await this.todoistService.createSection({
+      name: section.name,
+      project_id: restored.get(section.project_id) ?? section.project_id,
+      order: section.order
+    });
+    restored.set(section.id, created.id);
+  }
+
+  private async restoreComment(comment: Comment, restored: Map<string, string>): Promise<void> {
+    const target = comment.task_id ? { task_id: comment.task_id } : { project_id: comment.project_id! };
+    const attachment = comment.attachment?.file_url
+      ? {
+          file_url: comment.attachment.file_url,
+          file_name: comment.attachment.file_name,
+          file_type: comment.attachment.file_type,
+          resource_type: comment.attachment.resource_type
+        }
+      : undefined;
+
+    const created = await this.todoistService.createComment({ ...target, content: comment.content, attachment });
+    restored.set(comment.id, created.id);
+  }
+
+  // Put a label back on the tasks that had it; tasks deleted since are skipped
+  private async addLabel(taskIds: string[], name: string): Promise<void> {
+    const tasks = taskIds.length > 0 ? await this.todoistService.getTasks({ ids: taskIds }) : [];
+    const commands = tasks
+      .filter(task => !task.labels.includes(name))
+      .map(task => ({ type: 'item_update', args: { id: task.id, labels: [...task.labels, name] } }));
+
+    for (let index = 0; index < commands.length; index += SYNC_COMMAND_LIMIT) {
+      await this.todoistService.executeCommands(commands.slice(index, index + SYNC_COMMAND_LIMIT));
+    }
+  }
+}
@@ -0,0 +1,67 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { appLogger } from '../utils/logger';
+
+/**
+ * A JSON document kept in memory and persisted to a private file
+ * Callers mutate the loaded value in place and then call save
+ */
+export class JsonFileStore<T> {
+  private loading?: Promise<T>;
+  private writing: Promise<void> = Promise.resolve();
+
+  /**
+   * @param name What the file holds, for log messages
+   * @param empty Value to start from when the file does not exist yet
+   * @param space Indentation for JSON.stringify; omit for a compact file
+   */
+  constructor(
+    private readonly filePath: string,
+    private readonly name: string,
+    private readonly empty: () => T,
+    private readonly space?: number
+  ) {}
+
+  /**
+   * The stored value, read from disk on first use
+   * Concurrent first calls share one read, so none of them replaces the others' changes
+   */
+  load(): Promise<T> {
+    this.loading ??= this.read().catch(error => {
+      this.loading = undefined;
+      throw error;
+    });
+    return this.loading;
+  }
+
+  /**
+   * Persist the loaded value
+   * Writes are queued so concurrent mutations never race on the temp file, and go to a temp
+   * file that is renamed into place so a crash never leaves a truncated store
+   */
+  save(): Promise<void> {
+    const write = async () => {
+      const value = await this.load();
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+
+      const tempPath = `${this.filePath}.tmp`;
+      await fs.writeFile(tempPath, JSON.stringify(value, null, this.space), { mode: 0o600 });
+      await fs.rename(tempPath, this.filePath);
+    };
+
+    this.writing = this.writing.then(write, write);
+    return this.writing;
+  }
+
+  private async read(): Promise<T> {
+    try {
+      return JSON.parse(await fs.readFile(this.filePath, 'utf8')) as T;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        appLogger.error(`Failed to read ${this.name}`, { path: this.filePath, error });
+        throw error;
+      }
+      return this.empty();
+    }
+  }
+}
@@ -0,0 +1,214 @@
+import { TodoistService, TaskDestination } from './todoist.service';
+import { ConflictError, NotFoundError, ValidationError } from '../middleware/error-handler';
+import { appLogger } from '../utils/logger';
+
+export type NamedResourceType = 'project' | 'section' | 'task';
+
+export interface NameCandidate {
+  id: string;
+  name: string;
+  project_id?: string;                          // Sections and tasks only, to tell same-named ones apart
+  score: number;                                // 1 for an exact (normalised) match
+}
+
+export interface CreatedResource {
+  type: 'project' | 'section';
+  id: string;
+  name: string;
+}
+
+/**
+ * Where a task goes, by ID and/or by name
+ * A name is only used when the matching ID is absent
+ */
+export interface TaskReferences {
+  project_id?: string;
+  project_name?: string;
+  section_id?: string;
+  section_name?: string;
+  parent_id?: string;
+  parent_content?: string;
+  create_missing?: boolean;                     // Create a project or section that no name matches
+}
+
+export interface ResolvedTaskReferences {
+  project_id?: string;
+  section_id?: string;
+  parent_id?: string;
+  created: CreatedResource[];
+}
+
+interface Named {
+  id: string;
+  name: string;
+  project_id?: string;
+}
+
+// Below this similarity a name is not considered a match at all
+const FUZZY_THRESHOLD = 0.75;
+// A fuzzy match this far ahead of the runner-up is taken as the one meant
+const FUZZY_MARGIN = 0.1;
+const MAX_CANDIDATES = 10;
+
+/**
+ * Lowercase, strip accents, emoji and punctuation so "📥 Inbox" matches "inbox"
+ */
+export function normalizeName(name: string): string {
+  return name
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+// Edit distance counting a swap of adjacent letters as one edit, the most common typo
+function editDistance(a: string, b: string): number {
+  const distance = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      distance[i][j] = Math.min(distance[i - 1][j] + 1, distance[i][j - 1] + 1, distance[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        distance[i][j] = Math.min(distance[i][j], distance[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return distance[a.length][b.length];
+}
+
+/**
+ * Similarity of two names from 0 to 1
+ * Prefix and whole-word containment score high so "groceries" finds "Groceries & Errands"
+ */
+export function nameSimilarity(query: string, name: string): number {
+  const a = normalizeName(query);
+  const b = normalizeName(name);
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+  if (b.startsWith(a) || a.startsWith(b)) return 0.9;
+  if (` ${b} `.includes(` ${a} `)) return 0.85;
+
+  return 1 - editDistance(a, b) / Math.max(a.length, b.length);
+}
+
+/**
+ * Pick the single item a name refers to
+ * Exact (normalised) matches win over fuzzy ones, and a fuzzy match that clearly leads the rest wins;
+ * several exact matches or near-tied fuzzy ones are a 409 listing them
+ */
+export function matchName<T extends Named>(
+  type: NamedResourceType,
+  query: string,
+  items: T[]
+): T | undefined {
+  const scored = items
+    .map(item => ({ item, score: nameSimilarity(query, item.name) }))
+    .filter(({ score }) => score >= FUZZY_THRESHOLD)
+    .sort((a, b) => b.score - a.score);
+
+  const exact = scored.filter(({ score }) => score === 1);
+  const matches = exact.length > 0 ? exact : scored;
+
+  if (matches.length === 0) return undefined;
+  if (matches.length === 1) return matches[0].item;
+  if (exact.length === 0 && matches[0].score - matches[1].score >= FUZZY_MARGIN) return matches[0].item;
+
+  const candidates: NameCandidate[] = matches.slice(0, MAX_CANDIDATES).map(({ item, score }) => ({
+    id: item.id,
+    name: item.name,
+    ...(item.project_id ? { project_id: item.project_id } : {}),
+    score: Math.round(score * 100) / 100
+  }));
+
+  throw new ConflictError(`"${query}" matches more than one ${type}`, { type, query, candidates });
+}
+
+/**
+ * The most specific destination in resolved references, for moving a task
+ */
+export function toTaskDestination(references: ResolvedTaskReferences): TaskDestination {
+  if (references.parent_id) return { parent_id: references.parent_id };
+  if (references.section_id) return { section_id: references.section_id };
+  if (references.project_id) return { project_id: references.project_id };
+  throw new ValidationError('Provide a project, section or parent task by ID or name');
+}
+
+/**
+ * Turns project, section and parent task names into IDs
+ */
+export class NameResolver {
+  constructor(private readonly todoistService: TodoistService) {}
+
+  async resolveProjectId(name: string, createMissing = false, created: CreatedResource[] = []): Promise<string> {
+    const project = matchName('project', name, await this.todoistService.getProjects());
+    if (project) return project.id;
+
+    if (!createMissing) {
+      throw new NotFoundError(`No project matches "${name}"`, { type: 'project', query: name });
+    }
+
+    const newProject = await this.todoistService.createProject(name.trim());
+    appLogger.info('Created missing project', { id: newProject.id, name: newProject.name });
+    created.push({ type: 'project', id: newProject.id, name: newProject.name });
+    return newProject.id;
+  }
+
+  /**
+   * Resolve every name in the references; IDs given directly pass through unchanged
+   * Sections are looked up within the project, and parent tasks within the project and section
+   */
+  async resolveTaskReferences(references: TaskReferences): Promise<ResolvedTaskReferences> {
+    const created: CreatedResource[] = [];
+    const createMissing = references.create_missing ?? false;
+
+    let projectId = references.project_id;
+    if (!projectId && references.project_name) {
+      projectId = await this.resolveProjectId(references.project_name, createMissing, created);
+    }
+
+    let sectionId = references.section_id;
+    if (!sectionId && references.section_name) {
+      const section = matchName('section', references.section_name, await this.todoistService.getSections(projectId));
+
+      if (section) {
+        sectionId = section.id;
+      } else if (createMissing && projectId) {
+        const newSection = await this.todoistService.createSection({ name: references.section_name.trim(), project_id: projectId });
+        appLogger.info('Created missing section', { id: newSection.id, name: newSection.name, project_id: projectId });
+        created.push({ type: 'section', id: newSection.id, name: newSection.name });
+        sectionId = newSection.id;
+      } else {
+        throw new NotFoundError(`No section matches "${references.section_name}"`, {
+          type: 'section',
+          query: references.section_name,
+          ...(createMissing ? { hint: 'create_missing needs a project to create the section in' } : {})
+        });
+      }
+    }
+
+    let parentId = references.parent_id;
+    if (!parentId && references.parent_content) {
+      const tasks = await this.todoistService.getTasks({ project_id: projectId, section_id: sectionId });
+      const parent = matchName(
+        'task',
+        references.parent_content,
+        tasks.map(task => ({ id: task.id, name: task.content, project_id: task.project_id }))
+      );
+      if (!parent) {
+        throw new NotFoundError(`No task matches "${references.parent_content}"`, { type: 'task', query: references.parent_content });
+      }
+      parentId = parent.id;
+    }
+
+    return {
+      ...(projectId ? { project_id: projectId } : {}),
+      ...(sectionId ? { section_id: sectionId } : {}),
+      ...(parentId ? { parent_id: parentId } : {}),
+      created
+    };
+  }
+}
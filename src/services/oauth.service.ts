@@ -0,0 +1,93 @@
+import { randomBytes } from 'crypto';
+import { z } from 'zod';
+import { appLogger } from '../utils/logger';
+import { ValidationError, TodoistApiError } from '../middleware/error-handler';
+
+const AccessTokenResponseSchema = z.object({
+  access_token: z.string(),
+  token_type: z.string(),
+});
+
+// Pending authorization requests expire if the user does not finish the flow
+const STATE_TTL_MS = 10 * 60 * 1000;
+
+export interface OAuthClientCredentials {
+  clientId: string;
+  clientSecret: string;
+  scopes: string;
+}
+
+/**
+ * Todoist OAuth2 authorization-code flow
+ * The state parameter ties the callback back to the API client that started the flow
+ */
+export class TodoistOAuthService {
+  private readonly authorizeUrl = 'https://todoist.com/oauth/authorize';
+  private readonly tokenUrl = 'https://todoist.com/oauth/access_token';
+  private readonly pending = new Map<string, { apiClientId: string; expiresAt: number }>();
+
+  constructor(private readonly credentials: OAuthClientCredentials) {}
+
+  /**
+   * Build the Todoist consent URL for an API client
+   */
+  createAuthorizationUrl(apiClientId: string): string {
+    this.prunePending();
+
+    const state = randomBytes(24).toString('base64url');
+    this.pending.set(state, { apiClientId, expiresAt: Date.now() + STATE_TTL_MS });
+
+    const params = new URLSearchParams({
+      client_id: this.credentials.clientId,
+      scope: this.credentials.scopes,
+      state,
+    });
+    return `${this.authorizeUrl}?${params.toString()}`;
+  }
+
+  /**
+   * Validate the callback state and exchange the code for an access token
+   * Each state can be used once
+   */
+  async exchangeCode(code: string, state: string): Promise<{ apiClientId: string; accessToken: string }> {
+    const pending = this.pending.get(state);
+    this.pending.delete(state);
+
+    if (!pending || pending.expiresAt < Date.now()) {
+      throw new ValidationError('Unknown or expired OAuth state');
+    }
+
+    const response = await fetch(this.tokenUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        client_id: this.credentials.clientId,
+        client_secret: this.credentials.clientSecret,
+        code,
+      }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      appLogger.error(`Todoist OAuth token exchange failed: ${response.status} ${response.statusText}`, {
+        apiClientId: pending.apiClientId,
+        error: errorText,
+      });
+      throw TodoistApiError.fromResponse(
+        response.status,
+        `Todoist OAuth token exchange failed: ${response.status} ${response.statusText}`,
+        errorText
+      );
+    }
+
+    const token = AccessTokenResponseSchema.parse(await response.json());
+    return { apiClientId: pending.apiClientId, accessToken: token.access_token };
+  }
+
+  private prunePending(): void {
+    const now = Date.now();
+    for (const [state, pending] of this.pending) {
+      if (pending.expiresAt < now) this.pending.delete(state);
+    }
+  }
+}
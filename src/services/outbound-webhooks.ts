@@ -0,0 +1,186 @@
+import { createHmac, randomBytes, randomUUID } from 'crypto';
+import { config } from '../utils/config';
+import { appLogger } from '../utils/logger';
+import { assertPublicUrl } from '../utils/public-url';
+import { ValidationError } from '../middleware/error-handler';
+import { EventHub, TodoistEvent, TodoistEventType, eventHub } from './events';
+import { JsonFileStore } from './json-file-store';
+
+export interface WebhookSubscription {
+  id: string;
+  client_id: string;                            // API client that registered it
+  todoist_user_id: string;                      // Only this Todoist user's events are delivered
+  url: string;
+  events: TodoistEventType[];                   // Empty means every event type
+  secret: string;                               // Signs deliveries; only shown when the subscription is created
+  created_at: string;
+}
+
+export type PublicWebhookSubscription = Omit<WebhookSubscription, 'secret'>;
+
+const DELIVERY_ATTEMPTS = 3;
+const DELIVERY_TIMEOUT_MS = 5000;
+const DELIVERY_BASE_DELAY_MS = 1000;
+
+const sleep = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+export function toPublicSubscription({ secret, ...subscription }: WebhookSubscription): PublicWebhookSubscription {
+  return subscription;
+}
+
+/**
+ * File-backed list of outbound webhook subscriptions
+ */
+export class WebhookSubscriptionStore {
+  private readonly file: JsonFileStore<WebhookSubscription[]>;
+
+  constructor(filePath: string) {
+    this.file = new JsonFileStore(filePath, 'webhook subscriptions', () => [], 2);
+  }
+
+  async all(): Promise<WebhookSubscription[]> {
+    return this.file.load();
+  }
+
+  async add(subscription: WebhookSubscription): Promise<void> {
+    (await this.file.load()).push(subscription);
+    await this.file.save();
+  }
+
+  async delete(id: string, clientId: string): Promise<boolean> {
+    const subscriptions = await this.file.load();
+    const index = subscriptions.findIndex(subscription => subscription.id === id && subscription.client_id === clientId);
+    if (index === -1) return false;
+
+    subscriptions.splice(index, 1);
+    await this.file.save();
+    return true;
+  }
+}
+
+/**
+ * Delivers Todoist events to registered URLs
+ * Each delivery is signed with the subscription's secret: X-Webhook-Signature: sha256=<hex HMAC of the body>
+ */
+export class OutboundWebhookService {
+  private unsubscribe?: () => void;
+
+  constructor(
+    private readonly store: WebhookSubscriptionStore,
+    private readonly hub: EventHub
+  ) {}
+
+  start(): void {
+    this.unsubscribe ??= this.hub.subscribe(event => {
+      this.dispatch(event).catch(error => {
+        appLogger.error('Failed to dispatch webhook event', { event: event.type, error });
+      });
+    });
+  }
+
+  stop(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = undefined;
+  }
+
+  async subscribe(
+    clientId: string,
+    todoistUserId: string,
+    url: string,
+    events: TodoistEventType[]
+  ): Promise<WebhookSubscription> {
+    await assertPublicUrl(url);
+
+    const subscription: WebhookSubscription = {
+      id: randomUUID(),
+      client_id: clientId,
+      todoist_user_id: todoistUserId,
+      url,
+      events,
+      secret: randomBytes(32).toString('hex'),
+      created_at: new Date().toISOString(),
+    };
+
+    await this.store.add(subscription);
+    appLogger.info('Webhook subscription created', { id: subscription.id, client: clientId, url, events });
+    return subscription;
+  }
+
+  async list(clientId: string): Promise<PublicWebhookSubscription[]> {
+    return (await this.store.all())
+      .filter(subscription => subscription.client_id === clientId)
+      .map(toPublicSubscription);
+  }
+
+  async remove(clientId: string, id: string): Promise<boolean> {
+    const removed = await this.store.delete(id, clientId);
+    if (removed) appLogger.info('Webhook subscription deleted', { id, client: clientId });
+    return removed;
+  }
+
+  private async dispatch(event: TodoistEvent): Promise<void> {
+    const subscriptions = (await this.store.all()).filter(subscription =>
+      subscription.todoist_user_id === event.user_id &&
+      (subscription.events.length === 0 || subscription.events.includes(event.type))
+    );
+
+    // Deliveries are independent; a slow endpoint must not hold up the others
+    await Promise.all(subscriptions.map(subscription => this.deliver(subscription, event)));
+  }
+
+  private async deliver(subscription: WebhookSubscription, event: TodoistEvent): Promise<void> {
+    const body = JSON.stringify(event);
+    const signature = createHmac('sha256', subscription.secret).update(body).digest('hex');
+
+    for (let attempt = 1; attempt <= DELIVERY_ATTEMPTS; attempt++) {
+      try {
+        // Resolved again on every attempt: the host may have been pointed at a private address since
+        await assertPublicUrl(subscription.url);
+
+        const response = await fetch(subscription.url, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'X-Webhook-Id': subscription.id,
+            'X-Webhook-Event': event.type,
+            'X-Webhook-Delivery': event.id,
+            'X-Webhook-Signature': `sha256=${signature}`,
+          },
+          body,
+          // A redirect could lead to a private address without being checked
+          redirect: 'manual',
+          signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+        });
+
+        if (response.ok) {
+          appLogger.debug('Webhook delivered', { id: subscription.id, event: event.type, attempt });
+          return;
+        }
+
+        appLogger.warn('Webhook delivery rejected', { id: subscription.id, event: event.type, attempt, status: response.status });
+      } catch (error) {
+        if (error instanceof ValidationError) {
+          appLogger.error('Webhook delivery blocked', { id: subscription.id, url: subscription.url, event: event.type, reason: error.message });
+          return;
+        }
+        appLogger.warn('Webhook delivery failed', {
+          id: subscription.id,
+          event: event.type,
+          attempt,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+
+      if (attempt < DELIVERY_ATTEMPTS) {
+        await sleep(DELIVERY_BASE_DELAY_MS * 2 ** (attempt - 1));
+      }
+    }
+
+    appLogger.error('Webhook delivery gave up', { id: subscription.id, url: subscription.url, event: event.type });
+  }
+}
+
+export const outboundWebhooks = new OutboundWebhookService(
+  new WebhookSubscriptionStore(config.WEBHOOK_SUBSCRIPTIONS_PATH),
+  eventHub
+);
@@ -0,0 +1,223 @@
+import { TodoistService, Task, Project, Section, Label, CreateTaskOptions } from './todoist.service';
+import { resolveDatePhrase } from './due-dates.service';
+import { ValidationError } from '../middleware/error-handler';
+
+export interface QuickAddCatalog {
+  projects: Project[];
+  sections: Section[];
+  labels: Label[];
+}
+
+export interface ResolvedName {
+  name: string;                                 // As written in the text
+  id: string | null;                            // null when nothing by that name exists
+}
+
+export interface QuickAddBreakdown {
+  content: string;                              // Text left once every recognised token is removed
+  project: ResolvedName | null;
+  section: ResolvedName | null;
+  labels: ResolvedName[];
+  priority: { token: string; value: number } | null;
+  due_string: string | null;                    // Passed to Todoist, which understands the phrase natively
+  deadline: { phrase: string; date: string | null } | null;
+  warnings: string[];
+}
+
+export interface QuickAddResult {
+  parsed: QuickAddBreakdown;
+  task?: Task;
+}
+
+// Todoist's p1 (urgent) is API priority 4
+const PRIORITY_VALUES: Record<string, number> = { p1: 4, p2: 3, p3: 2, p4: 1 };
+
+const WEEKDAY = '(?:mon|tues?|wed(?:nes)?|thu(?:rs?)?|fri|sat(?:ur)?|sun)(?:day)?';
+const MONTH = '(?:jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)[a-z]*';
+const ORDINAL = '\\d{1,2}(?:st|nd|rd|th)?';
+const TIME = '(?:(?:at\\s+)?\\d{1,2}(?::\\d{2})?\\s*(?:am|pm)|(?:at\\s+)?\\d{1,2}:\\d{2})';
+const DATE = [
+  'today', 'tod', 'tonight', 'tomorrow', 'tmrw', 'this weekend', 'next weekend',
+  'next (?:week|month|year)', `(?:next |this |on )?${WEEKDAY}`,
+  'in \\d+ (?:days?|weeks?|months?|years?)',
+  `${MONTH} ${ORDINAL}(?:,? \\d{4})?`, `${ORDINAL} ${MONTH}(?: \\d{4})?`,
+  '\\d{4}-\\d{2}-\\d{2}'
+].join('|');
+const RECURRING = `every (?:other )?(?:day|weekday|workday|week|month|year|${WEEKDAY}(?:,? (?:and )?${WEEKDAY})*|\\d+ (?:days|weeks|months|years)|${ORDINAL})`;
+
+// A date or recurrence optionally followed by a time, or a time on its own
+const DUE_PATTERN = new RegExp(
+  `(?<=^|\\s)(?:(?:${RECURRING}|${DATE})(?:\\s+${TIME})?(?:\\s+(?:starting|from) (?:${DATE}))?|${TIME})(?=$|\\s|[.,!?])`,
+  'i'
+);
+
+const PRIORITY_PATTERN = /(?<=^|\s)(p[1-4])(?=$|\s)/i;
+const DEADLINE_PATTERN = /\{([^}]+)\}/;
+const LABEL_PATTERN = /(?<=^|\s)@([^\s@#]+)/g;
+
+const normalize = (name: string): string => name.trim().toLowerCase();
+
+/**
+ * Remove `marker` + the longest run of words that names a known entity (e.g. "#Work Stuff")
+ * Falls back to the single word after the marker when no known name matches
+ */
+function extractName(
+  text: string,
+  marker: '#' | '/',
+  names: string[]
+): { text: string; name: string | null } {
+  const pattern = new RegExp(`(?<=^|\\s)\\${marker}(\\S+(?:\\s+\\S+)*)`);
+  const match = pattern.exec(text);
+  if (!match) return { text, name: null };
+
+  const words = match[1].split(/\s+/);
+  const known = new Set(names.map(normalize));
+
+  for (let count = words.length; count >= 1; count--) {
+    const candidate = words.slice(0, count).join(' ');
+    if (known.has(normalize(candidate)) || count === 1) {
+      const consumed = `${marker}${candidate}`;
+      return {
+        text: text.slice(0, match.index) + text.slice(match.index + consumed.length),
+        name: candidate
+      };
+    }
+  }
+  return { text, name: null };
+}
+
+/**
+ * Split quick-add text into task fields, resolving names against the catalog
+ * Tokens: #project, /section, @label, p1-p4, {deadline}, and a due phrase ("tomorrow 3pm", "every monday")
+ * Deadline phrases are resolved in timeZone, the user's Todoist timezone
+ */
+export function parseQuickAdd(
+  input: string,
+  catalog: QuickAddCatalog,
+  timeZone?: string,
+  now: Date = new Date()
+): QuickAddBreakdown {
+  const warnings: string[] = [];
+  let text = ` ${input} `;
+
+  // Deadline first: its braces may contain date words the due parser would otherwise claim
+  let deadline: QuickAddBreakdown['deadline'] = null;
+  const deadlineMatch = DEADLINE_PATTERN.exec(text);
+  if (deadlineMatch) {
+    const phrase = deadlineMatch[1].trim();
+    const date = resolveDatePhrase(phrase, timeZone, now);
+    if (!date) warnings.push(`Could not understand deadline "${phrase}"; use a date like 2026-03-30 or "march 30"`);
+    deadline = { phrase, date };
+    text = text.replace(deadlineMatch[0], ' ');
+  }
+
+  const projectMatch = extractName(text, '#', catalog.projects.map(project => project.name));
+  text = projectMatch.text;
+  const projectRecord = projectMatch.name
+    ? catalog.projects.find(project => normalize(project.name) === normalize(projectMatch.name!))
+    : undefined;
+  const project: ResolvedName | null = projectMatch.name ? { name: projectMatch.name, id: projectRecord?.id ?? null } : null;
+  if (project && !project.id) warnings.push(`No project named "${project.name}"`);
+
+  // Sections are looked up in the chosen project, or across all projects when none was given
+  const candidateSections = projectRecord
+    ? catalog.sections.filter(section => section.project_id === projectRecord.id)
+    : catalog.sections;
+  const sectionMatch = extractName(text, '/', candidateSections.map(section => section.name));
+  text = sectionMatch.text;
+  let section: ResolvedName | null = null;
+  if (sectionMatch.name) {
+    const matches = candidateSections.filter(candidate => normalize(candidate.name) === normalize(sectionMatch.name!));
+    section = { name: sectionMatch.name, id: matches.length === 1 ? matches[0].id : null };
+    if (matches.length === 0) warnings.push(`No section named "${sectionMatch.name}"`);
+    if (matches.length > 1) warnings.push(`Section "${sectionMatch.name}" exists in several projects; add #project`);
+  }
+
+  const labels: ResolvedName[] = [];
+  for (const match of text.matchAll(LABEL_PATTERN)) {
+    const label = catalog.labels.find(candidate => normalize(candidate.name) === normalize(match[1]));
+    labels.push({ name: label?.name ?? match[1], id: label?.id ?? null });
+  }
+  text = text.replace(LABEL_PATTERN, ' ');
+
+  let priority: QuickAddBreakdown['priority'] = null;
+  const priorityMatch = PRIORITY_PATTERN.exec(text);
+  if (priorityMatch) {
+    const token = priorityMatch[1].toLowerCase();
+    priority = { token, value: PRIORITY_VALUES[token] };
+    text = text.replace(PRIORITY_PATTERN, ' ');
+  }
+
+  let dueString: string | null = null;
+  const dueMatch = DUE_PATTERN.exec(text);
+  if (dueMatch) {
+    dueString = dueMatch[0].trim();
+    text = text.slice(0, dueMatch.index) + text.slice(dueMatch.index + dueMatch[0].length);
+  }
+
+  const content = text.replace(/\s+/g, ' ').trim();
+  if (!content) warnings.push('Nothing is left for the task content');
+
+  return {
+    content,
+    project,
+    section,
+    labels,
+    priority,
+    due_string: dueString,
+    deadline,
+    warnings
+  };
+}
+
+/**
+ * Task fields for a parsed breakdown; unresolved names are left out
+ */
+export function breakdownToTaskOptions(parsed: QuickAddBreakdown): CreateTaskOptions {
+  return {
+    content: parsed.content,
+    ...(parsed.project?.id ? { project_id: parsed.project.id } : {}),
+    ...(parsed.section?.id ? { section_id: parsed.section.id } : {}),
+    ...(parsed.labels.length > 0 ? { labels: parsed.labels.map(label => label.name) } : {}),
+    ...(parsed.priority ? { priority: parsed.priority.value } : {}),
+    ...(parsed.due_string ? { due_string: parsed.due_string } : {}),
+    ...(parsed.deadline?.date ? { deadline_date: parsed.deadline.date } : {})
+  };
+}
+
+/**
+ * Creates tasks from a single line of text the way Todoist's quick add does
+ */
+export class QuickAddService {
+  constructor(private readonly todoistService: TodoistService) {}
+
+  async parse(text: string): Promise<QuickAddBreakdown> {
+    const [projects, sections, labels, user] = await Promise.all([
+      this.todoistService.getProjects(),
+      this.todoistService.getSections(),
+      this.todoistService.getLabels(),
+      this.todoistService.getUser()
+    ]);
+    return parseQuickAdd(text, { projects, sections, labels }, user.timezone);
+  }
+
+  /**
+   * Parse and, unless dryRun is set, create the task
+   * Nothing is created when a project or section name cannot be resolved
+   */
+  async add(text: string, options: { dryRun?: boolean; description?: string } = {}): Promise<QuickAddResult> {
+    const parsed = await this.parse(text);
+    if (options.dryRun) return { parsed };
+
+    // Creating the task in the Inbox instead of the intended project would be a silent surprise
+    if ((parsed.project && !parsed.project.id) || (parsed.section && !parsed.section.id) || !parsed.content) {
+      throw new ValidationError('Quick add text could not be fully resolved', parsed);
+    }
+
+    const task = await this.todoistService.createTask({
+      ...breakdownToTaskOptions(parsed),
+      ...(options.description ? { description: options.description } : {})
+    });
+    return { parsed, task };
+  }
+}
@@ -0,0 +1,122 @@
+import { config } from '../utils/config';
+import { cacheLookups } from '../utils/metrics';
+
+/**
+ * Todoist resources whose REST reads are cached
+ */
+export type CacheResource = 'tasks' | 'projects' | 'sections' | 'labels';
+
+export const CACHE_RESOURCES: readonly CacheResource[] = ['tasks', 'projects', 'sections', 'labels'];
+
+export interface CacheEntry {
+  value: unknown;
+  expiresAt: number;
+}
+
+/**
+ * Storage backend for cached responses
+ * The in-memory store is the default; a shared store (e.g. Redis) can implement the same interface
+ */
+export interface CacheStore {
+  get(key: string): Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): Promise<void>;
+  deleteByPrefix(prefix: string): Promise<void>;
+}
+
+/**
+ * Bounded in-memory store; evicts the least recently used entry when full
+ */
+export class MemoryCacheStore implements CacheStore {
+  private readonly entries = new Map<string, CacheEntry>();
+
+  constructor(private readonly maxEntries: number) {}
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    // Re-insert so Map order tracks recency
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  async deleteByPrefix(prefix: string): Promise<void> {
+    for (const key of this.entries.keys()) {
+      if (key.startsWith(prefix)) this.entries.delete(key);
+    }
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
+
+/**
+ * Read-through cache for one Todoist account's responses
+ * Keys are namespaced per account so a shared store never mixes accounts
+ */
+export class ResponseCache {
+  // Bumped on every invalidation so reads that started before a write don't cache stale data
+  private readonly generations = new Map<CacheResource, number>();
+
+  constructor(
+    private readonly store: CacheStore,
+    private readonly namespace: string,
+    private readonly ttls: Readonly<Record<CacheResource, number>>
+  ) {}
+
+  async getOrLoad<T>(resource: CacheResource, key: string, load: () => Promise<T>): Promise<T> {
+    const ttl = this.ttls[resource];
+    if (ttl <= 0) return load();
+
+    const storeKey = this.keyFor(resource, key);
+    const cached = await this.store.get(storeKey);
+    cacheLookups.inc({ resource, result: cached ? 'hit' : 'miss' });
+    if (cached) return cached.value as T;
+
+    const generation = this.generations.get(resource) ?? 0;
+    const value = await load();
+
+    if ((this.generations.get(resource) ?? 0) === generation) {
+      await this.store.set(storeKey, { value, expiresAt: Date.now() + ttl });
+    }
+    return value;
+  }
+
+  async invalidate(resources: readonly CacheResource[]): Promise<void> {
+    for (const resource of resources) {
+      this.generations.set(resource, (this.generations.get(resource) ?? 0) + 1);
+      await this.store.deleteByPrefix(this.keyFor(resource, ''));
+    }
+  }
+
+  private keyFor(resource: CacheResource, key: string): string {
+    return `${this.namespace}:${resource}:${key}`;
+  }
+}
+
+// Shared by every account; keys are namespaced per account
+export const defaultCacheStore = new MemoryCacheStore(config.CACHE_MAX_ENTRIES);
+
+export const CACHE_TTLS: Readonly<Record<CacheResource, number>> = {
+  tasks: config.CACHE_TTL_TASKS_MS,
+  projects: config.CACHE_TTL_PROJECTS_MS,
+  sections: config.CACHE_TTL_SECTIONS_MS,
+  labels: config.CACHE_TTL_LABELS_MS,
+};
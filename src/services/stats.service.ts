@@ -0,0 +1,73 @@
+import { Project, ProductivityStats } from './todoist.service';
+
+type Streak = { count: number; start: string; end: string } | null;
+
+export interface ProjectCompletion {
+  project_id: string;
+  project_name: string | null;
+  completed: number;
+}
+
+export interface StatsReport {
+  karma: { value: number; trend: string };
+  completed_total: number;
+  goals: { daily: number; weekly: number };
+  streaks: {
+    daily: { current: Streak; max: Streak };
+    weekly: { current: Streak; max: Streak };
+  };
+  days: { date: string; completed: number; goal_met: boolean; projects: ProjectCompletion[] }[];
+  weeks: { from: string; to: string; completed: number; goal_met: boolean; projects: ProjectCompletion[] }[];
+  by_project: ProjectCompletion[];
+}
+
+/**
+ * Shape Todoist productivity stats into a report for weekly reviews
+ * Project IDs are resolved to names; archived or deleted projects keep a null name
+ */
+export function buildStatsReport(stats: ProductivityStats, projects: Project[]): StatsReport {
+  const projectNames = new Map(projects.map(project => [project.id, project.name]));
+
+  const toCompletions = (items: { id: string; completed: number }[]): ProjectCompletion[] =>
+    items
+      .map(item => ({
+        project_id: item.id,
+        project_name: projectNames.get(item.id) ?? null,
+        completed: item.completed
+      }))
+      .sort((a, b) => b.completed - a.completed);
+
+  // Per-project totals across the weeks Todoist reports (the last four)
+  const totals = new Map<string, number>();
+  for (const week of stats.week_items) {
+    for (const item of week.items) {
+      totals.set(item.id, (totals.get(item.id) ?? 0) + item.completed);
+    }
+  }
+
+  const { goals } = stats;
+
+  return {
+    karma: { value: stats.karma, trend: stats.karma_trend },
+    completed_total: stats.completed_count,
+    goals: { daily: goals.daily_goal, weekly: goals.weekly_goal },
+    streaks: {
+      daily: { current: goals.current_daily_streak ?? null, max: goals.max_daily_streak ?? null },
+      weekly: { current: goals.current_weekly_streak ?? null, max: goals.max_weekly_streak ?? null }
+    },
+    days: stats.days_items.map(day => ({
+      date: day.date,
+      completed: day.total_completed,
+      goal_met: goals.daily_goal > 0 && day.total_completed >= goals.daily_goal,
+      projects: toCompletions(day.items)
+    })),
+    weeks: stats.week_items.map(week => ({
+      from: week.from,
+      to: week.to,
+      completed: week.total_completed,
+      goal_met: goals.weekly_goal > 0 && week.total_completed >= goals.weekly_goal,
+      projects: toCompletions(week.items)
+    })),
+    by_project: toCompletions([...totals].map(([id, completed]) => ({ id, completed })))
+  };
+}
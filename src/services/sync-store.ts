@@ -0,0 +1,360 @@
+import { z } from 'zod';
+import type { Task, Project, Section, Label } from './todoist.service';
+import { zonedWallTime } from './due-dates.service';
+
+// Sync API v9 resource schemas (only the fields we map to REST shapes)
+const SyncDueSchema = z.object({
+  date: z.string(),                             // "YYYY-MM-DD" or a datetime for timed due dates
+  timezone: z.string().nullable().optional(),
+  string: z.string(),
+  lang: z.string(),
+  is_recurring: z.boolean(),
+});
+
+export const SyncItemSchema = z.object({
+  id: z.string(),
+  project_id: z.string(),
+  section_id: z.string().nullable(),
+  parent_id: z.string().nullable(),
+  content: z.string(),
+  description: z.string().default(''),
+  priority: z.number(),
+  child_order: z.number(),
+  labels: z.array(z.string()),
+  due: SyncDueSchema.nullable(),
+  added_by_uid: z.string().nullable(),
+  added_at: z.string(),
+  responsible_uid: z.string().nullable(),
+  assigned_by_uid: z.string().nullable().optional(),
+  checked: z.boolean(),
+  is_deleted: z.boolean(),
+  duration: z.unknown().nullable().optional(),
+  deadline: z.unknown().nullable().optional(),
+});
+
+export const SyncProjectSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  color: z.string(),
+  parent_id: z.string().nullable(),
+  child_order: z.number(),
+  shared: z.boolean(),
+  is_deleted: z.boolean(),
+  is_archived: z.boolean(),
+  is_favorite: z.boolean(),
+  inbox_project: z.boolean().optional(),
+  team_inbox: z.boolean().optional(),
+  view_style: z.string(),
+  description: z.string().optional(),
+});
+
+const SyncSectionSchema = z.object({
+  id: z.string(),
+  project_id: z.string(),
+  name: z.string(),
+  section_order: z.number(),
+  is_archived: z.boolean(),
+  is_deleted: z.boolean(),
+});
+
+const SyncLabelSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  color: z.string(),
+  item_order: z.number(),
+  is_favorite: z.boolean(),
+  is_deleted: z.boolean(),
+});
+
+const SyncNoteSchema = z.object({
+  id: z.string(),
+  item_id: z.string().optional(),
+  project_id: z.string().optional(),
+  is_deleted: z.boolean(),
+});
+
+export const SyncResponseSchema = z.object({
+  sync_token: z.string(),
+  full_sync: z.boolean(),
+  items: z.array(SyncItemSchema).optional(),
+  projects: z.array(SyncProjectSchema).optional(),
+  sections: z.array(SyncSectionSchema).optional(),
+  labels: z.array(SyncLabelSchema).optional(),
+  notes: z.array(SyncNoteSchema).optional(),
+  project_notes: z.array(SyncNoteSchema).optional(),
+});
+
+export type SyncResponse = z.infer<typeof SyncResponseSchema>;
+export type SyncItem = z.infer<typeof SyncItemSchema>;
+export type SyncProject = z.infer<typeof SyncProjectSchema>;
+type SyncSection = z.infer<typeof SyncSectionSchema>;
+type SyncLabel = z.infer<typeof SyncLabelSchema>;
+type SyncNote = z.infer<typeof SyncNoteSchema>;
+
+// Resource types requested from the Sync API
+export const SYNC_RESOURCE_TYPES = ['items', 'projects', 'sections', 'labels', 'notes', 'project_notes'] as const;
+
+export interface SyncTaskFilter {
+  project_id?: string;
+  section_id?: string;
+  label?: string;
+  ids?: string[];
+}
+
+/**
+ * In-memory replica of a Todoist account built from Sync API responses
+ * Stores raw Sync resources and converts them to REST v2 shapes on read
+ */
+export class SyncStore {
+  private token = '*';
+  private lastSyncedAt = 0;
+  private stale = true;
+  private invalidations = 0;
+
+  private readonly items = new Map<string, SyncItem>();
+  private readonly projects = new Map<string, SyncProject>();
+  private readonly sections = new Map<string, SyncSection>();
+  private readonly labels = new Map<string, SyncLabel>();
+  private readonly notes = new Map<string, SyncNote>();
+  private readonly projectNotes = new Map<string, SyncNote>();
+  // Comment counts per task and per project, kept in step with the notes so reads never scan them
+  private readonly itemNoteCounts = new Map<string, number>();
+  private readonly projectNoteCounts = new Map<string, number>();
+
+  get syncToken(): string {
+    return this.token;
+  }
+
+  /**
+   * Whether the replica should be refreshed before answering a read
+   */
+  needsRefresh(maxAgeMs: number): boolean {
+    return this.stale || Date.now() - this.lastSyncedAt > maxAgeMs;
+  }
+
+  /**
+   * Force a refresh on the next read, e.g. after a write went out
+   */
+  markStale(): void {
+    this.stale = true;
+    this.invalidations++;
+  }
+
+  /**
+   * Number of invalidations so far; captured before a sync starts so writes
+   * that land while it is in flight keep the replica marked stale
+   */
+  get invalidationCount(): number {
+    return this.invalidations;
+  }
+
+  /**
+   * Drop all state so the next sync is a full sync
+   */
+  reset(): void {
+    this.token = '*';
+    this.stale = true;
+    for (const collection of [this.items, this.projects, this.sections, this.labels, this.notes, this.projectNotes]) {
+      collection.clear();
+    }
+    this.itemNoteCounts.clear();
+    this.projectNoteCounts.clear();
+  }
+
+  /**
+   * Merge a full or incremental sync response into the replica
+   */
+  apply(response: SyncResponse, invalidationsAtStart = this.invalidations): void {
+    if (response.full_sync) {
+      this.reset();
+    }
+
+    mergeResources(this.items, response.items, item => item.is_deleted || item.checked);
+    mergeResources(this.projects, response.projects, project => project.is_deleted || project.is_archived);
+    mergeResources(this.sections, response.sections, section => section.is_deleted || section.is_archived);
+    mergeResources(this.labels, response.labels, label => label.is_deleted);
+    mergeNotes(this.notes, this.itemNoteCounts, response.notes, note => note.item_id);
+    mergeNotes(this.projectNotes, this.projectNoteCounts, response.project_notes, note => note.project_id);
+
+    this.token = response.sync_token;
+    this.lastSyncedAt = Date.now();
+    this.stale = this.invalidations !== invalidationsAtStart;
+  }
+
+  getTasks(filter: SyncTaskFilter = {}): Task[] {
+    const ids = filter.ids ? new Set(filter.ids) : undefined;
+
+    return [...this.items.values()]
+      .filter(item =>
+        (!filter.project_id || item.project_id === filter.project_id) &&
+        (!filter.section_id || item.section_id === filter.section_id) &&
+        (!filter.label || item.labels.includes(filter.label)) &&
+        (!ids || ids.has(item.id))
+      )
+      .map(item => this.toTask(item));
+  }
+
+  getTask(taskId: string): Task | undefined {
+    const item = this.items.get(taskId);
+    return item ? this.toTask(item) : undefined;
+  }
+
+  getProjects(): Project[] {
+    return [...this.projects.values()]
+      .sort((a, b) => a.child_order - b.child_order)
+      .map(project => this.toProject(project));
+  }
+
+  getSections(projectId?: string): Section[] {
+    return [...this.sections.values()]
+      .filter(section => !projectId || section.project_id === projectId)
+      .sort((a, b) => a.section_order - b.section_order)
+      .map(section => ({
+        id: section.id,
+        project_id: section.project_id,
+        order: section.section_order,
+        name: section.name,
+      }));
+  }
+
+  getLabels(): Label[] {
+    return [...this.labels.values()]
+      .sort((a, b) => a.item_order - b.item_order)
+      .map(label => ({
+        id: label.id,
+        name: label.name,
+        color: label.color,
+        order: label.item_order,
+        is_favorite: label.is_favorite,
+      }));
+  }
+
+  get counts(): { tasks: number; projects: number; sections: number; labels: number } {
+    return {
+      tasks: this.items.size,
+      projects: this.projects.size,
+      sections: this.sections.size,
+      labels: this.labels.size,
+    };
+  }
+
+  private toTask(item: SyncItem): Task {
+    return syncItemToTask(item, this.itemNoteCounts.get(item.id) ?? 0);
+  }
+
+  private toProject(project: SyncProject): Project {
+    return syncProjectToProject(project, this.projectNoteCounts.get(project.id) ?? 0);
+  }
+}
+
+/**
+ * Map a Sync API item to the REST task shape
+ */
+export function syncItemToTask(item: SyncItem, commentCount = 0): Task {
+  return {
+    id: item.id,
+    content: item.content,
+    description: item.description,
+    is_completed: item.checked,
+    labels: item.labels,
+    order: item.child_order,
+    priority: item.priority,
+    project_id: item.project_id,
+    section_id: item.section_id,
+    parent_id: item.parent_id,
+    creator_id: item.added_by_uid ?? '',
+    created_at: item.added_at,
+    assignee_id: item.responsible_uid,
+    assigner_id: item.assigned_by_uid ?? null,
+    comment_count: commentCount,
+    url: `https://todoist.com/showTask?id=${item.id}`,
+    due: item.due ? toRestDue(item.due) : null,
+    duration: item.duration ?? null,
+    deadline: item.deadline ?? null,
+  };
+}
+
+/**
+ * Map a Sync API project to the REST project shape
+ */
+export function syncProjectToProject(project: SyncProject, commentCount = 0): Project {
+  return {
+    id: project.id,
+    name: project.name,
+    comment_count: commentCount,
+    order: project.child_order,
+    color: project.color,
+    is_shared: project.shared,
+    is_favorite: project.is_favorite,
+    is_inbox_project: project.inbox_project ?? false,
+    is_team_inbox: project.team_inbox ?? false,
+    view_style: project.view_style,
+    url: `https://todoist.com/showProject?id=${project.id}`,
+    parent_id: project.parent_id,
+    description: project.description ?? '',
+  };
+}
+
+/**
+ * Upsert resources by id, removing those that are no longer active
+ */
+function mergeResources<T extends { id: string }>(
+  target: Map<string, T>,
+  updates: T[] | undefined,
+  isRemoved: (resource: T) => boolean
+): void {
+  for (const resource of updates ?? []) {
+    if (isRemoved(resource)) {
+      target.delete(resource.id);
+    } else {
+      target.set(resource.id, resource);
+    }
+  }
+}
+
+/**
+ * Upsert notes like mergeResources, moving each note's contribution to the per-parent counts
+ */
+function mergeNotes(
+  target: Map<string, SyncNote>,
+  counts: Map<string, number>,
+  updates: SyncNote[] | undefined,
+  parentOf: (note: SyncNote) => string | undefined
+): void {
+  const adjust = (parent: string | undefined, delta: number) => {
+    if (parent === undefined) return;
+    const count = (counts.get(parent) ?? 0) + delta;
+    if (count > 0) counts.set(parent, count);
+    else counts.delete(parent);
+  };
+
+  for (const note of updates ?? []) {
+    const previous = target.get(note.id);
+    if (previous) adjust(parentOf(previous), -1);
+
+    if (note.is_deleted) {
+      target.delete(note.id);
+    } else {
+      target.set(note.id, note);
+      adjust(parentOf(note), 1);
+    }
+  }
+}
+
+/**
+ * Sync puts timed due dates in `date`; REST splits them into `date` and `datetime`
+ * REST's date is the calendar date in the task's timezone, not the UTC date of a zoned datetime
+ */
+export function toRestDue(due: z.infer<typeof SyncDueSchema>): NonNullable<Task['due']> {
+  const isTimed = due.date.includes('T');
+  const timeZone = isTimed && due.date.endsWith('Z') ? due.timezone : undefined;
+
+  return {
+    date: timeZone ? zonedWallTime(new Date(due.date), timeZone).date : due.date.slice(0, 10),
+    string: due.string,
+    lang: due.lang,
+    is_recurring: due.is_recurring,
+    ...(isTimed ? { datetime: due.date } : {}),
+    ...(due.timezone ? { timezone: due.timezone } : {}),
+  };
+}
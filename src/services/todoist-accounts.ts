@@ -0,0 +1,134 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { config } from '../utils/config';
+import { appLogger } from '../utils/logger';
+import { TodoistService } from './todoist.service';
+import { TokenStore, LinkedAccount } from './token-store';
+import { TodoistOAuthService } from './oauth.service';
+
+/**
+ * Maps API clients to their own Todoist account
+ * Clients that linked an account through OAuth get a dedicated TodoistService;
+ * everyone else falls back to the deployment's TODOIST_API_KEY account (if any)
+ */
+export class TodoistAccountRegistry {
+  private readonly services = new Map<string, TodoistService>();
+  // Token lookups in flight, so concurrent first requests for a client share one service and cache
+  private readonly pending = new Map<string, Promise<TodoistService | undefined>>();
+  private readonly context = new AsyncLocalStorage<TodoistService>();
+
+  constructor(
+    readonly defaultService: TodoistService | undefined,
+    private readonly tokenStore: TokenStore | undefined
+  ) {}
+
+  get multiUser(): boolean {
+    return this.tokenStore !== undefined;
+  }
+
+  /**
+   * Service for an API client: its linked account, else the default account
+   */
+  async forClient(clientId: string): Promise<TodoistService | undefined> {
+    const cached = this.services.get(clientId);
+    if (cached) return cached;
+    if (!this.tokenStore) return this.defaultService;
+
+    let lookup = this.pending.get(clientId);
+    if (!lookup) {
+      lookup = this.tokenStore.get(clientId).then(accessToken => {
+        // A link or unlink while the token was loading has made this lookup stale
+        const current = this.pending.get(clientId) === lookup;
+        if (current) this.pending.delete(clientId);
+        if (!accessToken) return undefined;
+
+        const service = new TodoistService(accessToken);
+        if (current) this.services.set(clientId, service);
+        return service;
+      }, error => {
+        if (this.pending.get(clientId) === lookup) this.pending.delete(clientId);
+        throw error;
+      });
+      this.pending.set(clientId, lookup);
+    }
+    return (await lookup) ?? this.defaultService;
+  }
+
+  async getLinkedAccount(clientId: string): Promise<LinkedAccount | undefined> {
+    return this.tokenStore?.getAccount(clientId);
+  }
+
+  async link(clientId: string, accessToken: string): Promise<void> {
+    if (!this.tokenStore) throw new Error('OAuth is not configured');
+
+    await this.tokenStore.set(clientId, accessToken);
+    this.forget(clientId);
+    appLogger.info('Todoist account linked', { client: clientId });
+  }
+
+  async unlink(clientId: string): Promise<boolean> {
+    const removed = (await this.tokenStore?.delete(clientId)) ?? false;
+    this.forget(clientId);
+    if (removed) appLogger.info('Todoist account unlinked', { client: clientId });
+    return removed;
+  }
+
+  private forget(clientId: string): void {
+    this.services.delete(clientId);
+    this.pending.delete(clientId);
+  }
+
+  /**
+   * Every account service created so far
+   */
+  get activeServices(): TodoistService[] {
+    const services = [...this.services.values()];
+    return this.defaultService ? [this.defaultService, ...services] : services;
+  }
+
+  /**
+   * Run the rest of a request against the given account
+   */
+  run<T>(service: TodoistService, fn: () => T): T {
+    return this.context.run(service, fn);
+  }
+
+  /**
+   * Service bound to the current request, else the default account
+   */
+  current(): TodoistService {
+    const service = this.context.getStore() ?? this.defaultService;
+    if (!service) {
+      throw new Error('No Todoist account is linked for this request and TODOIST_API_KEY is not set');
+    }
+    return service;
+  }
+}
+
+const tokenStore = config.TOKEN_ENCRYPTION_KEY
+  ? new TokenStore(config.TOKEN_STORE_PATH, Buffer.from(config.TOKEN_ENCRYPTION_KEY, 'hex'))
+  : undefined;
+
+export const todoistAccounts = new TodoistAccountRegistry(
+  config.TODOIST_API_KEY ? new TodoistService(config.TODOIST_API_KEY) : undefined,
+  tokenStore
+);
+
+export const todoistOAuth = config.TODOIST_CLIENT_ID && config.TODOIST_CLIENT_SECRET
+  ? new TodoistOAuthService({
+      clientId: config.TODOIST_CLIENT_ID,
+      clientSecret: config.TODOIST_CLIENT_SECRET,
+      scopes: config.TODOIST_OAUTH_SCOPES,
+    })
+  : undefined;
+
+/**
+ * TodoistService that forwards every call to the account bound to the current request
+ * Lets routes, tools and helper services keep taking a single service instance
+ */
+export const todoistService: TodoistService = new Proxy({} as TodoistService, {
+  get(_target, property) {
+    const service = todoistAccounts.current();
+    const value = Reflect.get(service, property, service);
+    return typeof value === 'function' ? value.bind(service) : value;
+  },
+});
@@ -1,6 +1,20 @@
+import { randomUUID, createHash } from 'crypto';
 import { z } from 'zod';
 import { config } from '../utils/config';
 import { appLogger } from '../utils/logger';
+import { SyncStore, SyncResponseSchema, SYNC_RESOURCE_TYPES } from './sync-store';
+import { BaseService, retryAfterMs } from './base.service';
+import {
+  ResponseCache,
+  CacheStore,
+  CacheResource,
+  CACHE_RESOURCES,
+  CACHE_TTLS,
+  defaultCacheStore
+} from './response-cache';
+import { HistoryStore, HistoryChange, historyStore } from './history-store';
+import { AuditLog, auditLog } from './audit-log';
+import { AppError, TodoistApiError, TodoistNotFoundError, TodoistBadRequestError } from '../middleware/error-handler';
 
 // CORRECTED SCHEMAS based on actual Todoist API response analysis
 const TaskSchema = z.object({
@@ -54,6 +68,99 @@ const ProjectSchema = z.object({
   description: z.string(),                      // Always present (empty string if no description)
 });
 
+// Archived projects only come from the Sync API, which uses its own field names
+const ArchivedProjectSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  color: z.string(),
+  parent_id: z.string().nullable(),
+  child_order: z.number(),
+  is_favorite: z.boolean(),
+  is_archived: z.boolean(),
+  view_style: z.string(),
+});
+
+// Completed items come from the Sync API; REST v2 only returns active tasks
+const CompletedTaskSchema = z.object({
+  id: z.string(),
+  task_id: z.string(),
+  content: z.string(),
+  project_id: z.string(),
+  section_id: z.string().nullable(),
+  user_id: z.string(),
+  completed_at: z.string(),
+  note_count: z.number(),
+  item_object: z.object({                       // Present because we request annotate_items
+    parent_id: z.string().nullable(),
+  }).passthrough().nullable().optional(),
+}).transform(({ item_object, ...item }) => ({
+  ...item,
+  parent_id: item_object?.parent_id ?? null,
+}));
+
+const StreakSchema = z.object({
+  count: z.number(),
+  start: z.string(),
+  end: z.string(),
+});
+
+const StatsBreakdownSchema = z.array(z.object({
+  id: z.string(),                               // Project ID
+  completed: z.number(),
+}));
+
+const ProductivityStatsSchema = z.object({
+  karma: z.number(),
+  karma_trend: z.string(),
+  completed_count: z.number(),
+  days_items: z.array(z.object({
+    date: z.string(),
+    total_completed: z.number(),
+    items: StatsBreakdownSchema,
+  })),
+  week_items: z.array(z.object({
+    from: z.string(),
+    to: z.string(),
+    total_completed: z.number(),
+    items: StatsBreakdownSchema,
+  })),
+  goals: z.object({
+    daily_goal: z.number(),
+    weekly_goal: z.number(),
+    current_daily_streak: StreakSchema.nullable().optional(),
+    max_daily_streak: StreakSchema.nullable().optional(),
+    current_weekly_streak: StreakSchema.nullable().optional(),
+    max_weekly_streak: StreakSchema.nullable().optional(),
+  }),
+});
+
+const SectionSchema = z.object({
+  id: z.string(),
+  project_id: z.string(),
+  order: z.number(),
+  name: z.string(),
+});
+
+const AttachmentSchema = z.object({
+  file_name: z.string().optional(),
+  file_type: z.string().optional(),
+  file_url: z.string().optional(),
+  file_size: z.number().optional(),
+  resource_type: z.string(),
+  image: z.string().optional(),
+  image_width: z.number().optional(),
+  image_height: z.number().optional(),
+}).passthrough();                               // Extra provider fields (upload_state, tn_* thumbnails) vary by file type
+
+const CommentSchema = z.object({
+  id: z.string(),
+  task_id: z.string().nullable(),               // Exactly one of task_id / project_id is set
+  project_id: z.string().nullable(),
+  posted_at: z.string(),
+  content: z.string(),
+  attachment: AttachmentSchema.nullable(),
+});
+
 const LabelSchema = z.object({
   id: z.string(),
   name: z.string(),
@@ -62,9 +169,28 @@ const LabelSchema = z.object({
   is_favorite: z.boolean(),
 });
 
+// Sync API user resource; only the ID is needed to match webhook events to accounts
+const SyncUserSchema = z.object({
+  user: z.object({
+    id: z.union([z.string(), z.number()]).transform(String),
+    tz_info: z.object({ timezone: z.string() }).optional(),
+  }),
+});
+
+export interface TodoistUser {
+  id: string;
+  timezone?: string;                            // IANA name from the user's Todoist settings
+}
+
 export type Task = z.infer<typeof TaskSchema>;
 export type Project = z.infer<typeof ProjectSchema>;
 export type Label = z.infer<typeof LabelSchema>;
+export type ArchivedProject = z.infer<typeof ArchivedProjectSchema>;
+export type Section = z.infer<typeof SectionSchema>;
+export type CompletedTask = z.infer<typeof CompletedTaskSchema>;
+export type ProductivityStats = z.infer<typeof ProductivityStatsSchema>;
+export type Comment = z.infer<typeof CommentSchema>;
+export type Attachment = z.infer<typeof AttachmentSchema>;
 
 export interface CreateTaskOptions {
   content: string;
@@ -80,6 +206,7 @@ export interface CreateTaskOptions {
   due_datetime?: string;
   due_lang?: string;
   assignee_id?: string;
+  deadline_date?: string;
 }
 
 export interface CreateProjectOptions {
@@ -89,22 +216,217 @@ export interface CreateProjectOptions {
   view_style?: string;
 }
 
-export class TodoistService {
+export interface UpdateProjectOptions {
+  name?: string;
+  color?: string;
+  is_favorite?: boolean;
+  view_style?: string;
+}
+
+export interface CreateSectionOptions {
+  name: string;
+  project_id: string;
+  order?: number;
+}
+
+export interface CreateLabelOptions {
+  name: string;
+  order?: number;
+  color?: string;
+  is_favorite?: boolean;
+}
+
+export type UpdateLabelOptions = Partial<CreateLabelOptions>;
+
+export interface CompletedTasksQuery {
+  project_id?: string;
+  since?: string;
+  until?: string;
+  limit?: number;
+  offset?: number;
+}
+
+// Exactly one destination; subtasks always move along with their parent
+export type TaskDestination = { project_id: string } | { section_id: string } | { parent_id: string };
+
+export type CommentTarget = { task_id: string } | { project_id: string };
+
+export interface CommentAttachmentOptions {
+  file_url: string;
+  file_name?: string;
+  file_type?: string;
+  resource_type?: string;
+}
+
+export type CreateCommentOptions = CommentTarget & {
+  content: string;
+  attachment?: CommentAttachmentOptions;
+};
+
+// Sync API command, used for operations REST v2 does not support (e.g. moving tasks) and batched writes
+export interface SyncCommand {
+  type: string;
+  uuid: string;
+  temp_id?: string;
+  args: Record<string, unknown>;
+}
+
+export type SyncCommandInput = Omit<SyncCommand, 'uuid'>;
+
+// Sync API accepts at most 100 commands per request
+export const SYNC_COMMAND_LIMIT = 100;
+
+export type TaskFilter = { project_id?: string; section_id?: string; label?: string; filter?: string; lang?: string; ids?: string[] };
+
+/**
+ * Invalid task move, e.g. a missing destination or moving a task under its own subtask
+ */
+export class TaskMoveError extends AppError {
+  constructor(message: string, statusCode: 400 | 404) {
+    super(message, statusCode, statusCode === 404 ? 'not_found' : 'validation_error');
+    this.name = 'TaskMoveError';
+  }
+}
+
+/**
+ * New due for a task, in the Sync API's item_update shape
+ * A recurring task keeps its recurrence when string is its current due string
+ */
+export interface TaskReschedule {
+  id: string;
+  due: {
+    date: string;                               // YYYY-MM-DD, floating YYYY-MM-DDTHH:MM:SS, or UTC with a Z
+    string?: string;
+    lang?: string;
+    is_recurring?: boolean;
+    timezone?: string;
+  };
+}
+
+export interface MoveTaskResult {
+  task: Task;
+  subtask_ids: string[];
+}
+
+/**
+ * IDs of every task (or project) below id, found by walking parent_id links, parents before children
+ */
+function collectSubtaskIds(id: string, items: { id: string; parent_id?: string | null }[]): string[] {
+  const childrenByParent = new Map<string, string[]>();
+  for (const item of items) {
+    if (!item.parent_id) continue;
+    const siblings = childrenByParent.get(item.parent_id) ?? [];
+    siblings.push(item.id);
+    childrenByParent.set(item.parent_id, siblings);
+  }
+
+  const subtaskIds: string[] = [];
+  const pending = [...(childrenByParent.get(id) ?? [])];
+  while (pending.length > 0) {
+    const next = pending.shift()!;
+    subtaskIds.push(next);
+    pending.push(...(childrenByParent.get(next) ?? []));
+  }
+  return subtaskIds;
+}
+
+/**
+ * Convert an ISO date or datetime to the UTC "YYYY-MM-DDTHH:MM:SS" format the Sync API expects
+ * A bare date covers the whole day: start of day for since, end of day for until
+ */
+function toSyncDateTime(value: string, boundary: 'start' | 'end'): string {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return `${value}T${boundary === 'start' ? '00:00:00' : '23:59:59'}`;
+  }
+  return new Date(value).toISOString().slice(0, 19);
+}
+
+// Comments are not cached themselves, but writing one changes its task's or project's comment_count
+type RestResource = CacheResource | 'comments';
+
+const REST_RESOURCES: readonly RestResource[] = [...CACHE_RESOURCES, 'comments'];
+
+// Cached resources a REST write to each resource can change (deletes cascade to children)
+const WRITE_INVALIDATES: Record<RestResource, readonly CacheResource[]> = {
+  tasks: ['tasks'],
+  projects: ['projects', 'sections', 'tasks'],
+  sections: ['sections', 'tasks'],
+  labels: ['labels', 'tasks'],
+  comments: ['tasks', 'projects'],
+};
+
+/**
+ * Resource a REST endpoint reads or writes, e.g. /tasks/123 → tasks
+ */
+function restResource(endpoint: string): RestResource | undefined {
+  const segment = endpoint.split(/[/?]/)[1];
+  return REST_RESOURCES.find(resource => resource === segment);
+}
+
+export class TodoistService extends BaseService {
   private readonly apiToken: string;
   private readonly baseUrl = 'https://api.todoist.com/rest/v2';
+  private readonly syncBaseUrl = 'https://api.todoist.com/sync/v9';
+
+  // Local replica used when TODOIST_BACKEND=sync
+  private readonly syncStore?: SyncStore;
+  private syncInFlight?: Promise<void>;
+
+  private readonly cache: ResponseCache;
+  private user?: TodoistUser;
 
-  constructor() {
-    // Use the correct config property name from interface
-    this.apiToken = config.TODOIST_API_KEY;
+  constructor(
+    apiToken: string | undefined = config.TODOIST_API_KEY,
+    cacheStore: CacheStore = defaultCacheStore,
+    private readonly history: HistoryStore = historyStore,
+    private readonly audit: AuditLog = auditLog
+  ) {
+    super();
+
+    // Defaults to the deployment's own account; OAuth-linked accounts pass their own token
+    this.apiToken = apiToken ?? '';
     if (!this.apiToken) {
       throw new Error('Todoist API token is required. Check TODOIST_API_KEY in environment.');
     }
+
+    if (config.TODOIST_BACKEND === 'sync') {
+      this.syncStore = new SyncStore();
+    }
+
+    // Namespace cache keys by account without keeping the token in them
+    const namespace = createHash('sha256').update(this.apiToken).digest('hex').slice(0, 16);
+    this.cache = new ResponseCache(cacheStore, namespace, CACHE_TTLS);
   }
 
-  private async makeRequest(endpoint: string, options: RequestInit = {}): Promise<any> {
-    const url = `${this.baseUrl}${endpoint}`;
+  /**
+   * REST reads of cached resources go through the response cache; writes invalidate what they can change
+   */
+  private async makeRequest(endpoint: string, options: RequestInit = {}, baseUrl: string = this.baseUrl): Promise<any> {
+    const method = options.method ?? 'GET';
+    const resource = baseUrl === this.baseUrl ? restResource(endpoint) : undefined;
+
+    if (!resource) {
+      return this.sendRequest(endpoint, options, baseUrl);
+    }
+
+    if (method === 'GET') {
+      return resource === 'comments'
+        ? this.sendRequest(endpoint, options, baseUrl)
+        : this.cache.getOrLoad(resource, endpoint, () => this.sendRequest(endpoint, options, baseUrl));
+    }
+
+    try {
+      return await this.sendRequest(endpoint, options, baseUrl);
+    } finally {
+      // A failed write may still have been applied
+      await this.cache.invalidate(WRITE_INVALIDATES[resource]);
+    }
+  }
+
+  private async sendRequest(endpoint: string, options: RequestInit, baseUrl: string): Promise<any> {
+    const url = `${baseUrl}${endpoint}`;
     
-    const response = await fetch(url, {
+    const response = await this.fetchWithRetry(url, {
       ...options,
       headers: {
         'Authorization': `Bearer ${this.apiToken}`,
@@ -119,14 +441,232 @@ export class TodoistService {
         endpoint,
         error: errorText,
       });
-      throw new Error(`Todoist API error: ${response.status} ${response.statusText}`);
+      throw TodoistApiError.fromResponse(
+        response.status,
+        `Todoist API error: ${response.status} ${response.statusText}`,
+        errorText,
+        retryAfterMs(response.headers)
+      );
+    }
+
+    // Any REST write makes the local replica out of date
+    if (baseUrl === this.baseUrl && options.method && options.method !== 'GET') {
+      this.syncStore?.markStale();
+    }
+
+    // Close, reopen, delete and shared label operations return 204 with an empty body
+    if (response.status === 204) {
+      return null;
     }
 
     return response.json();
   }
 
+  private async makeSyncRequest(commands: SyncCommandInput[]): Promise<Record<string, string>> {
+    const syncCommands: SyncCommand[] = commands.map(command => ({ ...command, uuid: randomUUID() }));
+
+    let data: { sync_status: Record<string, unknown>; temp_id_mapping?: Record<string, string> };
+    try {
+      data = await this.makeRequest('/sync', {
+        method: 'POST',
+        body: JSON.stringify({ commands: syncCommands }),
+      }, this.syncBaseUrl);
+    } finally {
+      // Commands may have been partially applied even if the request failed
+      this.syncStore?.markStale();
+      await this.cache.invalidate(CACHE_RESOURCES);
+    }
+
+    // Sync API answers 200 even when individual commands fail, so check each status
+    for (const command of syncCommands) {
+      const status = data.sync_status?.[command.uuid];
+      if (status !== 'ok') {
+        appLogger.error(`Todoist Sync command ${command.type} failed`, { args: command.args, status });
+
+        // Failed commands carry the HTTP status the equivalent REST call would have returned
+        const failure = status as { error?: string; http_code?: number } | undefined;
+        throw TodoistApiError.fromResponse(
+          failure?.http_code ?? 400,
+          `Todoist Sync command ${command.type} failed: ${failure?.error ?? 'unknown error'}`,
+          JSON.stringify(status)
+        );
+      }
+    }
+
+    return data.temp_id_mapping ?? {};
+  }
+
+  /**
+   * Send Sync commands and record them in the history and audit log, with snapshots of the tasks they touch
+   */
+  private async makeRecordedSyncRequest(commands: SyncCommandInput[]): Promise<Record<string, string>> {
+    const changes = this.recording ? await this.commandChanges(commands) : [];
+    const tempIdMapping = await this.makeSyncRequest(commands);
+    for (const { change, after } of changes) {
+      await this.record(change, after);
+    }
+    return tempIdMapping;
+  }
+
+  private async commandChanges(commands: SyncCommandInput[]): Promise<{ change: HistoryChange; after?: object }[]> {
+    const taskIds = commands.filter(command => command.type.startsWith('item_') && command.args.id).map(command => String(command.args.id));
+    const tasks = new Map((taskIds.length > 0 ? await this.getTasks({ ids: taskIds }) : []).map(task => [task.id, task]));
+
+    const changes: { change: HistoryChange; after?: object }[] = [];
+    for (const command of commands) {
+      const { id, ...fields } = command.args;
+      const before = tasks.get(String(id));
+      if (!before) {
+        changes.push({ change: { action: 'command', command }, after: command.args });
+        continue;
+      }
+
+      switch (command.type) {
+        case 'item_update':
+          changes.push({ change: { action: 'task.update', before, fields: Object.keys(fields) }, after: fields });
+          break;
+        case 'item_close':
+        case 'item_complete':
+          changes.push({ change: { action: 'task.close', before, subtasks: await this.getSubtasks(before) }, after: { is_completed: true } });
+          break;
+        case 'item_delete':
+          changes.push({ change: { action: 'task.delete', before, subtasks: await this.getSubtasks(before) } });
+          break;
+        case 'item_move':
+          changes.push({ change: { action: 'task.move', before }, after: fields });
+          break;
+        default:
+          changes.push({ change: { action: 'command', command }, after: command.args });
+      }
+    }
+    return changes;
+  }
+
+  // Open subtasks of a task, which closing or deleting it takes along
+  private async getSubtasks(task: Task): Promise<Task[]> {
+    const projectTasks = await this.getTasks({ project_id: task.project_id });
+    const subtaskIds = new Set(collectSubtaskIds(task.id, projectTasks));
+    return projectTasks.filter(projectTask => subtaskIds.has(projectTask.id));
+  }
+
+  // Writes snapshot what they change when either the undo history or the audit log is on
+  private get recording(): boolean {
+    return this.history.enabled || this.audit.enabled;
+  }
+
+  /**
+   * Append a change to this account's history and the audit log
+   * The write to Todoist already happened, so a failure here is logged rather than thrown
+   */
+  private async record(change: HistoryChange, after?: object): Promise<void> {
+    if (!this.recording) return;
+
+    try {
+      const userId = await this.getUserId();
+      const entry = this.history.enabled ? await this.history.append(userId, change) : undefined;
+      if (this.audit.enabled) {
+        await this.audit.append(userId, change, after, entry?.id);
+      }
+    } catch (error) {
+      appLogger.error('Failed to record change', { action: change.action, error });
+    }
+  }
+
+  /**
+   * Bring the local replica up to date with an incremental sync
+   * Concurrent callers share a single in-flight request
+   */
+  private async refreshSyncStore(force = false): Promise<void> {
+    const store = this.syncStore;
+    if (!store || (!force && !store.needsRefresh(config.SYNC_REFRESH_INTERVAL_MS))) {
+      return;
+    }
+
+    if (!this.syncInFlight) {
+      this.syncInFlight = (async () => {
+        const invalidations = store.invalidationCount;
+        const data = await this.makeRequest('/sync', {
+          method: 'POST',
+          body: JSON.stringify({
+            sync_token: store.syncToken,
+            resource_types: SYNC_RESOURCE_TYPES,
+          }),
+        }, this.syncBaseUrl);
+
+        const response = this.parseResponse(SyncResponseSchema, data);
+        store.apply(response, invalidations);
+
+        appLogger.debug('Sync store refreshed', { full_sync: response.full_sync, ...store.counts });
+      })().finally(() => {
+        this.syncInFlight = undefined;
+      });
+    }
+
+    return this.syncInFlight;
+  }
+
+  /**
+   * Drop cached data that changed outside this server, e.g. as reported by a webhook
+   */
+  async markChanged(resources: readonly CacheResource[]): Promise<void> {
+    this.syncStore?.markStale();
+    await this.cache.invalidate(resources);
+  }
+
+  /**
+   * Todoist user behind this account
+   */
+  async getUser(): Promise<TodoistUser> {
+    if (!this.user) {
+      const data = await this.makeRequest('/sync', {
+        method: 'POST',
+        body: JSON.stringify({ sync_token: '*', resource_types: ['user'] }),
+      }, this.syncBaseUrl);
+      const { user } = this.parseResponse(SyncUserSchema, data);
+      this.user = { id: user.id, timezone: user.tz_info?.timezone };
+    }
+    return this.user;
+  }
+
+  /**
+   * Todoist user ID of this account
+   */
+  async getUserId(): Promise<string> {
+    return (await this.getUser()).id;
+  }
+
+  get usesSyncBackend(): boolean {
+    return this.syncStore !== undefined;
+  }
+
+  /**
+   * Send a batch of Sync API commands in a single request
+   * Returns the mapping from each command's temp_id to the real Todoist ID
+   */
+  async executeCommands(commands: SyncCommandInput[]): Promise<Record<string, string>> {
+    try {
+      const tempIdMapping = await this.makeRecordedSyncRequest(commands);
+      appLogger.info(`Executed ${commands.length} Sync command(s)`);
+      return tempIdMapping;
+    } catch (error) {
+      appLogger.error('Failed to execute Sync commands', { types: commands.map(command => command.type), error });
+      throw error;
+    }
+  }
+
   async healthCheck(): Promise<{ connected: boolean; projectsCount?: number; tasksCount?: number }> {
     try {
+      // The sync backend already holds everything locally, so only an incremental sync is needed
+      if (this.syncStore) {
+        await this.refreshSyncStore(true);
+        const counts = this.syncStore.counts;
+        return {
+          connected: true,
+          projectsCount: counts.projects,
+          tasksCount: counts.tasks,
+        };
+      }
+
       const [projects, tasks] = await Promise.all([
         this.getProjects(),
         this.getTasks()
@@ -143,8 +683,14 @@ export class TodoistService {
     }
   }
 
-  async getTasks(filter?: string | { project_id?: string; section_id?: string; label?: string; filter?: string; lang?: string; ids?: string[] }): Promise<Task[]> {
+  async getTasks(filter?: string | TaskFilter): Promise<Task[]> {
     try {
+      // Todoist filter queries can only be evaluated server-side
+      if (this.syncStore && typeof filter !== 'string' && !filter?.filter) {
+        await this.refreshSyncStore();
+        return this.syncStore.getTasks(filter);
+      }
+
       let endpoint = '/tasks';
       const params = new URLSearchParams();
 
@@ -166,19 +712,7 @@ export class TodoistService {
       const data = await this.makeRequest(endpoint);
       
       // Validate the response data
-      const validatedTasks = data.map((task: any, index: number) => {
-        try {
-          return TaskSchema.parse(task);
-        } catch (error) {
-          appLogger.error(`Task validation failed for task ${index}:`, {
-            task,
-            error: error instanceof Error ? error.message : 'Unknown error',
-          });
-          throw new Error(`Task validation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
-        }
-      });
-
-      return validatedTasks;
+      return data.map((task: any) => this.parseResponse(TaskSchema, task));
     } catch (error) {
       appLogger.error('Failed to get tasks', error);
       throw error;
@@ -187,8 +721,15 @@ export class TodoistService {
 
   async getTask(taskId: string): Promise<Task> {
     try {
+      // Completed tasks are not in the replica, so fall through to REST for those
+      if (this.syncStore) {
+        await this.refreshSyncStore();
+        const task = this.syncStore.getTask(taskId);
+        if (task) return task;
+      }
+
       const data = await this.makeRequest(`/tasks/${taskId}`);
-      return TaskSchema.parse(data);
+      return this.parseResponse(TaskSchema, data);
     } catch (error) {
       appLogger.error(`Failed to get task ${taskId}`, error);
       throw error;
@@ -201,7 +742,9 @@ export class TodoistService {
         method: 'POST',
         body: JSON.stringify(options),
       });
-      return TaskSchema.parse(data);
+      const task = this.parseResponse(TaskSchema, data);
+      await this.record({ action: 'task.create', task }, task);
+      return task;
     } catch (error) {
       appLogger.error('Failed to create task', { options, error });
       throw error;
@@ -210,11 +753,14 @@ export class TodoistService {
 
   async updateTask(taskId: string, updates: Partial<CreateTaskOptions>): Promise<Task> {
     try {
+      const before = this.recording ? await this.getTask(taskId) : undefined;
       const data = await this.makeRequest(`/tasks/${taskId}`, {
         method: 'POST',
         body: JSON.stringify(updates),
       });
-      return TaskSchema.parse(data);
+      const task = this.parseResponse(TaskSchema, data);
+      if (before) await this.record({ action: 'task.update', before, fields: Object.keys(updates) }, task);
+      return task;
     } catch (error) {
       appLogger.error(`Failed to update task ${taskId}`, { updates, error });
       throw error;
@@ -223,9 +769,12 @@ export class TodoistService {
 
   async closeTask(taskId: string): Promise<void> {
     try {
+      const before = this.recording ? await this.getTask(taskId) : undefined;
+      const subtasks = before ? await this.getSubtasks(before) : [];
       await this.makeRequest(`/tasks/${taskId}/close`, {
         method: 'POST',
       });
+      if (before) await this.record({ action: 'task.close', before, subtasks }, { is_completed: true });
       appLogger.info(`Task ${taskId} closed successfully`);
     } catch (error) {
       appLogger.error(`Failed to close task ${taskId}`, error);
@@ -235,9 +784,11 @@ export class TodoistService {
 
   async reopenTask(taskId: string): Promise<void> {
     try {
+      const before = this.recording ? await this.getTask(taskId) : undefined;
       await this.makeRequest(`/tasks/${taskId}/reopen`, {
         method: 'POST',
       });
+      if (before) await this.record({ action: 'task.reopen', before }, { is_completed: false });
       appLogger.info(`Task ${taskId} reopened successfully`);
     } catch (error) {
       appLogger.error(`Failed to reopen task ${taskId}`, error);
@@ -247,9 +798,12 @@ export class TodoistService {
 
   async deleteTask(taskId: string): Promise<void> {
     try {
+      const before = this.recording ? await this.getTask(taskId) : undefined;
+      const subtasks = before ? await this.getSubtasks(before) : [];
       await this.makeRequest(`/tasks/${taskId}`, {
         method: 'DELETE',
       });
+      if (before) await this.record({ action: 'task.delete', before, subtasks });
       appLogger.info(`Task ${taskId} deleted successfully`);
     } catch (error) {
       appLogger.error(`Failed to delete task ${taskId}`, error);
@@ -257,10 +811,106 @@ export class TodoistService {
     }
   }
 
+  async getCompletedTasks(query: CompletedTasksQuery = {}): Promise<CompletedTask[]> {
+    try {
+      const params = new URLSearchParams();
+      if (query.project_id) params.append('project_id', query.project_id);
+      if (query.since) params.append('since', toSyncDateTime(query.since, 'start'));
+      if (query.until) params.append('until', toSyncDateTime(query.until, 'end'));
+      if (query.limit !== undefined) params.append('limit', String(query.limit));
+      if (query.offset !== undefined) params.append('offset', String(query.offset));
+      params.append('annotate_items', 'true');
+
+      const data = await this.makeRequest(`/completed/get_all?${params.toString()}`, {}, this.syncBaseUrl);
+      return data.items.map((item: any) => this.parseResponse(CompletedTaskSchema, item));
+    } catch (error) {
+      appLogger.error('Failed to get completed tasks', { query, error });
+      throw error;
+    }
+  }
+
+  // Walks every page of completed tasks; bound the range with since to keep this cheap
+  async getAllCompletedTasks(query: Omit<CompletedTasksQuery, 'limit' | 'offset'> = {}): Promise<CompletedTask[]> {
+    const pageSize = 200;
+    const completed: CompletedTask[] = [];
+
+    for (let offset = 0; ; offset += pageSize) {
+      const page = await this.getCompletedTasks({ ...query, limit: pageSize, offset });
+      completed.push(...page);
+      if (page.length < pageSize) return completed;
+    }
+  }
+
+  // Completions for the last 7 days and 4 weeks, karma and goal streaks
+  async getProductivityStats(): Promise<ProductivityStats> {
+    try {
+      const data = await this.makeRequest('/completed/get_stats', {}, this.syncBaseUrl);
+      return this.parseResponse(ProductivityStatsSchema, data);
+    } catch (error) {
+      appLogger.error('Failed to get productivity stats', error);
+      throw error;
+    }
+  }
+
+  async moveTask(taskId: string, destination: TaskDestination): Promise<void> {
+    try {
+      await this.makeRecordedSyncRequest([{ type: 'item_move', args: { id: taskId, ...destination } }]);
+      appLogger.info(`Task ${taskId} moved successfully`, { destination });
+    } catch (error) {
+      appLogger.error(`Failed to move task ${taskId}`, { destination, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Move a task (and its subtasks) after checking that the destination exists
+   * and is not the task itself or one of its subtasks
+   */
+  async moveTaskWithSubtasks(taskId: string, destination: TaskDestination): Promise<MoveTaskResult> {
+    try {
+      const task = await this.getTask(taskId);
+      const subtaskIds = collectSubtaskIds(taskId, await this.getTasks({ project_id: task.project_id }));
+
+      await this.assertMoveDestination(taskId, destination, subtaskIds);
+      await this.moveTask(taskId, destination);
+
+      return { task: await this.getTask(taskId), subtask_ids: subtaskIds };
+    } catch (error) {
+      appLogger.error(`Failed to move task ${taskId}`, { destination, error });
+      throw error;
+    }
+  }
+
+  private async assertMoveDestination(taskId: string, destination: TaskDestination, subtaskIds: string[]): Promise<void> {
+    if ('parent_id' in destination && (destination.parent_id === taskId || subtaskIds.includes(destination.parent_id))) {
+      throw new TaskMoveError('A task cannot be moved under itself or one of its subtasks', 400);
+    }
+
+    const [kind, id, lookup] = 'project_id' in destination
+      ? ['Project', destination.project_id, () => this.getProject(destination.project_id)] as const
+      : 'section_id' in destination
+        ? ['Section', destination.section_id, () => this.getSection(destination.section_id)] as const
+        : ['Parent task', destination.parent_id, () => this.getTask(destination.parent_id)] as const;
+
+    try {
+      await lookup();
+    } catch (error) {
+      if (error instanceof TodoistNotFoundError || error instanceof TodoistBadRequestError) {
+        throw new TaskMoveError(`${kind} ${id} not found`, 404);
+      }
+      throw error;
+    }
+  }
+
   async getProjects(): Promise<Project[]> {
     try {
+      if (this.syncStore) {
+        await this.refreshSyncStore();
+        return this.syncStore.getProjects();
+      }
+
       const data = await this.makeRequest('/projects');
-      return data.map((project: any) => ProjectSchema.parse(project));
+      return data.map((project: any) => this.parseResponse(ProjectSchema, project));
     } catch (error) {
       appLogger.error('Failed to get projects', error);
       throw error;
@@ -270,7 +920,7 @@ export class TodoistService {
   async getProject(projectId: string): Promise<Project> {
     try {
       const data = await this.makeRequest(`/projects/${projectId}`);
-      return ProjectSchema.parse(data);
+      return this.parseResponse(ProjectSchema, data);
     } catch (error) {
       appLogger.error(`Failed to get project ${projectId}`, error);
       throw error;
@@ -284,31 +934,76 @@ export class TodoistService {
         method: 'POST',
         body: JSON.stringify(projectData),
       });
-      return ProjectSchema.parse(data);
+      const project = this.parseResponse(ProjectSchema, data);
+      await this.record({ action: 'project.create', project }, project);
+      return project;
     } catch (error) {
       appLogger.error('Failed to create project', { name, options, error });
       throw error;
     }
   }
 
-  async updateProject(projectId: string, updates: Partial<CreateProjectOptions>): Promise<Project> {
+  async updateProject(projectId: string, updates: UpdateProjectOptions): Promise<Project> {
     try {
+      const before = this.recording ? await this.getProject(projectId) : undefined;
       const data = await this.makeRequest(`/projects/${projectId}`, {
         method: 'POST',
         body: JSON.stringify(updates),
       });
-      return ProjectSchema.parse(data);
+      const project = this.parseResponse(ProjectSchema, data);
+      if (before) await this.record({ action: 'project.update', before, fields: Object.keys(updates) }, project);
+      return project;
     } catch (error) {
       appLogger.error(`Failed to update project ${projectId}`, { updates, error });
       throw error;
     }
   }
 
+  async getChildProjects(parentId: string): Promise<Project[]> {
+    const projects = await this.getProjects();
+    return projects.filter(project => project.parent_id === parentId);
+  }
+
+  async getArchivedProjects(): Promise<ArchivedProject[]> {
+    try {
+      const data = await this.makeRequest('/projects/get_archived', {}, this.syncBaseUrl);
+      return data.map((project: any) => this.parseResponse(ArchivedProjectSchema, project));
+    } catch (error) {
+      appLogger.error('Failed to get archived projects', error);
+      throw error;
+    }
+  }
+
+  // Archiving a project also archives its sub-projects
+  async archiveProject(projectId: string): Promise<void> {
+    try {
+      await this.makeSyncRequest([{ type: 'project_archive', args: { id: projectId } }]);
+      await this.record({ action: 'project.archive', project_id: projectId }, { is_archived: true });
+      appLogger.info(`Project ${projectId} archived successfully`);
+    } catch (error) {
+      appLogger.error(`Failed to archive project ${projectId}`, error);
+      throw error;
+    }
+  }
+
+  async unarchiveProject(projectId: string): Promise<void> {
+    try {
+      await this.makeSyncRequest([{ type: 'project_unarchive', args: { id: projectId } }]);
+      await this.record({ action: 'project.unarchive', project_id: projectId }, { is_archived: false });
+      appLogger.info(`Project ${projectId} unarchived successfully`);
+    } catch (error) {
+      appLogger.error(`Failed to unarchive project ${projectId}`, error);
+      throw error;
+    }
+  }
+
   async deleteProject(projectId: string): Promise<void> {
     try {
+      const snapshot = this.recording ? await this.snapshotProject(projectId) : undefined;
       await this.makeRequest(`/projects/${projectId}`, {
         method: 'DELETE',
       });
+      if (snapshot) await this.record(snapshot);
       appLogger.info(`Project ${projectId} deleted successfully`);
     } catch (error) {
       appLogger.error(`Failed to delete project ${projectId}`, error);
@@ -316,11 +1011,202 @@ export class TodoistService {
     }
   }
 
+  // Everything deleting a project removes: its sub-projects, their sections and their open tasks
+  private async snapshotProject(projectId: string): Promise<HistoryChange> {
+    const [before, projects, sections, tasks] = await Promise.all([
+      this.getProject(projectId),
+      this.getProjects(),
+      this.getSections(),
+      this.getTasks()
+    ]);
+
+    const childIds = collectSubtaskIds(projectId, projects);
+    const projectIds = new Set([projectId, ...childIds]);
+    return {
+      action: 'project.delete',
+      before,
+      projects: childIds.map(id => projects.find(project => project.id === id)!),
+      sections: sections.filter(section => projectIds.has(section.project_id)),
+      tasks: tasks.filter(task => projectIds.has(task.project_id))
+    };
+  }
+
+  // Sections methods
+  async getSections(projectId?: string): Promise<Section[]> {
+    try {
+      if (this.syncStore) {
+        await this.refreshSyncStore();
+        return this.syncStore.getSections(projectId);
+      }
+
+      const endpoint = projectId ? `/sections?project_id=${encodeURIComponent(projectId)}` : '/sections';
+      const data = await this.makeRequest(endpoint);
+      return data.map((section: any) => this.parseResponse(SectionSchema, section));
+    } catch (error) {
+      appLogger.error('Failed to get sections', { projectId, error });
+      throw error;
+    }
+  }
+
+  async getSection(sectionId: string): Promise<Section> {
+    try {
+      const data = await this.makeRequest(`/sections/${sectionId}`);
+      return this.parseResponse(SectionSchema, data);
+    } catch (error) {
+      appLogger.error(`Failed to get section ${sectionId}`, error);
+      throw error;
+    }
+  }
+
+  async createSection(options: CreateSectionOptions): Promise<Section> {
+    try {
+      const data = await this.makeRequest('/sections', {
+        method: 'POST',
+        body: JSON.stringify(options),
+      });
+      const section = this.parseResponse(SectionSchema, data);
+      await this.record({ action: 'section.create', section }, section);
+      return section;
+    } catch (error) {
+      appLogger.error('Failed to create section', { options, error });
+      throw error;
+    }
+  }
+
+  async updateSection(sectionId: string, name: string): Promise<Section> {
+    try {
+      const before = this.recording ? await this.getSection(sectionId) : undefined;
+      const data = await this.makeRequest(`/sections/${sectionId}`, {
+        method: 'POST',
+        body: JSON.stringify({ name }),
+      });
+      const section = this.parseResponse(SectionSchema, data);
+      if (before) await this.record({ action: 'section.update', before }, section);
+      return section;
+    } catch (error) {
+      appLogger.error(`Failed to update section ${sectionId}`, { name, error });
+      throw error;
+    }
+  }
+
+  async deleteSection(sectionId: string): Promise<void> {
+    try {
+      const before = this.recording ? await this.getSection(sectionId) : undefined;
+      const tasks = before ? await this.getTasks({ section_id: sectionId }) : [];
+      await this.makeRequest(`/sections/${sectionId}`, {
+        method: 'DELETE',
+      });
+      if (before) await this.record({ action: 'section.delete', before, tasks });
+      appLogger.info(`Section ${sectionId} deleted successfully`);
+    } catch (error) {
+      appLogger.error(`Failed to delete section ${sectionId}`, error);
+      throw error;
+    }
+  }
+
+  async rescheduleTasks(reschedules: TaskReschedule[]): Promise<void> {
+    try {
+      await this.makeRecordedSyncRequest(reschedules.map(({ id, due }) => ({
+        type: 'item_update',
+        args: { id, due },
+      })));
+      appLogger.info(`Rescheduled ${reschedules.length} task(s)`);
+    } catch (error) {
+      appLogger.error('Failed to reschedule tasks', { taskIds: reschedules.map(({ id }) => id), error });
+      throw error;
+    }
+  }
+
+  async moveTasksToSection(taskIds: string[], sectionId: string): Promise<void> {
+    try {
+      await this.makeRecordedSyncRequest(taskIds.map(id => ({
+        type: 'item_move',
+        args: { id, section_id: sectionId },
+      })));
+      appLogger.info(`Moved ${taskIds.length} task(s) to section ${sectionId}`);
+    } catch (error) {
+      appLogger.error(`Failed to move tasks to section ${sectionId}`, { taskIds, error });
+      throw error;
+    }
+  }
+
+  // Comments methods
+  async getComments(target: CommentTarget): Promise<Comment[]> {
+    try {
+      const params = new URLSearchParams(target);
+      const data = await this.makeRequest(`/comments?${params.toString()}`);
+      return data.map((comment: any) => this.parseResponse(CommentSchema, comment));
+    } catch (error) {
+      appLogger.error('Failed to get comments', { target, error });
+      throw error;
+    }
+  }
+
+  async getComment(commentId: string): Promise<Comment> {
+    try {
+      const data = await this.makeRequest(`/comments/${commentId}`);
+      return this.parseResponse(CommentSchema, data);
+    } catch (error) {
+      appLogger.error(`Failed to get comment ${commentId}`, error);
+      throw error;
+    }
+  }
+
+  async createComment(options: CreateCommentOptions): Promise<Comment> {
+    try {
+      const data = await this.makeRequest('/comments', {
+        method: 'POST',
+        body: JSON.stringify(options),
+      });
+      const comment = this.parseResponse(CommentSchema, data);
+      await this.record({ action: 'comment.create', comment }, comment);
+      return comment;
+    } catch (error) {
+      appLogger.error('Failed to create comment', { options, error });
+      throw error;
+    }
+  }
+
+  async updateComment(commentId: string, content: string): Promise<Comment> {
+    try {
+      const before = this.recording ? await this.getComment(commentId) : undefined;
+      const data = await this.makeRequest(`/comments/${commentId}`, {
+        method: 'POST',
+        body: JSON.stringify({ content }),
+      });
+      const comment = this.parseResponse(CommentSchema, data);
+      if (before) await this.record({ action: 'comment.update', before }, comment);
+      return comment;
+    } catch (error) {
+      appLogger.error(`Failed to update comment ${commentId}`, error);
+      throw error;
+    }
+  }
+
+  async deleteComment(commentId: string): Promise<void> {
+    try {
+      const before = this.recording ? await this.getComment(commentId) : undefined;
+      await this.makeRequest(`/comments/${commentId}`, {
+        method: 'DELETE',
+      });
+      if (before) await this.record({ action: 'comment.delete', before });
+      appLogger.info(`Comment ${commentId} deleted successfully`);
+    } catch (error) {
+      appLogger.error(`Failed to delete comment ${commentId}`, error);
+      throw error;
+    }
+  }
+
   // Labels methods
   async getLabels(): Promise<Label[]> {
     try {
+      if (this.syncStore) {
+        await this.refreshSyncStore();
+        return this.syncStore.getLabels();
+      }
+
       const data = await this.makeRequest('/labels');
-      return data.map((label: any) => LabelSchema.parse(label));
+      return data.map((label: any) => this.parseResponse(LabelSchema, label));
     } catch (error) {
       appLogger.error('Failed to get labels', error);
       throw error;
@@ -330,13 +1216,100 @@ export class TodoistService {
   async getLabel(labelId: string): Promise<Label> {
     try {
       const data = await this.makeRequest(`/labels/${labelId}`);
-      return LabelSchema.parse(data);
+      return this.parseResponse(LabelSchema, data);
     } catch (error) {
       appLogger.error(`Failed to get label ${labelId}`, error);
       throw error;
     }
   }
-}
 
-// Export singleton instance for use in routes
-export const todoistService = new TodoistService();
\ No newline at end of file
+  async createLabel(options: CreateLabelOptions): Promise<Label> {
+    try {
+      const data = await this.makeRequest('/labels', {
+        method: 'POST',
+        body: JSON.stringify(options),
+      });
+      const label = this.parseResponse(LabelSchema, data);
+      await this.record({ action: 'label.create', label }, label);
+      return label;
+    } catch (error) {
+      appLogger.error('Failed to create label', { options, error });
+      throw error;
+    }
+  }
+
+  // Renaming a personal label also renames it on every task that uses it
+  async updateLabel(labelId: string, updates: UpdateLabelOptions): Promise<Label> {
+    try {
+      const before = this.recording ? await this.getLabel(labelId) : undefined;
+      const data = await this.makeRequest(`/labels/${labelId}`, {
+        method: 'POST',
+        body: JSON.stringify(updates),
+      });
+      const label = this.parseResponse(LabelSchema, data);
+      if (before) await this.record({ action: 'label.update', before, fields: Object.keys(updates) }, label);
+      return label;
+    } catch (error) {
+      appLogger.error(`Failed to update label ${labelId}`, { updates, error });
+      throw error;
+    }
+  }
+
+  async deleteLabel(labelId: string): Promise<void> {
+    try {
+      const before = this.recording ? await this.getLabel(labelId) : undefined;
+      const labelled = before ? await this.getTasks({ label: before.name }) : [];
+      await this.makeRequest(`/labels/${labelId}`, {
+        method: 'DELETE',
+      });
+      if (before) await this.record({ action: 'label.delete', before, task_ids: labelled.map(task => task.id) });
+      appLogger.info(`Label ${labelId} deleted successfully`);
+    } catch (error) {
+      appLogger.error(`Failed to delete label ${labelId}`, error);
+      throw error;
+    }
+  }
+
+  // Shared labels are plain names used on tasks (including ones without a personal label)
+  async getSharedLabels(omitPersonal = false): Promise<string[]> {
+    try {
+      const endpoint = omitPersonal ? '/labels/shared?omit_personal=true' : '/labels/shared';
+      const data = await this.makeRequest(endpoint);
+      return this.parseResponse(z.array(z.string()), data);
+    } catch (error) {
+      appLogger.error('Failed to get shared labels', error);
+      throw error;
+    }
+  }
+
+  // Renames the label on every task in a single server-side operation
+  async renameSharedLabel(name: string, newName: string): Promise<void> {
+    try {
+      await this.makeRequest('/labels/shared/rename', {
+        method: 'POST',
+        body: JSON.stringify({ name, new_name: newName }),
+      });
+      await this.record({ action: 'label.rename_shared', name, new_name: newName }, { name: newName });
+      appLogger.info(`Shared label ${name} renamed to ${newName}`);
+    } catch (error) {
+      appLogger.error(`Failed to rename shared label ${name}`, { newName, error });
+      throw error;
+    }
+  }
+
+  // Removes the label from every task that uses it
+  async removeSharedLabel(name: string): Promise<void> {
+    try {
+      const labelled = this.recording ? await this.getTasks({ label: name }) : [];
+      await this.makeRequest('/labels/shared/remove', {
+        method: 'POST',
+        body: JSON.stringify({ name }),
+      });
+      await this.record({ action: 'label.remove_shared', name, task_ids: labelled.map(task => task.id) });
+      appLogger.info(`Shared label ${name} removed`);
+    } catch (error) {
+      appLogger.error(`Failed to remove shared label ${name}`, error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,55 @@
+import { encrypt, decrypt, EncryptedValue } from '../utils/crypto';
+import { JsonFileStore } from './json-file-store';
+
+interface StoredToken {
+  token: EncryptedValue;
+  linked_at: string;
+}
+
+export interface LinkedAccount {
+  client_id: string;
+  linked_at: string;
+}
+
+/**
+ * File-backed store of Todoist access tokens per API client, encrypted at rest
+ */
+export class TokenStore {
+  private readonly file: JsonFileStore<Record<string, StoredToken>>;
+
+  constructor(
+    filePath: string,
+    private readonly key: Buffer
+  ) {
+    this.file = new JsonFileStore(filePath, 'token store', () => ({}), 2);
+  }
+
+  async get(clientId: string): Promise<string | undefined> {
+    const stored = (await this.file.load())[clientId];
+    return stored ? decrypt(stored.token, this.key) : undefined;
+  }
+
+  async getAccount(clientId: string): Promise<LinkedAccount | undefined> {
+    const stored = (await this.file.load())[clientId];
+    return stored ? { client_id: clientId, linked_at: stored.linked_at } : undefined;
+  }
+
+  async set(clientId: string, accessToken: string): Promise<void> {
+    const tokens = await this.file.load();
+    tokens[clientId] = {
+      token: encrypt(accessToken, this.key),
+      linked_at: new Date().toISOString()
+    };
+    await this.file.save();
+  }
+
+  async delete(clientId: string): Promise<boolean> {
+    const tokens = await this.file.load();
+    if (!tokens[clientId]) return false;
+
+    delete tokens[clientId];
+    await this.file.save();
+    return true;
+  }
+
+}
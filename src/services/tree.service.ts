@@ -0,0 +1,132 @@
+import { TodoistService, Task, Project, Section, CompletedTask } from './todoist.service';
+
+export interface TreeCounts {
+  open: number;
+  completed: number;
+  total: number;
+}
+
+export interface TaskNode extends Task {
+  subtasks: TaskNode[];
+  subtask_counts: TreeCounts;                   // Rolled up over every level below this task
+}
+
+export interface SectionNode {
+  section: Section;
+  tasks: TaskNode[];
+  counts: TreeCounts;
+}
+
+export interface ProjectTree {
+  project: Project;
+  tasks: TaskNode[];                            // Tasks that are not in any section
+  sections: SectionNode[];
+  counts: TreeCounts;                           // Completed counts only cover the history that was fetched
+}
+
+const byOrder = <T extends { order: number }>(a: T, b: T): number => a.order - b.order;
+
+function counts(open: number, completed: number): TreeCounts {
+  return { open, completed, total: open + completed };
+}
+
+function groupBy<T>(items: T[], key: (item: T) => string | null): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const value = key(item);
+    if (value === null) continue;
+    groups.set(value, [...(groups.get(value) ?? []), item]);
+  }
+  return groups;
+}
+
+/**
+ * Nest active tasks under their parents, sorted by order
+ * Completed tasks are not returned as nodes but are counted in each parent's subtask_counts
+ */
+export function buildTaskTree(tasks: Task[], completed: CompletedTask[] = []): TaskNode[] {
+  const taskIds = new Set(tasks.map(task => task.id));
+  const childrenByParent = groupBy(tasks, task => task.parent_id);
+  const completedByParent = groupBy(completed, item => item.parent_id);
+
+  // Completed subtasks can have completed subtasks of their own
+  const countCompleted = (parentId: string): number =>
+    (completedByParent.get(parentId) ?? [])
+      .reduce((sum, item) => sum + 1 + countCompleted(item.task_id), 0);
+
+  const toNode = (task: Task): TaskNode => {
+    const subtasks = (childrenByParent.get(task.id) ?? []).sort(byOrder).map(toNode);
+    const open = subtasks.reduce((sum, subtask) => sum + 1 + subtask.subtask_counts.open, 0);
+    const done = countCompleted(task.id) +
+      subtasks.reduce((sum, subtask) => sum + subtask.subtask_counts.completed, 0);
+
+    return { ...task, subtasks, subtask_counts: counts(open, done) };
+  };
+
+  // Roots are tasks whose parent is not in the list (top-level, or filtered out)
+  return tasks
+    .filter(task => !task.parent_id || !taskIds.has(task.parent_id))
+    .sort(byOrder)
+    .map(toNode);
+}
+
+/**
+ * Build project → section → task → subtask nesting with rolled-up counts
+ */
+export function buildProjectTree(
+  project: Project,
+  sections: Section[],
+  tasks: Task[],
+  completed: CompletedTask[] = []
+): ProjectTree {
+  const roots = buildTaskTree(tasks, completed);
+  const openIn = (nodes: TaskNode[]): number =>
+    nodes.reduce((sum, node) => sum + 1 + node.subtask_counts.open, 0);
+  const completedIn = (sectionId: string | null): number =>
+    completed.filter(item => item.section_id === sectionId).length;
+
+  const sectionNodes = [...sections].sort(byOrder).map(section => {
+    const sectionTasks = roots.filter(task => task.section_id === section.id);
+    return {
+      section,
+      tasks: sectionTasks,
+      counts: counts(openIn(sectionTasks), completedIn(section.id))
+    };
+  });
+
+  const unsectioned = roots.filter(task => !task.section_id || !sections.some(section => section.id === task.section_id));
+
+  return {
+    project,
+    tasks: unsectioned,
+    sections: sectionNodes,
+    counts: counts(tasks.length, completed.length)
+  };
+}
+
+/**
+ * Fetch everything needed for a project tree
+ * Completed history is fetched back to the oldest open task, since a completed subtask
+ * of an open task cannot predate its parent
+ */
+export async function loadProjectTree(
+  todoistService: TodoistService,
+  projectId: string,
+  includeCompleted = true
+): Promise<ProjectTree> {
+  const [project, sections, tasks] = await Promise.all([
+    todoistService.getProject(projectId),
+    todoistService.getSections(projectId),
+    todoistService.getTasks({ project_id: projectId })
+  ]);
+
+  const oldest = tasks.reduce<string | undefined>(
+    (min, task) => (!min || task.created_at < min ? task.created_at : min),
+    undefined
+  );
+  const completed = includeCompleted && oldest
+    ? await todoistService.getAllCompletedTasks({ project_id: projectId, since: oldest })
+    : [];
+
+  return buildProjectTree(project, sections, tasks, completed);
+}
@@ -0,0 +1,57 @@
+import { z } from 'zod';
+import { ToolRegistrar } from '../types/mcp.types';
+import { CreateCommentSchema, UpdateCommentSchema } from '../utils/validation';
+import { runTool } from './tool-result';
+
+const CommentTargetShape = {
+  task_id: z.string().optional().describe('Task the comment belongs to'),
+  project_id: z.string().optional().describe('Project the comment belongs to (when not on a task)')
+};
+
+const CommentIdShape = {
+  comment_id: z.string().describe('Todoist comment ID')
+};
+
+/**
+ * Resolve the task_id / project_id pair to exactly one comment target
+ */
+function toTarget(task_id?: string, project_id?: string): { task_id: string } | { project_id: string } {
+  if (task_id && !project_id) return { task_id };
+  if (project_id && !task_id) return { project_id };
+  throw new Error('Provide exactly one of task_id or project_id');
+}
+
+export const registerCommentTools: ToolRegistrar = (server, todoistService) => {
+  server.registerTool('get_comments', {
+    title: 'List comments',
+    description: 'List comments on a task or a project',
+    inputSchema: CommentTargetShape,
+    annotations: { readOnlyHint: true }
+  }, ({ task_id, project_id }) => runTool('get_comments', async () =>
+    todoistService.getComments(toTarget(task_id, project_id))
+  ));
+
+  server.registerTool('create_comment', {
+    title: 'Add comment',
+    description: 'Add a comment, optionally with a file attachment, to a task or a project',
+    inputSchema: { ...CommentTargetShape, ...CreateCommentSchema.shape }
+  }, ({ task_id, project_id, ...commentData }) => runTool('create_comment', async () =>
+    todoistService.createComment({ ...toTarget(task_id, project_id), ...commentData })
+  ));
+
+  server.registerTool('update_comment', {
+    title: 'Edit comment',
+    description: 'Replace the content of a comment',
+    inputSchema: { ...CommentIdShape, ...UpdateCommentSchema.shape }
+  }, ({ comment_id, content }) => runTool('update_comment', () => todoistService.updateComment(comment_id, content)));
+
+  server.registerTool('delete_comment', {
+    title: 'Delete comment',
+    description: 'Permanently delete a comment',
+    inputSchema: CommentIdShape,
+    annotations: { destructiveHint: true }
+  }, ({ comment_id }) => runTool('delete_comment', async () => {
+    await todoistService.deleteComment(comment_id);
+    return { comment_id, deleted: true };
+  }));
+};
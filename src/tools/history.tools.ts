@@ -0,0 +1,35 @@
+import { z } from 'zod';
+import { ToolRegistrar } from '../types/mcp.types';
+import { HistoryService, undoScope } from '../services/history.service';
+import { ForbiddenError } from '../middleware/error-handler';
+import { GetHistoryQuerySchema } from '../utils/validation';
+import { runTool } from './tool-result';
+
+export const registerHistoryTools: ToolRegistrar = (server, todoistService, scopes) => {
+  const historyService = new HistoryService(todoistService);
+
+  server.registerTool('get_history', {
+    title: 'List recent changes',
+    description: 'List changes made through this server, newest first, each with the snapshot taken before it',
+    inputSchema: GetHistoryQuerySchema.shape,
+    annotations: { readOnlyHint: true }
+  }, (query) => runTool('get_history', () => historyService.list(query)));
+
+  server.registerTool('undo_change', {
+    title: 'Undo change',
+    description: 'Reverse a change from get_history: recreate deleted tasks (with subtasks, labels and due dates), projects, sections, labels or comments, reopen closed tasks, or restore updated fields. Recreated items get new IDs',
+    inputSchema: {
+      history_id: z.string().describe('ID of the history entry to undo')
+    }
+  }, ({ history_id }) => runTool('undo_change', async () => {
+    const entry = await historyService.get(history_id);
+
+    // As over REST, undoing writes to whatever the change touched, so it needs that resource's write scope
+    const required = undoScope(entry);
+    if (scopes && !scopes.includes(required)) {
+      throw new ForbiddenError(`Insufficient scope: undoing ${entry.action} requires ${required}`, { required_scope: required });
+    }
+
+    return historyService.undo(entry.id);
+  }));
+};
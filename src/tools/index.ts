@@ -0,0 +1,31 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { TodoistService } from '../services/todoist.service';
+import { ToolRegistrar } from '../types/mcp.types';
+import type { Scope } from '../middleware/auth';
+import { withToolScopes } from './tool-scopes';
+import { registerTaskTools } from './tasks.tools';
+import { registerProjectTools } from './projects.tools';
+import { registerSectionTools } from './sections.tools';
+import { registerCommentTools } from './comments.tools';
+import { registerLabelTools } from './labels.tools';
+import { registerHistoryTools } from './history.tools';
+
+const toolRegistrars: ToolRegistrar[] = [
+  registerTaskTools,
+  registerProjectTools,
+  registerSectionTools,
+  registerCommentTools,
+  registerLabelTools,
+  registerHistoryTools
+];
+
+/**
+ * Register every Todoist tool on the given MCP server
+ * With scopes (an HTTP client), only the tools those scopes allow are usable
+ */
+export function registerTools(server: McpServer, todoistService: TodoistService, scopes?: readonly Scope[]): void {
+  const target = scopes ? withToolScopes(server, scopes) : server;
+  for (const register of toolRegistrars) {
+    register(target, todoistService, scopes);
+  }
+}
@@ -0,0 +1,78 @@
+import { z } from 'zod';
+import { ToolRegistrar } from '../types/mcp.types';
+import {
+  CreateLabelSchema,
+  UpdateLabelSchema,
+  RenameSharedLabelSchema,
+  RemoveSharedLabelSchema
+} from '../utils/validation';
+import { runTool } from './tool-result';
+
+const LabelIdShape = {
+  label_id: z.string().describe('Todoist label ID')
+};
+
+export const registerLabelTools: ToolRegistrar = (server, todoistService) => {
+  server.registerTool('get_labels', {
+    title: 'List labels',
+    description: 'List all personal labels',
+    annotations: { readOnlyHint: true }
+  }, () => runTool('get_labels', () => todoistService.getLabels()));
+
+  server.registerTool('get_label', {
+    title: 'Get label',
+    description: 'Get a single personal label by ID',
+    inputSchema: LabelIdShape,
+    annotations: { readOnlyHint: true }
+  }, ({ label_id }) => runTool('get_label', () => todoistService.getLabel(label_id)));
+
+  server.registerTool('create_label', {
+    title: 'Create label',
+    description: 'Create a new personal label',
+    inputSchema: CreateLabelSchema.shape
+  }, (labelData) => runTool('create_label', () => todoistService.createLabel(labelData)));
+
+  server.registerTool('update_label', {
+    title: 'Update label',
+    description: 'Rename, recolor, reorder or (un)favorite a personal label; a rename also applies to every task using it',
+    inputSchema: { ...LabelIdShape, ...UpdateLabelSchema.shape }
+  }, ({ label_id, ...updates }) => runTool('update_label', () => todoistService.updateLabel(label_id, updates)));
+
+  server.registerTool('delete_label', {
+    title: 'Delete label',
+    description: 'Delete a personal label and remove it from every task',
+    inputSchema: LabelIdShape,
+    annotations: { destructiveHint: true }
+  }, ({ label_id }) => runTool('delete_label', async () => {
+    await todoistService.deleteLabel(label_id);
+    return { label_id, deleted: true };
+  }));
+
+  server.registerTool('get_shared_labels', {
+    title: 'List shared labels',
+    description: 'List every label name used on tasks, including names without a personal label',
+    inputSchema: {
+      omit_personal: z.boolean().optional().describe('Exclude names that also exist as personal labels')
+    },
+    annotations: { readOnlyHint: true }
+  }, ({ omit_personal }) => runTool('get_shared_labels', () => todoistService.getSharedLabels(omit_personal)));
+
+  server.registerTool('rename_shared_label', {
+    title: 'Rename shared label',
+    description: 'Rename a label on every task that uses it',
+    inputSchema: RenameSharedLabelSchema.shape
+  }, ({ name, new_name }) => runTool('rename_shared_label', async () => {
+    await todoistService.renameSharedLabel(name, new_name);
+    return { name: new_name, previous_name: name };
+  }));
+
+  server.registerTool('remove_shared_label', {
+    title: 'Remove shared label',
+    description: 'Remove a label from every task that uses it',
+    inputSchema: RemoveSharedLabelSchema.shape,
+    annotations: { destructiveHint: true }
+  }, ({ name }) => runTool('remove_shared_label', async () => {
+    await todoistService.removeSharedLabel(name);
+    return { name, removed: true };
+  }));
+};
@@ -0,0 +1,87 @@
+import { z } from 'zod';
+import { ToolRegistrar } from '../types/mcp.types';
+import { CreateProjectSchema, UpdateProjectSchema, GetProjectsQuerySchema } from '../utils/validation';
+import { loadProjectTree } from '../services/tree.service';
+import { runTool } from './tool-result';
+
+const ProjectIdShape = {
+  project_id: z.string().describe('Todoist project ID')
+};
+
+export const registerProjectTools: ToolRegistrar = (server, todoistService) => {
+  server.registerTool('get_projects', {
+    title: 'List projects',
+    description: 'List all projects, or only the direct children of parent_id',
+    inputSchema: GetProjectsQuerySchema.shape,
+    annotations: { readOnlyHint: true }
+  }, ({ parent_id }) => runTool('get_projects', () =>
+    parent_id ? todoistService.getChildProjects(parent_id) : todoistService.getProjects()
+  ));
+
+  server.registerTool('get_archived_projects', {
+    title: 'List archived projects',
+    description: 'List archived projects',
+    annotations: { readOnlyHint: true }
+  }, () => runTool('get_archived_projects', () => todoistService.getArchivedProjects()));
+
+  server.registerTool('get_project', {
+    title: 'Get project',
+    description: 'Get a single project by ID',
+    inputSchema: ProjectIdShape,
+    annotations: { readOnlyHint: true }
+  }, ({ project_id }) => runTool('get_project', () => todoistService.getProject(project_id)));
+
+  server.registerTool('get_project_tree', {
+    title: 'Get project tree',
+    description: 'Project structure as sections → tasks → subtasks sorted by order, with open/completed counts rolled up at every level',
+    inputSchema: {
+      ...ProjectIdShape,
+      include_completed: z.boolean().default(true).describe('Count completed subtasks (needs extra history requests)')
+    },
+    annotations: { readOnlyHint: true }
+  }, ({ project_id, include_completed }) => runTool('get_project_tree', () =>
+    loadProjectTree(todoistService, project_id, include_completed)
+  ));
+
+  server.registerTool('create_project', {
+    title: 'Create project',
+    description: 'Create a new project, optionally nested under a parent project',
+    inputSchema: CreateProjectSchema.shape
+  }, ({ name, ...options }) => runTool('create_project', () => todoistService.createProject(name, options)));
+
+  server.registerTool('update_project', {
+    title: 'Update project',
+    description: 'Rename, recolor, (un)favorite or change the view style of a project',
+    inputSchema: { ...ProjectIdShape, ...UpdateProjectSchema.shape }
+  }, ({ project_id, ...updates }) => runTool('update_project', () => todoistService.updateProject(project_id, updates)));
+
+  server.registerTool('delete_project', {
+    title: 'Delete project',
+    description: 'Permanently delete a project and all of its tasks',
+    inputSchema: ProjectIdShape,
+    annotations: { destructiveHint: true }
+  }, ({ project_id }) => runTool('delete_project', async () => {
+    await todoistService.deleteProject(project_id);
+    return { project_id, deleted: true };
+  }));
+
+  server.registerTool('archive_project', {
+    title: 'Archive project',
+    description: 'Archive a project and its sub-projects',
+    inputSchema: ProjectIdShape,
+    annotations: { idempotentHint: true }
+  }, ({ project_id }) => runTool('archive_project', async () => {
+    await todoistService.archiveProject(project_id);
+    return { project_id, archived: true };
+  }));
+
+  server.registerTool('unarchive_project', {
+    title: 'Unarchive project',
+    description: 'Restore an archived project',
+    inputSchema: ProjectIdShape,
+    annotations: { idempotentHint: true }
+  }, ({ project_id }) => runTool('unarchive_project', async () => {
+    await todoistService.unarchiveProject(project_id);
+    return { project_id, archived: false };
+  }));
+};
@@ -0,0 +1,60 @@
+import { z } from 'zod';
+import { ToolRegistrar } from '../types/mcp.types';
+import {
+  GetSectionsQuerySchema,
+  CreateSectionSchema,
+  UpdateSectionSchema,
+  MoveTasksToSectionSchema
+} from '../utils/validation';
+import { runTool } from './tool-result';
+
+const SectionIdShape = {
+  section_id: z.string().describe('Todoist section ID')
+};
+
+export const registerSectionTools: ToolRegistrar = (server, todoistService) => {
+  server.registerTool('get_sections', {
+    title: 'List sections',
+    description: 'List sections, optionally only those of one project',
+    inputSchema: GetSectionsQuerySchema.shape,
+    annotations: { readOnlyHint: true }
+  }, ({ project_id }) => runTool('get_sections', () => todoistService.getSections(project_id)));
+
+  server.registerTool('get_section', {
+    title: 'Get section',
+    description: 'Get a single section by ID',
+    inputSchema: SectionIdShape,
+    annotations: { readOnlyHint: true }
+  }, ({ section_id }) => runTool('get_section', () => todoistService.getSection(section_id)));
+
+  server.registerTool('create_section', {
+    title: 'Create section',
+    description: 'Create a new section in a project',
+    inputSchema: CreateSectionSchema.shape
+  }, (sectionData) => runTool('create_section', () => todoistService.createSection(sectionData)));
+
+  server.registerTool('update_section', {
+    title: 'Rename section',
+    description: 'Rename a section',
+    inputSchema: { ...SectionIdShape, ...UpdateSectionSchema.shape }
+  }, ({ section_id, name }) => runTool('update_section', () => todoistService.updateSection(section_id, name)));
+
+  server.registerTool('delete_section', {
+    title: 'Delete section',
+    description: 'Permanently delete a section and all of its tasks',
+    inputSchema: SectionIdShape,
+    annotations: { destructiveHint: true }
+  }, ({ section_id }) => runTool('delete_section', async () => {
+    await todoistService.deleteSection(section_id);
+    return { section_id, deleted: true };
+  }));
+
+  server.registerTool('move_tasks_to_section', {
+    title: 'Move tasks to section',
+    description: 'Move existing tasks into a section',
+    inputSchema: { ...SectionIdShape, ...MoveTasksToSectionSchema.shape }
+  }, ({ section_id, task_ids }) => runTool('move_tasks_to_section', async () => {
+    await todoistService.moveTasksToSection(task_ids, section_id);
+    return { section_id, task_ids, moved: true };
+  }));
+};
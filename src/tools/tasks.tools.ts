@@ -0,0 +1,179 @@
+import { z } from 'zod';
+import { ToolRegistrar } from '../types/mcp.types';
+import { BatchService } from '../services/batch.service';
+import { buildStatsReport } from '../services/stats.service';
+import { buildTaskTree } from '../services/tree.service';
+import { NameResolver, toTaskDestination } from '../services/name-resolver.service';
+import { DueDateService } from '../services/due-dates.service';
+import { loadAgenda } from '../services/agenda.service';
+import { BulkTaskService } from '../services/bulk.service';
+import {
+  CreateTaskRequestSchema,
+  UpdateTaskSchema,
+  GetTasksQuerySchema,
+  GetCompletedTasksQuerySchema,
+  MoveTaskRequestSchema,
+  GetOccurrencesQuerySchema,
+  PostponeTaskSchema,
+  RescheduleOverdueSchema,
+  GetAgendaQuerySchema,
+  BulkTaskRequestSchema,
+  BatchRequestSchema
+} from '../utils/validation';
+import { runTool } from './tool-result';
+
+const TaskIdShape = {
+  task_id: z.string().describe('Todoist task ID')
+};
+
+export const registerTaskTools: ToolRegistrar = (server, todoistService) => {
+  const nameResolver = new NameResolver(todoistService);
+  const dueDates = new DueDateService(todoistService);
+  const bulk = new BulkTaskService(todoistService);
+
+  server.registerTool('get_tasks', {
+    title: 'List tasks',
+    description: 'List active tasks, optionally filtered by project, section, label, Todoist filter query or comma-separated IDs; view=tree nests subtasks under their parents',
+    inputSchema: GetTasksQuerySchema.shape,
+    annotations: { readOnlyHint: true }
+  }, ({ view, ...query }) => runTool('get_tasks', async () => {
+    const tasks = await todoistService.getTasks(query);
+    return view === 'tree' ? buildTaskTree(tasks) : tasks;
+  }));
+
+  server.registerTool('get_completed_tasks', {
+    title: 'List completed tasks',
+    description: 'Completed task history, newest first, optionally filtered by project and an ISO since/until range; page with limit/offset',
+    inputSchema: GetCompletedTasksQuerySchema.innerType().shape,
+    annotations: { readOnlyHint: true }
+  }, (query) => runTool('get_completed_tasks', async () =>
+    todoistService.getCompletedTasks(GetCompletedTasksQuerySchema.parse(query))
+  ));
+
+  server.registerTool('get_productivity_stats', {
+    title: 'Productivity stats',
+    description: 'Completions per day (last 7 days) and week (last 4 weeks), karma, goal streaks and a per-project breakdown',
+    annotations: { readOnlyHint: true }
+  }, () => runTool('get_productivity_stats', async () => {
+    const [stats, projects] = await Promise.all([
+      todoistService.getProductivityStats(),
+      todoistService.getProjects()
+    ]);
+    return buildStatsReport(stats, projects);
+  }));
+
+  server.registerTool('get_agenda', {
+    title: 'Agenda',
+    description: 'Overdue tasks, then tasks grouped by day for the next `days` days (default 7) in a timezone (default: the user\'s Todoist timezone); timed tasks come first in time order',
+    inputSchema: GetAgendaQuerySchema.shape,
+    annotations: { readOnlyHint: true }
+  }, (query) => runTool('get_agenda', () => loadAgenda(todoistService, query)));
+
+  server.registerTool('get_task', {
+    title: 'Get task',
+    description: 'Get a single active task by ID',
+    inputSchema: TaskIdShape,
+    annotations: { readOnlyHint: true }
+  }, ({ task_id }) => runTool('get_task', () => todoistService.getTask(task_id)));
+
+  server.registerTool('create_task', {
+    title: 'Create task',
+    description: 'Create a new task; the project, section and parent task can be given by ID or by name (project_name, section_name, parent_content), and create_missing creates a project or section that does not exist',
+    inputSchema: CreateTaskRequestSchema.innerType().shape
+  }, (input) => runTool('create_task', async () => {
+    const { project_name, section_name, parent_content, create_missing, ...taskData } = CreateTaskRequestSchema.parse(input);
+    const { created, ...references } = await nameResolver.resolveTaskReferences({
+      ...taskData,
+      project_name,
+      section_name,
+      parent_content,
+      create_missing
+    });
+    const task = await todoistService.createTask({ ...taskData, ...references });
+    return created.length > 0 ? { task, created } : task;
+  }));
+
+  server.registerTool('update_task', {
+    title: 'Update task',
+    description: 'Update the content, description, labels, priority, due date or assignee of a task',
+    inputSchema: { ...TaskIdShape, ...UpdateTaskSchema.shape }
+  }, ({ task_id, ...updates }) => runTool('update_task', () => todoistService.updateTask(task_id, updates)));
+
+  server.registerTool('close_task', {
+    title: 'Complete task',
+    description: 'Mark a task as completed',
+    inputSchema: TaskIdShape,
+    annotations: { idempotentHint: true }
+  }, ({ task_id }) => runTool('close_task', async () => {
+    await todoistService.closeTask(task_id);
+    return { task_id, completed: true };
+  }));
+
+  server.registerTool('reopen_task', {
+    title: 'Reopen task',
+    description: 'Reopen a completed task',
+    inputSchema: TaskIdShape,
+    annotations: { idempotentHint: true }
+  }, ({ task_id }) => runTool('reopen_task', async () => {
+    await todoistService.reopenTask(task_id);
+    return { task_id, reopened: true };
+  }));
+
+  server.registerTool('move_task', {
+    title: 'Move task',
+    description: 'Move a task and its subtasks to exactly one of: a project, a section or a parent task, by ID or by name (project_name, section_name, parent_content)',
+    inputSchema: { ...TaskIdShape, ...MoveTaskRequestSchema.innerType().shape }
+  }, ({ task_id, ...destination }) => runTool('move_task', async () => {
+    const references = await nameResolver.resolveTaskReferences(MoveTaskRequestSchema.parse(destination));
+    return todoistService.moveTaskWithSubtasks(task_id, toTaskDestination(references));
+  }));
+
+  server.registerTool('get_task_occurrences', {
+    title: 'Upcoming occurrences',
+    description: 'Expand a recurring task into its next due dates (count, default 10), starting with the current one',
+    inputSchema: { ...TaskIdShape, ...GetOccurrencesQuerySchema.shape },
+    annotations: { readOnlyHint: true }
+  }, ({ task_id, count }) => runTool('get_task_occurrences', () => dueDates.getOccurrences(task_id, count)));
+
+  server.registerTool('postpone_task', {
+    title: 'Postpone task',
+    description: 'Shift a task\'s due date by a number of days, weeks or months (negative moves it earlier), keeping its time of day and recurrence',
+    inputSchema: { ...TaskIdShape, ...PostponeTaskSchema.shape }
+  }, ({ task_id, amount, unit }) => runTool('postpone_task', () => dueDates.postpone(task_id, amount, unit)));
+
+  server.registerTool('reschedule_overdue_tasks', {
+    title: 'Reschedule overdue tasks',
+    description: 'Move every overdue task (optionally in one project) to a date such as "today", "tomorrow", "friday" or 2026-03-30, keeping times and recurrences; dry_run lists the changes without making them',
+    inputSchema: RescheduleOverdueSchema.shape
+  }, ({ to, project_id, dry_run }) => runTool('reschedule_overdue_tasks', () =>
+    dueDates.rescheduleOverdue(to, { projectId: project_id, dryRun: dry_run })
+  ));
+
+  server.registerTool('bulk_update_tasks', {
+    title: 'Bulk task action',
+    description: 'Complete, delete, relabel, reprioritise, reschedule or move every task matching a Todoist filter or a project_id/section_id/label/ids selector. Always call with dry_run true first, show the user the matched tasks, then repeat the identical call with dry_run false and the returned confirmation_token',
+    inputSchema: BulkTaskRequestSchema.innerType().shape,
+    annotations: { destructiveHint: true }
+  }, (input) => runTool('bulk_update_tasks', async () => {
+    const { selector, action, dry_run, confirmation_token } = BulkTaskRequestSchema.parse(input);
+    return dry_run ? bulk.preview(selector, action) : bulk.apply(selector, action, confirmation_token!);
+  }));
+
+  server.registerTool('delete_task', {
+    title: 'Delete task',
+    description: 'Permanently delete a task and its subtasks',
+    inputSchema: TaskIdShape,
+    annotations: { destructiveHint: true }
+  }, ({ task_id }) => runTool('delete_task', async () => {
+    await todoistService.deleteTask(task_id);
+    return { task_id, deleted: true };
+  }));
+
+  const batchService = new BatchService(todoistService);
+
+  server.registerTool('batch_tasks', {
+    title: 'Batch task operations',
+    description: 'Apply an ordered list of create/update/close/reopen/delete/move operations; creates may set a temp_id that later operations use as a task ID. With atomic=true, a failure rolls back the operations that already succeeded',
+    inputSchema: BatchRequestSchema.innerType().shape
+  }, (batch) => runTool('batch_tasks', () => batchService.execute(BatchRequestSchema.parse(batch))));
+};
@@ -0,0 +1,36 @@
+import { ToolResult } from '../types/mcp.types';
+import { appLogger } from '../utils/logger';
+
+/**
+ * Wrap a successful response as MCP text content
+ */
+export function jsonResult(data: unknown): ToolResult {
+  return {
+    content: [{ type: 'text', text: JSON.stringify(data, null, 2) }]
+  };
+}
+
+/**
+ * Wrap a failure as an MCP error result
+ */
+export function errorResult(message: string): ToolResult {
+  return {
+    content: [{ type: 'text', text: `Error: ${message}` }],
+    isError: true
+  };
+}
+
+/**
+ * Run a tool handler, converting thrown errors into MCP error results
+ * so the client sees the failure instead of a protocol error
+ */
+export async function runTool(toolName: string, handler: () => Promise<unknown>): Promise<ToolResult> {
+  try {
+    return jsonResult(await handler());
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    appLogger.error(`MCP tool ${toolName} failed`, { error: message });
+
+    return errorResult(message);
+  }
+}
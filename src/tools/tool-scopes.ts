@@ -0,0 +1,106 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { Scope } from '../middleware/auth';
+import { appLogger } from '../utils/logger';
+import { errorResult } from './tool-result';
+
+type ToolArgs = Record<string, unknown> | undefined;
+
+// A fixed scope, or one of several picked from the tool's arguments
+type ToolScope = Scope | { oneOf: Scope[]; pick: (args: ToolArgs) => Scope };
+
+// Comments on a project go through /api/projects/:id/comments over REST, so they need project scopes
+const commentScope = (taskScope: Scope, projectScope: Scope): ToolScope => ({
+  oneOf: [taskScope, projectScope],
+  pick: args => (args?.project_id && !args.task_id ? projectScope : taskScope)
+});
+
+/**
+ * Scope each tool needs, matching the REST route that does the same thing
+ * Undo additionally checks the write scope of whatever the change touched, in the tool itself
+ */
+const TOOL_SCOPES: Record<string, ToolScope> = {
+  get_tasks: 'tasks:read',
+  get_completed_tasks: 'tasks:read',
+  get_productivity_stats: 'tasks:read',
+  get_agenda: 'tasks:read',
+  get_task: 'tasks:read',
+  get_task_occurrences: 'tasks:read',
+  create_task: 'tasks:write',
+  update_task: 'tasks:write',
+  close_task: 'tasks:write',
+  reopen_task: 'tasks:write',
+  move_task: 'tasks:write',
+  postpone_task: 'tasks:write',
+  reschedule_overdue_tasks: 'tasks:write',
+  bulk_update_tasks: 'tasks:write',
+  delete_task: 'tasks:write',
+  batch_tasks: 'tasks:write',
+
+  get_projects: 'projects:read',
+  get_archived_projects: 'projects:read',
+  get_project: 'projects:read',
+  get_project_tree: 'projects:read',
+  create_project: 'projects:write',
+  update_project: 'projects:write',
+  delete_project: 'projects:admin',
+  archive_project: 'projects:admin',
+  unarchive_project: 'projects:admin',
+
+  get_sections: 'projects:read',
+  get_section: 'projects:read',
+  create_section: 'projects:write',
+  update_section: 'projects:write',
+  delete_section: 'projects:write',
+  move_tasks_to_section: 'projects:write',
+
+  get_comments: commentScope('tasks:read', 'projects:read'),
+  create_comment: commentScope('tasks:write', 'projects:write'),
+  update_comment: 'tasks:write',
+  delete_comment: 'tasks:write',
+
+  get_labels: 'labels:read',
+  get_label: 'labels:read',
+  get_shared_labels: 'labels:read',
+  create_label: 'labels:write',
+  update_label: 'labels:write',
+  delete_label: 'labels:write',
+  rename_shared_label: 'labels:write',
+  remove_shared_label: 'labels:write',
+
+  get_history: 'tasks:read',
+  undo_change: 'tasks:write'
+};
+
+/**
+ * The server as seen by tool registrars for a caller with the given scopes
+ * Tools the caller can never use are not offered at all, and every call checks the scope it needs
+ * A tool missing from TOOL_SCOPES fails registration
+ */
+export function withToolScopes(server: McpServer, scopes: readonly Scope[]): McpServer {
+  const registerTool = (name: string, toolConfig: never, callback: (...args: unknown[]) => unknown) => {
+    const scopeFor = TOOL_SCOPES[name];
+    if (!scopeFor) {
+      throw new Error(`MCP tool ${name} has no required scope`);
+    }
+
+    const tool = server.registerTool(name, toolConfig, ((...args: unknown[]) => {
+      const required = typeof scopeFor === 'string' ? scopeFor : scopeFor.pick(args[0] as ToolArgs);
+      if (!scopes.includes(required)) {
+        appLogger.warn('Rejected MCP tool call with insufficient scope', { tool: name, required });
+        return errorResult(`Insufficient scope: ${name} requires ${required}`);
+      }
+      return callback(...args);
+    }) as never);
+
+    const usable = typeof scopeFor === 'string' ? [scopeFor] : scopeFor.oneOf;
+    if (!usable.some(scope => scopes.includes(scope))) {
+      tool.remove();
+    }
+    return tool;
+  };
+
+  return new Proxy(server, {
+    get: (target, property, receiver) =>
+      property === 'registerTool' ? registerTool : Reflect.get(target, property, receiver)
+  });
+}
@@ -0,0 +1,16 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import type { TodoistService } from '../services/todoist.service';
+import type { Scope } from '../middleware/auth';
+
+/**
+ * Result returned from every MCP tool handler
+ */
+export type ToolResult = CallToolResult;
+
+/**
+ * Registers a group of related tools on an MCP server
+ * Mirrors the route factory pattern: each group receives the service instance it operates on,
+ * and the caller's scopes (undefined over stdio, where the local user has full access)
+ */
+export type ToolRegistrar = (server: McpServer, todoistService: TodoistService, scopes?: readonly Scope[]) => void;
@@ -10,11 +10,67 @@ export interface Config {
   readonly NODE_ENV: string;
   readonly PORT: number;
   readonly LOG_LEVEL: string;
-  readonly TODOIST_API_KEY: string;
+  readonly TODOIST_API_KEY?: string;             // Default account; optional when OAuth is configured
   readonly MCP_SERVER_NAME: string;
   readonly MCP_SERVER_VERSION: string;
+  readonly MCP_TRANSPORT: McpTransport;
+  readonly TODOIST_BACKEND: TodoistBackend;
+  readonly SYNC_REFRESH_INTERVAL_MS: number;
+  readonly API_CLIENTS: readonly ApiClientConfig[];
+  readonly AUTH_REQUIRED: boolean;
+  readonly TODOIST_CLIENT_ID?: string;
+  readonly TODOIST_CLIENT_SECRET?: string;
+  readonly TODOIST_OAUTH_SCOPES: string;
+  readonly TOKEN_ENCRYPTION_KEY?: string;
+  readonly TOKEN_STORE_PATH: string;
+  readonly TODOIST_TIMEOUT_MS: number;
+  readonly TODOIST_MAX_RETRIES: number;
+  readonly TODOIST_RETRY_BASE_DELAY_MS: number;
+  readonly TODOIST_RETRY_MAX_DELAY_MS: number;     // Longer Retry-After waits fail instead of blocking the caller
+  readonly CIRCUIT_BREAKER_THRESHOLD: number;      // Consecutive failures before the circuit opens
+  readonly CIRCUIT_BREAKER_RESET_MS: number;
+  readonly CACHE_TTL_TASKS_MS: number;             // 0 disables caching for that resource
+  readonly CACHE_TTL_PROJECTS_MS: number;
+  readonly CACHE_TTL_SECTIONS_MS: number;
+  readonly CACHE_TTL_LABELS_MS: number;
+  readonly CACHE_MAX_ENTRIES: number;
+  readonly WEBHOOK_SUBSCRIPTIONS_PATH: string;
+  readonly BULK_CONFIRMATION_TTL_MS: number;       // How long a bulk dry run's confirmation token stays valid
+  readonly HISTORY_PATH: string;                   // Directory; one file per Todoist user
+  readonly HISTORY_MAX_ENTRIES: number;            // Per Todoist user; 0 turns the undo journal off
+  readonly AUDIT_LOG_ENABLED: boolean;
+  readonly AUDIT_LOG_PATH: string;                 // Append-only JSONL
+  readonly OTEL_EXPORTER_OTLP_ENDPOINT?: string;   // OTLP/HTTP collector base URL; tracing is off when unset
 }
 
+/**
+ * API client allowed to call /api/* with a bearer token
+ * key_hash is the hex SHA-256 of the client's API key; the key itself is never stored
+ */
+export interface ApiClientConfig {
+  readonly id: string;
+  readonly key_hash: string;
+  readonly scopes: readonly string[];
+}
+
+/**
+ * Supported MCP transports
+ * - http: Express REST API plus streamable HTTP MCP endpoint at /mcp
+ * - stdio: MCP server over stdin/stdout (e.g. launched by Claude Desktop)
+ */
+export type McpTransport = 'http' | 'stdio';
+
+const MCP_TRANSPORTS: readonly McpTransport[] = ['http', 'stdio'];
+
+/**
+ * Supported Todoist backends
+ * - rest: every call goes to REST v2
+ * - sync: reads are answered from a local replica kept current with incremental Sync API calls
+ */
+export type TodoistBackend = 'rest' | 'sync';
+
+const TODOIST_BACKENDS: readonly TodoistBackend[] = ['rest', 'sync'];
+
 /**
  * Get environment variable with validation
  */
@@ -44,21 +100,92 @@ function getEnvNumber(key: string, defaultValue: number): number {
   return parsed;
 }
 
+/**
+ * Get boolean environment variable with validation
+ */
+function getEnvBoolean(key: string, defaultValue: boolean): boolean {
+  const value = process.env[key];
+  if (!value) {
+    return defaultValue;
+  }
+  if (value !== 'true' && value !== 'false') {
+    throw new Error(`Environment variable ${key} must be true or false, got: ${value}`);
+  }
+  return value === 'true';
+}
+
+/**
+ * Get API client definitions from a JSON array environment variable
+ */
+function getEnvClients(key: string): ApiClientConfig[] {
+  const value = process.env[key];
+  if (!value) {
+    return [];
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch {
+    throw new Error(`Environment variable ${key} must be a JSON array of clients`);
+  }
+
+  if (!Array.isArray(parsed)) {
+    throw new Error(`Environment variable ${key} must be a JSON array of clients`);
+  }
+
+  return parsed.map((client, index) => {
+    const valid = client
+      && typeof client.id === 'string'
+      && typeof client.key_hash === 'string' && /^[a-f0-9]{64}$/i.test(client.key_hash)
+      && Array.isArray(client.scopes) && client.scopes.every((scope: unknown) => typeof scope === 'string');
+    if (!valid) {
+      throw new Error(
+        `Environment variable ${key}[${index}] must have an id, a hex SHA-256 key_hash and a scopes array`
+      );
+    }
+    return { id: client.id, key_hash: client.key_hash.toLowerCase(), scopes: client.scopes };
+  });
+}
+
+/**
+ * Get enumerated environment variable with validation
+ */
+function getEnvEnum<T extends string>(key: string, allowed: readonly T[], defaultValue: T): T {
+  const value = getEnvVar(key, defaultValue);
+  if (!allowed.includes(value as T)) {
+    throw new Error(`Environment variable ${key} must be one of ${allowed.join(', ')}, got: ${value}`);
+  }
+  return value as T;
+}
+
 /**
  * Create and validate configuration object
  * This ensures config is never undefined and all required values exist
  */
 function createConfig(): Config {
-  // Validate required environment variables exist
-  const todoistApiKey = getEnvVar('TODOIST_API_KEY');
+  // Either a default Todoist account or OAuth (multi-user) must be configured
+  const todoistApiKey = process.env.TODOIST_API_KEY || undefined;
+  const clientId = process.env.TODOIST_CLIENT_ID || undefined;
+  const clientSecret = process.env.TODOIST_CLIENT_SECRET || undefined;
+  const encryptionKey = process.env.TOKEN_ENCRYPTION_KEY || undefined;
   
-  if (!todoistApiKey) {
+  if (!todoistApiKey && !clientId) {
     throw new Error(
       'TODOIST_API_KEY environment variable is required. ' +
-      'Please set it in your .env file or environment variables.'
+      'Please set it in your .env file or environment variables, ' +
+      'or configure TODOIST_CLIENT_ID for multi-user OAuth.'
     );
   }
 
+  if (clientId && (!clientSecret || !encryptionKey)) {
+    throw new Error('TODOIST_CLIENT_ID requires TODOIST_CLIENT_SECRET and TOKEN_ENCRYPTION_KEY to be set');
+  }
+
+  if (encryptionKey && !/^[a-f0-9]{64}$/i.test(encryptionKey)) {
+    throw new Error('TOKEN_ENCRYPTION_KEY must be 32 bytes encoded as 64 hex characters');
+  }
+
   return {
     NODE_ENV: getEnvVar('NODE_ENV', 'development'),
     PORT: getEnvNumber('PORT', 3000),
@@ -66,6 +193,34 @@ function createConfig(): Config {
     TODOIST_API_KEY: todoistApiKey,
     MCP_SERVER_NAME: getEnvVar('MCP_SERVER_NAME', 'claude-todoist-api'),
     MCP_SERVER_VERSION: getEnvVar('MCP_SERVER_VERSION', '1.0.0'),
+    MCP_TRANSPORT: getEnvEnum('MCP_TRANSPORT', MCP_TRANSPORTS, 'http'),
+    TODOIST_BACKEND: getEnvEnum('TODOIST_BACKEND', TODOIST_BACKENDS, 'rest'),
+    SYNC_REFRESH_INTERVAL_MS: getEnvNumber('SYNC_REFRESH_INTERVAL_MS', 30000),
+    API_CLIENTS: getEnvClients('API_CLIENTS'),
+    AUTH_REQUIRED: getEnvBoolean('AUTH_REQUIRED', getEnvVar('NODE_ENV', 'development') === 'production'),
+    TODOIST_CLIENT_ID: clientId,
+    TODOIST_CLIENT_SECRET: clientSecret,
+    TODOIST_OAUTH_SCOPES: getEnvVar('TODOIST_OAUTH_SCOPES', 'data:read_write,data:delete,project:delete'),
+    TOKEN_ENCRYPTION_KEY: encryptionKey,
+    TOKEN_STORE_PATH: getEnvVar('TOKEN_STORE_PATH', 'data/todoist-tokens.json'),
+    TODOIST_TIMEOUT_MS: getEnvNumber('TODOIST_TIMEOUT_MS', 10000),
+    TODOIST_MAX_RETRIES: getEnvNumber('TODOIST_MAX_RETRIES', 3),
+    TODOIST_RETRY_BASE_DELAY_MS: getEnvNumber('TODOIST_RETRY_BASE_DELAY_MS', 500),
+    TODOIST_RETRY_MAX_DELAY_MS: getEnvNumber('TODOIST_RETRY_MAX_DELAY_MS', 30000),
+    CIRCUIT_BREAKER_THRESHOLD: getEnvNumber('CIRCUIT_BREAKER_THRESHOLD', 5),
+    CIRCUIT_BREAKER_RESET_MS: getEnvNumber('CIRCUIT_BREAKER_RESET_MS', 30000),
+    CACHE_TTL_TASKS_MS: getEnvNumber('CACHE_TTL_TASKS_MS', 15000),
+    CACHE_TTL_PROJECTS_MS: getEnvNumber('CACHE_TTL_PROJECTS_MS', 60000),
+    CACHE_TTL_SECTIONS_MS: getEnvNumber('CACHE_TTL_SECTIONS_MS', 60000),
+    CACHE_TTL_LABELS_MS: getEnvNumber('CACHE_TTL_LABELS_MS', 300000),
+    CACHE_MAX_ENTRIES: getEnvNumber('CACHE_MAX_ENTRIES', 1000),
+    WEBHOOK_SUBSCRIPTIONS_PATH: getEnvVar('WEBHOOK_SUBSCRIPTIONS_PATH', 'data/webhook-subscriptions.json'),
+    BULK_CONFIRMATION_TTL_MS: getEnvNumber('BULK_CONFIRMATION_TTL_MS', 300000),
+    HISTORY_PATH: getEnvVar('HISTORY_PATH', 'data/history'),
+    HISTORY_MAX_ENTRIES: getEnvNumber('HISTORY_MAX_ENTRIES', 500),
+    AUDIT_LOG_ENABLED: getEnvBoolean('AUDIT_LOG_ENABLED', true),
+    AUDIT_LOG_PATH: getEnvVar('AUDIT_LOG_PATH', 'data/audit.jsonl'),
+    OTEL_EXPORTER_OTLP_ENDPOINT: process.env.OTEL_EXPORTER_OTLP_ENDPOINT || undefined,
   } as const;
 }
 
@@ -0,0 +1,40 @@
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+
+/**
+ * AES-256-GCM encrypted value, base64-encoded for JSON storage
+ */
+export interface EncryptedValue {
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+const ALGORITHM = 'aes-256-gcm';
+
+/**
+ * Encrypt a string with a 32-byte key
+ */
+export function encrypt(plaintext: string, key: Buffer): EncryptedValue {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  const data = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+
+  return {
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64')
+  };
+}
+
+/**
+ * Decrypt a value produced by encrypt; throws if the key is wrong or the data was tampered with
+ */
+export function decrypt(value: EncryptedValue, key: Buffer): string {
+  const decipher = createDecipheriv(ALGORITHM, key, Buffer.from(value.iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(value.tag, 'base64'));
+
+  return Buffer.concat([
+    decipher.update(Buffer.from(value.data, 'base64')),
+    decipher.final()
+  ]).toString('utf8');
+}
@@ -1,5 +1,8 @@
 import winston from 'winston';
+import { isSpanContextValid, trace } from '@opentelemetry/api';
 import { config } from './config';
+import { redactSecrets } from './redact';
+import { currentRequestContext } from './request-context';
 
 /**
  * Log levels in order of priority (winston format)
@@ -12,10 +15,40 @@ const logLevels = {
   debug: 4,
 };
 
+/**
+ * Strip secrets (API keys, OAuth tokens, client secrets) from the message and metadata
+ */
+const redactFormat = winston.format(info => {
+  const redacted = redactSecrets({ ...info });
+  for (const key of Object.keys(info)) {
+    info[key] = redacted[key];
+  }
+  return info;
+});
+
+/**
+ * Tie a line logged while handling a request to it: request ID, plus trace and span IDs when tracing
+ * Applied by the logger itself rather than its transports, since only the logging call runs in the request's context
+ */
+const requestContextFormat = winston.format(info => {
+  const request = currentRequestContext();
+  if (request && info.request_id === undefined) {
+    info.request_id = request.request_id;
+  }
+
+  const spanContext = trace.getActiveSpan()?.spanContext();
+  if (spanContext && isSpanContextValid(spanContext)) {
+    info.trace_id = spanContext.traceId;
+    info.span_id = spanContext.spanId;
+  }
+  return info;
+});
+
 /**
  * Console format for development
  */
 const consoleFormat = winston.format.combine(
+  redactFormat(),
   winston.format.timestamp({ format: 'HH:mm:ss' }),
   winston.format.colorize({ all: true }),
   winston.format.printf(({ timestamp, level, message, ...meta }) => {
@@ -31,6 +64,7 @@ const consoleFormat = winston.format.combine(
  * JSON format for production
  */
 const jsonFormat = winston.format.combine(
+  redactFormat(),
   winston.format.timestamp(),
   winston.format.errors({ stack: true }),
   winston.format.json()
@@ -43,9 +77,11 @@ const createLogger = (): winston.Logger => {
   const transports: winston.transport[] = [];
 
   // Console transport (always enabled)
+  // stdout is reserved for MCP protocol messages in stdio mode, so log to stderr instead
   transports.push(
     new winston.transports.Console({
       level: config.LOG_LEVEL,
+      stderrLevels: config.MCP_TRANSPORT === 'stdio' ? Object.keys(logLevels) : [],
       format: config.NODE_ENV === 'production' ? jsonFormat : consoleFormat,
       handleExceptions: true,
       handleRejections: true,
@@ -76,7 +112,7 @@ const createLogger = (): winston.Logger => {
   return winston.createLogger({
     levels: logLevels,
     level: config.LOG_LEVEL,
-    format: jsonFormat,
+    format: winston.format.combine(requestContextFormat(), jsonFormat),
     transports,
     exitOnError: false,
   });
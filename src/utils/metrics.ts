@@ -0,0 +1,83 @@
+import { Counter, Gauge, Histogram, Registry, collectDefaultMetrics } from 'prom-client';
+
+/**
+ * Prometheus metrics served at GET /metrics
+ * Labels only ever hold route patterns, endpoint patterns, methods and statuses, never raw paths or IDs
+ */
+export const metricsRegistry = new Registry();
+
+// CPU, memory, event loop lag, GC and open handles
+collectDefaultMetrics({ register: metricsRegistry });
+
+export const httpRequests = new Counter({
+  name: 'http_requests_total',
+  help: 'HTTP requests handled, by route pattern and status',
+  labelNames: ['method', 'route', 'status'] as const,
+  registers: [metricsRegistry]
+});
+
+export const httpRequestDuration = new Histogram({
+  name: 'http_request_duration_seconds',
+  help: 'Time to handle an HTTP request, by route pattern and status',
+  labelNames: ['method', 'route', 'status'] as const,
+  buckets: [0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10],
+  registers: [metricsRegistry]
+});
+
+export const todoistRequests = new Counter({
+  name: 'todoist_requests_total',
+  help: 'Calls to the Todoist API, by endpoint and final status (or timeout, network, circuit_open)',
+  labelNames: ['method', 'endpoint', 'status'] as const,
+  registers: [metricsRegistry]
+});
+
+export const todoistRequestErrors = new Counter({
+  name: 'todoist_request_errors_total',
+  help: 'Todoist API calls that ended in an error status or without a response, by endpoint',
+  labelNames: ['method', 'endpoint', 'status'] as const,
+  registers: [metricsRegistry]
+});
+
+export const todoistRequestDuration = new Histogram({
+  name: 'todoist_request_duration_seconds',
+  help: 'Time for a Todoist API call including retries, by endpoint',
+  labelNames: ['method', 'endpoint'] as const,
+  buckets: [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30],
+  registers: [metricsRegistry]
+});
+
+export const todoistRateLimitHits = new Counter({
+  name: 'todoist_rate_limit_hits_total',
+  help: 'Todoist 429 responses, including ones that were retried, by endpoint',
+  labelNames: ['method', 'endpoint'] as const,
+  registers: [metricsRegistry]
+});
+
+export const cacheLookups = new Counter({
+  name: 'todoist_cache_lookups_total',
+  help: 'Response cache lookups, by resource and result (hit or miss)',
+  labelNames: ['resource', 'result'] as const,
+  registers: [metricsRegistry]
+});
+
+new Gauge({
+  name: 'todoist_cache_hit_ratio',
+  help: 'Share of response cache lookups served from the cache since start, by resource',
+  labelNames: ['resource'] as const,
+  registers: [metricsRegistry],
+  async collect() {
+    const counts = new Map<string, { hits: number; total: number }>();
+    for (const { labels, value } of (await cacheLookups.get()).values) {
+      const resource = String(labels.resource);
+      const count = counts.get(resource) ?? { hits: 0, total: 0 };
+      count.total += value;
+      if (labels.result === 'hit') count.hits += value;
+      counts.set(resource, count);
+    }
+
+    this.reset();
+    for (const [resource, { hits, total }] of counts) {
+      if (total > 0) this.set({ resource }, hits / total);
+    }
+  }
+});
@@ -0,0 +1,61 @@
+import { BlockList, isIP } from 'net';
+import { promises as dns } from 'dns';
+import { ValidationError } from '../middleware/error-handler';
+
+// Loopback, private, link-local (including cloud metadata at 169.254.169.254), shared,
+// multicast and reserved ranges; IPv4-mapped IPv6 addresses are checked against the IPv4 ranges
+const nonPublic = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4]
+] as const) {
+  nonPublic.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128], ['::1', 128], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]
+] as const) {
+  nonPublic.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Whether an IP address is loopback, private, link-local or otherwise not on the public internet
+ */
+export function isPrivateAddress(address: string): boolean {
+  const family = isIP(address);
+  return family === 0 || nonPublic.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+// URL keeps the brackets around IPv6 literals
+const bareHost = (url: URL): string => url.hostname.replace(/^\[|\]$/g, '');
+
+/**
+ * Whether a URL names a private host without needing DNS: an IP literal in a private range or localhost
+ */
+export function isPrivateHost(url: string): boolean {
+  const host = bareHost(new URL(url)).toLowerCase();
+  if (host === 'localhost' || host.endsWith('.localhost')) return true;
+  return isIP(host) !== 0 && isPrivateAddress(host);
+}
+
+/**
+ * Reject a URL unless every address its host resolves to is public, so the server cannot be
+ * made to send requests into its own network
+ */
+export async function assertPublicUrl(url: string): Promise<void> {
+  const host = bareHost(new URL(url));
+  if (isPrivateHost(url)) {
+    throw new ValidationError('URL must not point to a private or loopback address', { host });
+  }
+
+  let addresses: { address: string }[];
+  try {
+    addresses = isIP(host) !== 0 ? [{ address: host }] : await dns.lookup(host, { all: true, verbatim: true });
+  } catch {
+    throw new ValidationError('URL host could not be resolved', { host });
+  }
+
+  const blocked = addresses.find(({ address }) => isPrivateAddress(address));
+  if (blocked) {
+    throw new ValidationError('URL must not point to a private or loopback address', { host, address: blocked.address });
+  }
+}
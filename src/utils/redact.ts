@@ -0,0 +1,64 @@
+import { config } from './config';
+
+const REDACTED = '[redacted]';
+
+// Field names whose values are always secret, e.g. access_token, client_secret, Authorization
+const SECRET_KEY_PATTERN = /authorization|cookie|password|secret|token|api_?key|key_hash/i;
+
+// Bearer credentials and Todoist API tokens (40 hex characters) inside free text
+const SECRET_VALUE_PATTERNS = [/(Bearer\s+)[^\s"',]+/gi, /\b[0-9a-f]{40}\b/gi];
+
+// Short placeholder values would redact ordinary words
+const configuredSecrets = [config.TODOIST_API_KEY, config.TODOIST_CLIENT_SECRET, config.TOKEN_ENCRYPTION_KEY]
+  .filter((secret): secret is string => secret !== undefined && secret.length >= 16);
+
+const MAX_DEPTH = 8;
+
+/**
+ * Replace known secrets and credential-shaped substrings in a string
+ */
+export function redactString(value: string): string {
+  let redacted = value;
+  for (const secret of configuredSecrets) {
+    redacted = redacted.split(secret).join(REDACTED);
+  }
+  for (const pattern of SECRET_VALUE_PATTERNS) {
+    redacted = redacted.replace(pattern, (match, prefix) => (typeof prefix === 'string' ? `${prefix}${REDACTED}` : REDACTED));
+  }
+  return redacted;
+}
+
+/**
+ * Copy of a value with secret fields and secret-looking strings replaced
+ * The input is never modified, since log metadata is often the caller's own object
+ */
+export function redactSecrets<T>(value: T, depth = 0, seen: WeakSet<object> = new WeakSet()): T {
+  if (typeof value === 'string') return redactString(value) as T;
+  if (value === null || typeof value !== 'object') return value;
+  if (seen.has(value) || depth >= MAX_DEPTH) return value;
+  seen.add(value);
+
+  if (Array.isArray(value)) {
+    return value.map(item => redactSecrets(item, depth + 1, seen)) as T;
+  }
+
+  if (value instanceof Error) {
+    const copy = Object.create(Object.getPrototypeOf(value)) as Error;
+    Object.assign(copy, redactSecrets({ ...value }, depth + 1, seen));
+    copy.message = redactString(value.message);
+    copy.stack = value.stack && redactString(value.stack);
+    return copy as T;
+  }
+
+  // Dates, buffers and other class instances are logged as they are
+  if (Object.getPrototypeOf(value) !== Object.prototype && Object.getPrototypeOf(value) !== null) {
+    return value;
+  }
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, field]) => [
+      key,
+      SECRET_KEY_PATTERN.test(key) && field !== undefined && field !== null ? REDACTED : redactSecrets(field, depth + 1, seen)
+    ])
+  ) as T;
+}
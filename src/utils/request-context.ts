@@ -0,0 +1,25 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+/**
+ * What the rest of a request's work needs to know about the HTTP request that started it
+ */
+export interface RequestContext {
+  readonly request_id: string;
+  readonly client_id?: string;                  // API client, once authenticated
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Run fn, and everything it awaits, with the given request context
+ */
+export function runWithRequestContext<T>(context: RequestContext, fn: () => T): T {
+  return storage.run(context, fn);
+}
+
+/**
+ * Context of the request being handled, or undefined outside one (e.g. stdio MCP, background work)
+ */
+export function currentRequestContext(): RequestContext | undefined {
+  return storage.getStore();
+}
@@ -0,0 +1,69 @@
+import type { Task, CreateTaskOptions, TaskDestination } from '../services/todoist.service';
+
+/**
+ * Helpers for turning a previously fetched task back into write options,
+ * used to revert or recreate tasks from a snapshot
+ */
+
+/**
+ * Due fields that reproduce a task's due date
+ * Recurring dates keep their natural-language string so the recurrence survives;
+ * one-off dates use the absolute date so "tomorrow" is not re-evaluated
+ */
+export function dueToOptions(due: Task['due']): Partial<CreateTaskOptions> {
+  if (!due) {
+    return { due_string: 'no date' };
+  }
+
+  if (due.is_recurring) {
+    return { due_string: due.string, due_lang: due.lang };
+  }
+
+  return due.datetime ? { due_datetime: due.datetime } : { due_date: due.date };
+}
+
+/**
+ * Options that recreate a task with the same content, placement and due date
+ */
+export function taskToCreateOptions(task: Task): CreateTaskOptions {
+  return {
+    content: task.content,
+    description: task.description,
+    project_id: task.project_id,
+    ...(task.section_id ? { section_id: task.section_id } : {}),
+    ...(task.parent_id ? { parent_id: task.parent_id } : {}),
+    order: task.order,
+    labels: task.labels,
+    priority: task.priority,
+    ...(task.due ? dueToOptions(task.due) : {}),
+    ...(task.assignee_id ? { assignee_id: task.assignee_id } : {}),
+  };
+}
+
+/**
+ * Update options that restore the given fields to their snapshot values
+ */
+export function revertUpdateOptions(task: Task, updatedFields: string[]): Partial<CreateTaskOptions> {
+  const revert: Partial<CreateTaskOptions> = {};
+  const fields = new Set(updatedFields);
+
+  if (fields.has('content')) revert.content = task.content;
+  if (fields.has('description')) revert.description = task.description;
+  if (fields.has('labels')) revert.labels = task.labels;
+  if (fields.has('priority')) revert.priority = task.priority;
+  if (fields.has('assignee_id') && task.assignee_id) revert.assignee_id = task.assignee_id;
+  if (['due', 'due_string', 'due_date', 'due_datetime', 'due_lang'].some(field => fields.has(field))) {
+    Object.assign(revert, dueToOptions(task.due));
+  }
+
+  return revert;
+}
+
+/**
+ * The most specific destination that puts a task back where it was
+ */
+export function taskLocation(task: Task): TaskDestination {
+  if (task.parent_id) return { parent_id: task.parent_id };
+  if (task.section_id) return { section_id: task.section_id };
+  return { project_id: task.project_id };
+}
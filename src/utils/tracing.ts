@@ -0,0 +1,47 @@
+import { trace } from '@opentelemetry/api';
+import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http';
+import { resourceFromAttributes } from '@opentelemetry/resources';
+import { BatchSpanProcessor, NodeTracerProvider } from '@opentelemetry/sdk-trace-node';
+import { ATTR_SERVICE_NAME, ATTR_SERVICE_VERSION } from '@opentelemetry/semantic-conventions';
+import { config } from './config';
+import { appLogger } from './logger';
+
+let provider: NodeTracerProvider | undefined;
+
+/**
+ * Export spans to the configured OTLP collector
+ * Without OTEL_EXPORTER_OTLP_ENDPOINT nothing is registered and every span is a no-op
+ */
+export function startTracing(): void {
+  const endpoint = config.OTEL_EXPORTER_OTLP_ENDPOINT;
+  if (!endpoint || provider) return;
+
+  provider = new NodeTracerProvider({
+    resource: resourceFromAttributes({
+      [ATTR_SERVICE_NAME]: config.MCP_SERVER_NAME,
+      [ATTR_SERVICE_VERSION]: config.MCP_SERVER_VERSION,
+      'deployment.environment.name': config.NODE_ENV
+    }),
+    spanProcessors: [
+      new BatchSpanProcessor(new OTLPTraceExporter({ url: `${endpoint.replace(/\/+$/, '')}/v1/traces` }))
+    ]
+  });
+
+  // Also installs the async context manager and the W3C traceparent propagator
+  provider.register();
+
+  appLogger.info('Tracing enabled', { endpoint });
+}
+
+/**
+ * Flush buffered spans; call before the process exits
+ */
+export async function stopTracing(): Promise<void> {
+  try {
+    await provider?.shutdown();
+  } catch (error) {
+    appLogger.warn('Failed to flush traces', { error });
+  }
+}
+
+export const tracer = trace.getTracer(config.MCP_SERVER_NAME, config.MCP_SERVER_VERSION);
@@ -0,0 +1,378 @@
+import { z } from 'zod';
+import type { TaskDestination } from '../services/todoist.service';
+import { EVENT_TYPES } from '../services/events';
+import { isValidTimeZone } from '../services/agenda.service';
+import { HISTORY_RESOURCES } from '../services/history-store';
+import { isPrivateHost } from './public-url';
+
+/**
+ * Shared request validation schemas
+ * Used by both the REST routes and the MCP tool definitions
+ */
+
+// Task schemas
+export const CreateTaskSchema = z.object({
+  content: z.string().min(1, "Task content is required"),
+  description: z.string().optional(),
+  project_id: z.string().optional(),
+  section_id: z.string().optional(),
+  parent_id: z.string().optional(),
+  order: z.number().optional(),
+  labels: z.array(z.string()).optional(),
+  priority: z.number().min(1).max(4).optional(),
+  due_string: z.string().optional(),
+  due_date: z.string().optional(),
+  due_datetime: z.string().optional(),
+  due_lang: z.string().optional(),
+  assignee_id: z.string().optional(),
+  deadline_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "deadline_date must be YYYY-MM-DD").optional()
+});
+
+// Name-based references, resolved to IDs by NameResolver (case-insensitive, fuzzy)
+export const TaskReferenceNamesSchema = z.object({
+  project_name: z.string().min(1).optional(),
+  section_name: z.string().min(1).optional(),
+  parent_content: z.string().min(1).optional(),
+  create_missing: z.boolean().optional()
+});
+
+const REFERENCE_PAIRS = [
+  ['project_id', 'project_name'],
+  ['section_id', 'section_name'],
+  ['parent_id', 'parent_content']
+] as const;
+
+function refineReferencePairs(references: Partial<Record<typeof REFERENCE_PAIRS[number][number], string>>, ctx: z.RefinementCtx): void {
+  for (const [idField, nameField] of REFERENCE_PAIRS) {
+    if (references[idField] && references[nameField]) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Provide either ${idField} or ${nameField}, not both`,
+        path: [nameField]
+      });
+    }
+  }
+}
+
+export const CreateTaskRequestSchema = CreateTaskSchema.merge(TaskReferenceNamesSchema).superRefine(refineReferencePairs);
+
+export const QuickAddTaskSchema = z.object({
+  text: z.string().trim().min(1, "Quick add text is required"),
+  description: z.string().optional(),
+  dry_run: z.boolean().default(false)
+});
+
+// Due date schemas
+export const GetOccurrencesQuerySchema = z.object({
+  count: z.coerce.number().int().min(1).max(100).default(10)
+});
+
+export const PostponeTaskSchema = z.object({
+  amount: z.number().int().refine(amount => amount !== 0, "amount must not be 0"),
+  unit: z.enum(['days', 'weeks', 'months']).default('days')
+});
+
+export const RescheduleOverdueSchema = z.object({
+  to: z.string().min(1).default('today'),
+  project_id: z.string().optional(),
+  dry_run: z.boolean().default(false)
+});
+
+export const UpdateTaskSchema = z.object({
+  content: z.string().optional(),
+  description: z.string().optional(),
+  labels: z.array(z.string()).optional(),
+  priority: z.number().min(1).max(4).optional(),
+  due_string: z.string().optional(),
+  due_date: z.string().optional(),
+  due_datetime: z.string().optional(),
+  due_lang: z.string().optional(),
+  assignee_id: z.string().optional()
+});
+
+export const GetTasksQuerySchema = z.object({
+  project_id: z.string().optional(),
+  section_id: z.string().optional(),
+  label: z.string().optional(),
+  filter: z.string().optional(),
+  lang: z.string().optional(),
+  ids: z.string().transform(str => str.split(',').map(id => id.trim())).optional(),
+  view: z.enum(['flat', 'tree']).default('flat')
+});
+
+// Project schemas
+const ProjectViewStyleSchema = z.enum(['list', 'board']);
+
+export const CreateProjectSchema = z.object({
+  name: z.string().min(1, "Project name is required"),
+  parent_id: z.string().optional(),
+  color: z.string().optional(),
+  is_favorite: z.boolean().optional(),
+  view_style: ProjectViewStyleSchema.optional()
+});
+
+export const CreateProjectRequestSchema = CreateProjectSchema.extend({
+  parent_name: z.string().min(1).optional(),
+  create_missing: z.boolean().optional()
+}).refine(
+  project => !(project.parent_id && project.parent_name),
+  { message: "Provide either parent_id or parent_name, not both", path: ['parent_name'] }
+);
+
+export const UpdateProjectSchema = z.object({
+  name: z.string().min(1).optional(),
+  color: z.string().optional(),
+  is_favorite: z.boolean().optional(),
+  view_style: ProjectViewStyleSchema.optional()
+});
+
+export const GetProjectsQuerySchema = z.object({
+  parent_id: z.string().optional()
+});
+
+export const GetProjectTreeQuerySchema = z.object({
+  include_completed: z.enum(['true', 'false']).transform(value => value === 'true').default('true')
+});
+
+// Section schemas
+export const GetSectionsQuerySchema = z.object({
+  project_id: z.string().optional()
+});
+
+export const CreateSectionSchema = z.object({
+  name: z.string().min(1, "Section name is required"),
+  project_id: z.string().min(1, "Project ID is required"),
+  order: z.number().optional()
+});
+
+export const CreateSectionRequestSchema = CreateSectionSchema.extend({
+  project_id: z.string().min(1).optional(),
+  project_name: z.string().min(1).optional(),
+  create_missing: z.boolean().optional()
+}).refine(
+  section => [section.project_id, section.project_name].filter(Boolean).length === 1,
+  { message: "Provide exactly one of project_id or project_name" }
+);
+
+export const UpdateSectionSchema = z.object({
+  name: z.string().min(1, "Section name is required")
+});
+
+export const MoveTasksToSectionSchema = z.object({
+  task_ids: z.array(z.string()).min(1, "At least one task ID is required")
+});
+
+// Comment schemas
+export const CommentAttachmentSchema = z.object({
+  file_url: z.string().url("Attachment file_url must be a valid URL"),
+  file_name: z.string().optional(),
+  file_type: z.string().optional(),
+  resource_type: z.string().optional()
+});
+
+export const CreateCommentSchema = z.object({
+  content: z.string().min(1, "Comment content is required"),
+  attachment: CommentAttachmentSchema.optional()
+});
+
+export const UpdateCommentSchema = z.object({
+  content: z.string().min(1, "Comment content is required")
+});
+
+// Label schemas
+export const CreateLabelSchema = z.object({
+  name: z.string().min(1, "Label name is required"),
+  order: z.number().optional(),
+  color: z.string().optional(),
+  is_favorite: z.boolean().optional()
+});
+
+export const UpdateLabelSchema = CreateLabelSchema.partial();
+
+export const GetSharedLabelsQuerySchema = z.object({
+  omit_personal: z.enum(['true', 'false']).transform(value => value === 'true').optional()
+});
+
+export const RenameSharedLabelSchema = z.object({
+  name: z.string().min(1, "Label name is required"),
+  new_name: z.string().min(1, "New label name is required")
+});
+
+export const RemoveSharedLabelSchema = z.object({
+  name: z.string().min(1, "Label name is required")
+});
+
+// Task move schemas: exactly one destination, output as a TaskDestination
+export const TaskDestinationFieldsSchema = z.object({
+  project_id: z.string().min(1).optional(),
+  section_id: z.string().min(1).optional(),
+  parent_id: z.string().min(1).optional()
+});
+
+export const MoveTaskSchema = TaskDestinationFieldsSchema.refine(
+  destination => [destination.project_id, destination.section_id, destination.parent_id].filter(Boolean).length === 1,
+  { message: "Provide exactly one of project_id, section_id or parent_id" }
+).transform((destination): TaskDestination => {
+  if (destination.project_id) return { project_id: destination.project_id };
+  if (destination.section_id) return { section_id: destination.section_id };
+  return { parent_id: destination.parent_id! };
+});
+
+// Move by ID or name: at most one ID, and a section or parent name may be narrowed by a project
+export const MoveTaskRequestSchema = TaskDestinationFieldsSchema.merge(TaskReferenceNamesSchema).superRefine((destination, ctx) => {
+  const ids = [destination.project_id, destination.section_id, destination.parent_id].filter(Boolean);
+  const names = [destination.project_name, destination.section_name, destination.parent_content].filter(Boolean);
+
+  if (ids.length > 1 || ids.length + names.length === 0) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "Provide exactly one of project_id, section_id or parent_id, or a project_name, section_name or parent_content"
+    });
+  }
+  refineReferencePairs(destination, ctx);
+});
+
+// Batch schemas
+const BatchTaskIdSchema = z.string().min(1, "Task ID (or temp_id) is required");
+
+export const BatchOperationSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('create'), temp_id: z.string().min(1).optional(), data: CreateTaskSchema }),
+  z.object({ type: z.literal('update'), id: BatchTaskIdSchema, data: UpdateTaskSchema }),
+  z.object({ type: z.literal('close'), id: BatchTaskIdSchema }),
+  z.object({ type: z.literal('reopen'), id: BatchTaskIdSchema }),
+  z.object({ type: z.literal('delete'), id: BatchTaskIdSchema }),
+  z.object({ type: z.literal('move'), id: BatchTaskIdSchema, to: MoveTaskSchema })
+]);
+
+export const BatchRequestSchema = z.object({
+  operations: z.array(BatchOperationSchema).min(1, "At least one operation is required").max(100, "At most 100 operations per batch"),
+  atomic: z.boolean().default(false)
+}).superRefine((batch, ctx) => {
+  const tempIds = new Set<string>();
+  batch.operations.forEach((operation, index) => {
+    if (operation.type !== 'create' || !operation.temp_id) return;
+    if (tempIds.has(operation.temp_id)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['operations', index, 'temp_id'],
+        message: `Duplicate temp_id ${operation.temp_id}`
+      });
+    }
+    tempIds.add(operation.temp_id);
+  });
+});
+
+export type BatchOperation = z.infer<typeof BatchOperationSchema>;
+export type BatchRequest = z.infer<typeof BatchRequestSchema>;
+
+// Bulk schemas: one action applied to every task a selector matches
+export const TaskSelectorSchema = z.object({
+  filter: z.string().min(1).optional(),
+  project_id: z.string().min(1).optional(),
+  section_id: z.string().min(1).optional(),
+  label: z.string().min(1).optional(),
+  ids: z.array(z.string().min(1)).min(1).max(500).optional()
+}).refine(
+  selector => selector.filter || selector.project_id || selector.section_id || selector.label || selector.ids,
+  { message: "Select tasks with a filter, project_id, section_id, label or ids" }
+).refine(
+  selector => !selector.filter || (!selector.project_id && !selector.section_id && !selector.label && !selector.ids),
+  { message: "A filter cannot be combined with other selectors; express them in the filter" }
+);
+
+export const BulkActionSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('complete') }),
+  z.object({ type: z.literal('delete') }),
+  z.object({ type: z.literal('add_labels'), labels: z.array(z.string().min(1)).min(1) }),
+  z.object({ type: z.literal('remove_labels'), labels: z.array(z.string().min(1)).min(1) }),
+  z.object({ type: z.literal('set_priority'), priority: z.number().int().min(1).max(4) }),
+  z.object({ type: z.literal('reschedule'), to: z.string().min(1) }),
+  z.object({ type: z.literal('move'), to: MoveTaskRequestSchema })
+]);
+
+export const BulkTaskRequestSchema = z.object({
+  selector: TaskSelectorSchema,
+  action: BulkActionSchema,
+  // Defaults to a preview; applying the action needs the token that preview returned
+  dry_run: z.boolean().default(true),
+  confirmation_token: z.string().min(1).optional()
+}).refine(
+  request => request.dry_run || request.confirmation_token,
+  { message: "confirmation_token is required when dry_run is false; run with dry_run first", path: ['confirmation_token'] }
+);
+
+export type TaskSelector = z.infer<typeof TaskSelectorSchema>;
+export type BulkAction = z.infer<typeof BulkActionSchema>;
+
+// Completed task history schemas
+const DateOrDateTimeSchema = z.string().refine(value => !isNaN(Date.parse(value)), {
+  message: "Must be an ISO 8601 date or datetime"
+});
+
+export const GetCompletedTasksQuerySchema = z.object({
+  project_id: z.string().optional(),
+  since: DateOrDateTimeSchema.optional(),
+  until: DateOrDateTimeSchema.optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  offset: z.coerce.number().int().min(0).default(0)
+}).refine(
+  query => !query.since || !query.until || Date.parse(query.since) <= Date.parse(query.until),
+  { message: "since must not be after until", path: ['since'] }
+);
+
+// Agenda and calendar schemas
+const TimeZoneSchema = z.string().refine(isValidTimeZone, "tz must be an IANA timezone such as Europe/Berlin");
+
+export const GetAgendaQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(31).default(7),
+  tz: TimeZoneSchema.optional(),
+  project_id: z.string().optional()
+});
+
+export const GetCalendarQuerySchema = z.object({
+  project_id: z.string().optional()
+});
+
+// Undo history schemas
+export const GetHistoryQuerySchema = z.object({
+  resource: z.enum(HISTORY_RESOURCES).optional(),
+  resource_id: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50)
+});
+
+// Audit log schemas
+export const AuditFilterSchema = z.object({
+  actor: z.string().optional(),
+  action: z.string().optional(),
+  resource: z.enum(HISTORY_RESOURCES).optional(),
+  resource_id: z.string().optional(),
+  request_id: z.string().optional(),
+  since: DateOrDateTimeSchema.optional(),
+  until: DateOrDateTimeSchema.optional()
+});
+
+export const GetAuditQuerySchema = AuditFilterSchema.extend({
+  limit: z.coerce.number().int().min(1).max(1000).default(100)
+});
+
+// Event stream and outbound webhook schemas
+const EventTypeSchema = z.enum(EVENT_TYPES);
+
+export const GetEventsQuerySchema = z.object({
+  types: z.string()
+    .transform(str => str.split(',').map(type => type.trim()))
+    .pipe(z.array(EventTypeSchema))
+    .optional()
+});
+
+export const CreateWebhookSubscriptionSchema = z.object({
+  url: z.string().url("url must be a valid URL").refine(
+    url => /^https?:\/\//.test(url),
+    { message: "url must use http or https" }
+  ).refine(
+    // Hostnames are resolved and checked again when the subscription is created and on every delivery
+    url => !URL.canParse(url) || !isPrivateHost(url),
+    { message: "url must not point to a private or loopback address" }
+  ),
+  events: z.array(EventTypeSchema).default([])
+});
@@ -0,0 +1,7 @@
+// Config is read when modules load, so set it up before any test imports src/
+process.env.NODE_ENV = 'test';
+process.env.TODOIST_API_KEY ??= 'test-token';
+process.env.LOG_LEVEL = 'error';
+// Keep writes made by the code under test out of data/
+process.env.HISTORY_MAX_ENTRIES = '0';
+process.env.AUDIT_LOG_ENABLED = 'false';
@@ -0,0 +1,147 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { AuditLog, diffFields } from '../../src/services/audit-log';
+import { redactSecrets, redactString } from '../../src/utils/redact';
+
+describe('diffFields', () => {
+  it('lists only the fields that changed', () => {
+    assert.deepEqual(
+      diffFields({ content: 'Old', priority: 1, labels: ['a'] }, { content: 'New', priority: 1, labels: ['a'] }),
+      { content: { before: 'Old', after: 'New' } }
+    );
+  });
+
+  it('compares arrays and objects by value', () => {
+    assert.deepEqual(
+      diffFields({ labels: ['a'], due: { date: '2026-03-09' } }, { labels: ['a', 'b'], due: { date: '2026-03-09' } }),
+      { labels: { before: ['a'], after: ['a', 'b'] } }
+    );
+  });
+
+  it('ignores fields present only before an update', () => {
+    assert.deepEqual(diffFields({ content: 'Same', url: 'https://todoist.com' }, { content: 'Same' }), {});
+  });
+
+  it('treats undefined and null alike', () => {
+    assert.deepEqual(diffFields({ deadline: null }, { deadline: undefined }), {});
+  });
+
+  it('records every field against null on create and delete', () => {
+    assert.deepEqual(diffFields(undefined, { content: 'Task', due: null }), {
+      content: { before: null, after: 'Task' }
+    });
+    assert.deepEqual(diffFields({ content: 'Task' }, undefined), {
+      content: { before: 'Task', after: null }
+    });
+  });
+});
+
+describe('AuditLog.entries', () => {
+  const entry = (id: string, userId = 'u1') => ({
+    id,
+    at: '2026-03-09T12:00:00.000Z',
+    request_id: null,
+    actor: 'client-a',
+    todoist_user_id: userId,
+    action: 'task.update',
+    resource: 'task',
+    resource_id: 't1',
+    history_id: null,
+    diff: {}
+  });
+
+  it('skips a line torn by a crash mid-append and keeps reading', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'audit-log-'));
+    const filePath = path.join(dir, 'audit.log');
+    const torn = JSON.stringify(entry('torn')).slice(0, 40);
+    await fs.writeFile(filePath, [entry('a'), entry('b', 'u2'), entry('c')].map(line => JSON.stringify(line)).join('\n') + `\n${torn}`);
+
+    try {
+      const log = new AuditLog(filePath, true);
+      assert.deepEqual((await log.query('u1', {}, 10)).map(found => found.id), ['c', 'a']);
+
+      // The next append starts on a new line instead of joining the torn one
+      const appended = await log.append('u1', { action: 'label.rename_shared', name: 'old', new_name: 'new' }, undefined);
+      assert.deepEqual((await log.query('u1', {}, 10)).map(found => found.id), [appended.id, 'c', 'a']);
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('treats a missing file as an empty log', async () => {
+    const log = new AuditLog(path.join(os.tmpdir(), 'missing-audit-log', 'audit.log'), true);
+    assert.deepEqual(await log.query('u1', {}, 10), []);
+  });
+});
+
+describe('redactString', () => {
+  it('redacts bearer credentials but keeps the scheme', () => {
+    assert.equal(redactString('Authorization: Bearer abc.def-123'), 'Authorization: Bearer [redacted]');
+  });
+
+  it('redacts 40-character hex tokens', () => {
+    const token = 'a'.repeat(20) + '0123456789';
+    assert.equal(redactString(`token ${token}0123456789 leaked`), 'token [redacted] leaked');
+  });
+
+  it('leaves ordinary text alone', () => {
+    assert.equal(redactString('Buy milk tomorrow at 3pm'), 'Buy milk tomorrow at 3pm');
+  });
+});
+
+describe('redactSecrets', () => {
+  it('replaces secret fields at any depth, matching names case-insensitively', () => {
+    assert.deepEqual(
+      redactSecrets({
+        headers: { Authorization: 'x', Cookie: 'y', 'content-type': 'application/json' },
+        client: { api_key: 'k', apiKey: 'k', key_hash: 'h', client_secret: 's', access_token: 't' }
+      }),
+      {
+        headers: { Authorization: '[redacted]', Cookie: '[redacted]', 'content-type': 'application/json' },
+        client: {
+          api_key: '[redacted]',
+          apiKey: '[redacted]',
+          key_hash: '[redacted]',
+          client_secret: '[redacted]',
+          access_token: '[redacted]'
+        }
+      }
+    );
+  });
+
+  it('keeps empty secret fields empty', () => {
+    assert.deepEqual(redactSecrets({ password: null, token: undefined }), { password: null, token: undefined });
+  });
+
+  it('redacts secret-looking strings inside arrays', () => {
+    assert.deepEqual(redactSecrets({ args: ['Bearer abc', 'plain'] }), { args: ['Bearer [redacted]', 'plain'] });
+  });
+
+  it('never modifies the input', () => {
+    const input = { token: 'secret-value', nested: { note: 'Bearer abc' } };
+    const output = redactSecrets(input);
+    assert.deepEqual(input, { token: 'secret-value', nested: { note: 'Bearer abc' } });
+    assert.notEqual(output, input);
+  });
+
+  it('copies errors, keeping their class and redacting the message and fields', () => {
+    const error = Object.assign(new TypeError('request failed: Bearer abc'), { token: 't' });
+    const redacted = redactSecrets(error);
+
+    assert.notEqual(redacted, error);
+    assert.ok(redacted instanceof TypeError);
+    assert.equal(redacted.message, 'request failed: Bearer [redacted]');
+    assert.equal((redacted as TypeError & { token: string }).token, '[redacted]');
+    assert.equal(error.message, 'request failed: Bearer abc');
+  });
+
+  it('stops at circular references', () => {
+    const input: Record<string, unknown> = { name: 'loop' };
+    input.self = input;
+    const output = redactSecrets(input);
+    assert.equal(output.name, 'loop');
+  });
+});
@@ -0,0 +1,254 @@
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { BaseService, CircuitBreaker, RetryPolicy, retryAfterMs, todoistEndpoint } from '../../src/services/base.service';
+import { TodoistUnavailableError } from '../../src/middleware/error-handler';
+
+const TASKS_URL = 'https://api.todoist.com/rest/v2/tasks';
+const POLICY: RetryPolicy = { timeoutMs: 1000, maxRetries: 3, baseDelayMs: 100, maxDelayMs: 1000 };
+
+class TestClient extends BaseService {
+  constructor(breaker = new CircuitBreaker(5, 10_000), policy = POLICY) {
+    super(breaker, policy);
+  }
+
+  request(init: RequestInit = {}): Promise<Response> {
+    return this.fetchWithRetry(TASKS_URL, init);
+  }
+}
+
+type Reply = Response | Error;
+
+// Stub fetch with queued replies, recording when (on the fake clock) each attempt was made
+function stubFetch(...replies: Reply[]): { at: number[]; headers: Headers[] } {
+  const calls = { at: [] as number[], headers: [] as Headers[] };
+  mock.method(globalThis, 'fetch', async (_url: string, init: RequestInit) => {
+    calls.at.push(Date.now());
+    calls.headers.push(new Headers(init.headers));
+    const reply = replies.shift();
+    if (!reply) throw new Error('Unexpected fetch');
+    if (reply instanceof Error) throw reply;
+    return reply;
+  });
+  return calls;
+}
+
+const status = (code: number, headers: Record<string, string> = {}): Response => new Response('{}', { status: code, headers });
+
+// Advance the fake clock a millisecond at a time until the request settles
+async function settle<T>(promise: Promise<T>): Promise<T> {
+  let done = false;
+  promise.then(() => { done = true; }, () => { done = true; });
+  while (!done) {
+    await new Promise(resolve => setImmediate(resolve));
+    mock.timers.tick(1);
+  }
+  return promise;
+}
+
+const gaps = (at: number[]): number[] => at.slice(1).map((time, index) => time - at[index]);
+
+describe('BaseService.fetchWithRetry', () => {
+  beforeEach(() => {
+    mock.timers.enable({ apis: ['setTimeout', 'Date'], now: 0 });
+    // Full jitter picks a delay up to the ceiling; pin it to the ceiling
+    mock.method(Math, 'random', () => 1);
+  });
+
+  afterEach(() => {
+    mock.timers.reset();
+    mock.restoreAll();
+  });
+
+  it('retries 5xx responses with exponential backoff', async () => {
+    const calls = stubFetch(status(503), status(502), status(200));
+    const response = await settle(new TestClient().request());
+
+    assert.equal(response.status, 200);
+    assert.deepEqual(gaps(calls.at), [100, 200]);
+  });
+
+  it('caps the backoff at maxDelayMs', async () => {
+    const calls = stubFetch(status(500), status(500), status(500), status(200));
+    const client = new TestClient(undefined, { ...POLICY, baseDelayMs: 400 });
+
+    assert.equal((await settle(client.request())).status, 200);
+    assert.deepEqual(gaps(calls.at), [400, 800, 1000]);
+  });
+
+  it('returns the last response once retries run out', async () => {
+    const calls = stubFetch(status(503), status(503), status(503), status(503));
+    const response = await settle(new TestClient().request());
+
+    assert.equal(response.status, 503);
+    assert.equal(calls.at.length, POLICY.maxRetries + 1);
+  });
+
+  it('waits for Retry-After on a 429 instead of backing off', async () => {
+    const calls = stubFetch(status(429, { 'Retry-After': '0.5' }), status(200));
+
+    assert.equal((await settle(new TestClient().request())).status, 200);
+    assert.deepEqual(gaps(calls.at), [500]);
+  });
+
+  it('gives up at once when Retry-After is longer than maxDelayMs', async () => {
+    const calls = stubFetch(status(429, { 'Retry-After': '30' }));
+    const response = await settle(new TestClient().request());
+
+    assert.equal(response.status, 429);
+    assert.equal(calls.at.length, 1);
+  });
+
+  it('does not retry other 4xx responses', async () => {
+    for (const code of [400, 401, 403, 404, 409]) {
+      const calls = stubFetch(status(code));
+      assert.equal((await settle(new TestClient().request())).status, code);
+      assert.equal(calls.at.length, 1);
+      mock.restoreAll();
+      mock.method(Math, 'random', () => 1);
+    }
+  });
+
+  it('retries network errors and then reports Todoist as unavailable', async () => {
+    const calls = stubFetch(...Array.from({ length: 4 }, () => new TypeError('fetch failed')));
+
+    await assert.rejects(settle(new TestClient().request()), (error: unknown) =>
+      error instanceof TodoistUnavailableError && error.reason === 'network'
+    );
+    assert.deepEqual(gaps(calls.at), [100, 200, 400]);
+  });
+
+  it('sends one X-Request-Id across every attempt of a write', async () => {
+    const calls = stubFetch(status(503), status(200));
+    await settle(new TestClient().request({ method: 'POST' }));
+
+    const [first, second] = calls.headers.map(headers => headers.get('X-Request-Id'));
+    assert.ok(first);
+    assert.equal(first, second);
+  });
+
+  it('stops calling Todoist once the circuit opens', async () => {
+    const calls = stubFetch(status(503), status(503));
+    const breaker = new CircuitBreaker(2, 10_000);
+    const client = new TestClient(breaker, { ...POLICY, maxRetries: 5 });
+
+    await assert.rejects(settle(client.request()), (error: unknown) =>
+      error instanceof TodoistUnavailableError && error.reason === 'circuit_open'
+    );
+    assert.equal(calls.at.length, 2);
+    assert.equal(breaker.status.state, 'open');
+  });
+});
+
+describe('CircuitBreaker', () => {
+  beforeEach(() => {
+    mock.timers.enable({ apis: ['Date'], now: Date.parse('2026-03-10T12:00:00Z') });
+  });
+
+  afterEach(() => {
+    mock.timers.reset();
+  });
+
+  const open = (): CircuitBreaker => {
+    const breaker = new CircuitBreaker(3, 10_000);
+    for (let failure = 0; failure < 3; failure++) {
+      breaker.acquire();
+      breaker.recordFailure();
+    }
+    return breaker;
+  };
+
+  it('opens after the threshold of consecutive failures', () => {
+    const breaker = new CircuitBreaker(3, 10_000);
+    breaker.recordFailure();
+    breaker.recordFailure();
+    breaker.recordSuccess();
+    breaker.recordFailure();
+    breaker.recordFailure();
+    assert.equal(breaker.status.state, 'closed');
+
+    breaker.recordFailure();
+    assert.deepEqual(breaker.status, {
+      state: 'open',
+      consecutive_failures: 3,
+      opened_at: '2026-03-10T12:00:00.000Z',
+      retry_at: '2026-03-10T12:00:10.000Z'
+    });
+  });
+
+  it('rejects requests while open, saying when to retry', () => {
+    const breaker = open();
+    mock.timers.tick(4000);
+
+    assert.throws(() => breaker.acquire(), (error: unknown) =>
+      error instanceof TodoistUnavailableError && error.reason === 'circuit_open' && error.retryAfterMs === 6000
+    );
+  });
+
+  it('lets one trial through after the reset period and closes when it succeeds', () => {
+    const breaker = open();
+    mock.timers.tick(10_000);
+
+    breaker.acquire();
+    assert.equal(breaker.status.state, 'half_open');
+    assert.throws(() => breaker.acquire(), TodoistUnavailableError);
+
+    breaker.recordSuccess();
+    assert.equal(breaker.status.state, 'closed');
+    breaker.acquire();
+  });
+
+  it('re-opens when the trial fails', () => {
+    const breaker = open();
+    mock.timers.tick(10_000);
+
+    breaker.acquire();
+    breaker.recordFailure();
+    assert.equal(breaker.status.state, 'open');
+    assert.equal(breaker.status.opened_at, '2026-03-10T12:00:10.000Z');
+    assert.throws(() => breaker.acquire(), TodoistUnavailableError);
+  });
+});
+
+describe('retryAfterMs', () => {
+  beforeEach(() => {
+    mock.timers.enable({ apis: ['Date'], now: Date.parse('2026-03-10T12:00:00Z') });
+  });
+
+  afterEach(() => {
+    mock.timers.reset();
+  });
+
+  it('reads seconds and HTTP dates', () => {
+    assert.equal(retryAfterMs(new Headers({ 'Retry-After': '3' })), 3000);
+    assert.equal(retryAfterMs(new Headers({ 'Retry-After': 'Tue, 10 Mar 2026 12:00:05 GMT' })), 5000);
+    assert.equal(retryAfterMs(new Headers({ 'Retry-After': 'Tue, 10 Mar 2026 11:00:00 GMT' })), 0);
+    assert.equal(retryAfterMs(new Headers({ 'Retry-After': 'soon' })), undefined);
+    assert.equal(retryAfterMs(new Headers()), undefined);
+  });
+});
+
+describe('todoistEndpoint', () => {
+  it('replaces alphanumeric IDs with :id', () => {
+    assert.equal(todoistEndpoint('https://api.todoist.com/rest/v2/tasks/6X7rM8997g3RQmvh/close'), '/rest/v2/tasks/:id/close');
+  });
+
+  it('replaces numeric IDs with :id', () => {
+    assert.equal(todoistEndpoint('https://api.todoist.com/rest/v2/projects/2203306141'), '/rest/v2/projects/:id');
+  });
+
+  it('keeps API version segments', () => {
+    assert.equal(todoistEndpoint('https://api.todoist.com/sync/v9/sync'), '/sync/v9/sync');
+    assert.equal(todoistEndpoint('https://api.todoist.com/api/v1/tasks'), '/api/v1/tasks');
+  });
+
+  it('drops the query string', () => {
+    assert.equal(
+      todoistEndpoint('https://api.todoist.com/rest/v2/comments?task_id=6X7rM8997g3RQmvh'),
+      '/rest/v2/comments'
+    );
+  });
+
+  it('leaves paths without IDs unchanged', () => {
+    assert.equal(todoistEndpoint('https://api.todoist.com/rest/v2/labels/shared/rename'), '/rest/v2/labels/shared/rename');
+  });
+});
@@ -0,0 +1,178 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildCalendar, toRRule } from '../../src/services/calendar.service';
+import { Task } from '../../src/services/todoist.service';
+
+const NOW = new Date('2026-03-10T12:00:00Z');
+
+function task(overrides: Partial<Task>): Task {
+  return {
+    id: '1',
+    content: 'Task',
+    description: '',
+    is_completed: false,
+    labels: [],
+    order: 1,
+    priority: 1,
+    project_id: 'p1',
+    section_id: null,
+    parent_id: null,
+    creator_id: 'u1',
+    created_at: '2026-03-01T00:00:00Z',
+    assignee_id: null,
+    assigner_id: null,
+    comment_count: 0,
+    url: 'https://todoist.com/showTask?id=1',
+    due: { date: '2026-03-12', string: 'mar 12', lang: 'en', is_recurring: false },
+    duration: null,
+    ...overrides
+  } as Task;
+}
+
+// Content lines of the single event, unfolded
+function eventLines(calendar: string): string[] {
+  const lines = calendar.replace(/\r\n /g, '').split('\r\n');
+  return lines.slice(lines.indexOf('BEGIN:VEVENT') + 1, lines.indexOf('END:VEVENT'));
+}
+
+// Content lines of the VTIMEZONE for a zone, unfolded
+function timeZoneLines(calendar: string, timeZone: string): string[] {
+  const lines = calendar.replace(/\r\n /g, '').split('\r\n');
+  const start = lines.indexOf(`TZID:${timeZone}`) - 1;
+  return start < 0 ? [] : lines.slice(start, lines.indexOf('END:VTIMEZONE', start) + 1);
+}
+
+const zoned = (timeZone: string, id = '1'): Task => task({
+  id,
+  due: { date: '2026-03-12', datetime: '2026-03-12T16:00:00Z', timezone: timeZone, string: 'mar 12 9am', lang: 'en', is_recurring: false }
+});
+
+describe('buildCalendar', () => {
+  it('ends every line with CRLF and skips undated tasks', () => {
+    const calendar = buildCalendar([task({}), task({ id: '2', due: null })], 'Todoist', NOW);
+
+    assert.ok(calendar.endsWith('END:VCALENDAR\r\n'));
+    assert.ok(!/[^\r]\n/.test(calendar));
+    assert.equal(calendar.match(/BEGIN:VEVENT/g)?.length, 1);
+  });
+
+  it('writes all-day tasks as a date range ending the next day', () => {
+    const lines = eventLines(buildCalendar([task({})], 'Todoist', NOW));
+
+    assert.ok(lines.includes('DTSTART;VALUE=DATE:20260312'));
+    assert.ok(lines.includes('DTEND;VALUE=DATE:20260313'));
+    assert.ok(lines.includes('DTSTAMP:20260310T120000Z'));
+  });
+
+  it('writes zoned times as local time with a TZID, even past midnight UTC', () => {
+    const lines = eventLines(buildCalendar([task({
+      due: { date: '2026-03-12', datetime: '2026-03-13T06:30:00Z', timezone: 'America/Los_Angeles', string: 'mar 12 11:30pm', lang: 'en', is_recurring: false }
+    })], 'Todoist', NOW));
+
+    assert.ok(lines.includes('DTSTART;TZID=America/Los_Angeles:20260312T233000'));
+    assert.ok(lines.includes('DTEND;TZID=America/Los_Angeles:20260313T000000'));
+  });
+
+  it('defines every referenced TZID once, with yearly DST rules', () => {
+    const calendar = buildCalendar([zoned('America/Los_Angeles'), zoned('America/Los_Angeles', '2'), task({})], 'Todoist', NOW);
+
+    assert.equal(calendar.match(/BEGIN:VTIMEZONE/g)?.length, 1);
+    assert.ok(calendar.indexOf('END:VTIMEZONE') < calendar.indexOf('BEGIN:VEVENT'));
+    assert.deepEqual(timeZoneLines(calendar, 'America/Los_Angeles'), [
+      'BEGIN:VTIMEZONE',
+      'TZID:America/Los_Angeles',
+      'BEGIN:DAYLIGHT',
+      'DTSTART:19700308T020000',
+      'RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=2SU',
+      'TZOFFSETFROM:-0800',
+      'TZOFFSETTO:-0700',
+      'END:DAYLIGHT',
+      'BEGIN:STANDARD',
+      'DTSTART:19701101T020000',
+      'RRULE:FREQ=YEARLY;BYMONTH=11;BYDAY=1SU',
+      'TZOFFSETFROM:-0700',
+      'TZOFFSETTO:-0800',
+      'END:STANDARD',
+      'END:VTIMEZONE'
+    ]);
+  });
+
+  it('uses last-weekday rules and southern hemisphere seasons', () => {
+    const calendar = buildCalendar([zoned('Europe/Berlin'), zoned('Australia/Sydney', '2')], 'Todoist', NOW);
+
+    const berlin = timeZoneLines(calendar, 'Europe/Berlin');
+    assert.ok(berlin.includes('RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=-1SU'));
+    assert.ok(berlin.includes('RRULE:FREQ=YEARLY;BYMONTH=10;BYDAY=-1SU'));
+
+    const sydney = timeZoneLines(calendar, 'Australia/Sydney');
+    assert.deepEqual(sydney.slice(2, 7), [
+      'BEGIN:STANDARD',
+      'DTSTART:19700405T030000',
+      'RRULE:FREQ=YEARLY;BYMONTH=4;BYDAY=1SU',
+      'TZOFFSETFROM:+1100',
+      'TZOFFSETTO:+1000'
+    ]);
+  });
+
+  it('gives zones without DST a single fixed observance', () => {
+    assert.deepEqual(timeZoneLines(buildCalendar([zoned('Asia/Kolkata')], 'Todoist', NOW), 'Asia/Kolkata'), [
+      'BEGIN:VTIMEZONE',
+      'TZID:Asia/Kolkata',
+      'BEGIN:STANDARD',
+      'DTSTART:19700101T000000',
+      'TZOFFSETFROM:+0530',
+      'TZOFFSETTO:+0530',
+      'END:STANDARD',
+      'END:VTIMEZONE'
+    ]);
+  });
+
+  it('adds no VTIMEZONE for all-day or floating times', () => {
+    const floating = task({ due: { date: '2026-03-12', datetime: '2026-03-12T09:00:00', string: 'mar 12 9am', lang: 'en', is_recurring: false } });
+    assert.ok(!buildCalendar([task({}), floating], 'Todoist', NOW).includes('VTIMEZONE'));
+  });
+
+  it('escapes TEXT values', () => {
+    const lines = eventLines(buildCalendar([task({
+      content: 'Milk, eggs; bread\\jam',
+      description: 'line one\nline two',
+      labels: ['a,b']
+    })], 'Todoist', NOW));
+
+    assert.ok(lines.includes('SUMMARY:Milk\\, eggs\\; bread\\\\jam'));
+    assert.ok(lines.includes('DESCRIPTION:line one\\nline two\\n\\nhttps://todoist.com/showTask?id=1'));
+    assert.ok(lines.includes('CATEGORIES:a\\,b'));
+  });
+
+  it('folds long lines at 75 octets without splitting characters', () => {
+    const content = 'é'.repeat(100);
+    const calendar = buildCalendar([task({ content })], 'Todoist', NOW);
+    const physical = calendar.split('\r\n');
+
+    for (const line of physical) {
+      assert.ok(Buffer.byteLength(line) <= 75, `${Buffer.byteLength(line)} octets: ${line}`);
+      assert.ok(!line.includes('�'));
+    }
+    assert.ok(physical.some(line => line.startsWith(' é')));
+    assert.ok(eventLines(calendar).includes(`SUMMARY:${content}`));
+  });
+
+  it('adds an RRULE for recurrences it can expand', () => {
+    const recurring = (string: string) => eventLines(buildCalendar([task({
+      due: { date: '2026-03-09', string, lang: 'en', is_recurring: true }
+    })], 'Todoist', NOW));
+
+    assert.ok(recurring('every other monday').includes('RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO'));
+    assert.ok(!recurring('every full moon').some(line => line.startsWith('RRULE')));
+  });
+});
+
+describe('toRRule', () => {
+  it('maps every rule shape', () => {
+    assert.equal(toRRule({ unit: 'day', interval: 1 }), 'FREQ=DAILY');
+    assert.equal(toRRule({ unit: 'week', interval: 1, weekdays: [1, 3, 5] }), 'FREQ=WEEKLY;BYDAY=MO,WE,FR');
+    assert.equal(toRRule({ unit: 'month', interval: 3, month_days: [1, -1] }), 'FREQ=MONTHLY;INTERVAL=3;BYMONTHDAY=1,-1');
+    assert.equal(toRRule({ unit: 'month', interval: 1, nth_weekday: { week: -1, weekday: 5 } }), 'FREQ=MONTHLY;BYDAY=-1FR');
+    assert.equal(toRRule({ unit: 'year', interval: 1 }), 'FREQ=YEARLY');
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { randomBytes } from 'crypto';
+import { encrypt, decrypt } from '../../src/utils/crypto';
+
+const key = randomBytes(32);
+
+describe('encrypt / decrypt', () => {
+  it('round-trips a value, including non-ASCII text', () => {
+    const plaintext = 'access-token-ünïcødé-✓';
+    assert.equal(decrypt(encrypt(plaintext, key), key), plaintext);
+  });
+
+  it('uses a fresh IV every time, so equal plaintexts encrypt differently', () => {
+    const first = encrypt('same', key);
+    const second = encrypt('same', key);
+    assert.notEqual(first.iv, second.iv);
+    assert.notEqual(first.data, second.data);
+    assert.equal(Buffer.from(first.iv, 'base64').length, 12);
+  });
+
+  it('throws with the wrong key', () => {
+    const value = encrypt('secret', key);
+    assert.throws(() => decrypt(value, randomBytes(32)));
+  });
+
+  it('throws when the ciphertext or tag was tampered with', () => {
+    const value = encrypt('secret', key);
+    const data = Buffer.from(value.data, 'base64');
+    data[0] ^= 1;
+    assert.throws(() => decrypt({ ...value, data: data.toString('base64') }, key));
+
+    const tag = Buffer.from(value.tag, 'base64');
+    tag[0] ^= 1;
+    assert.throws(() => decrypt({ ...value, tag: tag.toString('base64') }, key));
+  });
+});
@@ -0,0 +1,196 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  TaskDue,
+  dueWallTime,
+  expandOccurrences,
+  nextDate,
+  parseRecurrence,
+  rescheduleDue,
+  resolveDatePhrase
+} from '../../src/services/due-dates.service';
+import { ValidationError } from '../../src/middleware/error-handler';
+
+// Monday 2026-03-09 22:00 (PDT) in Los Angeles, already Tuesday 2026-03-10 in UTC
+const LATE_EVENING = new Date('2026-03-10T05:00:00Z');
+// New Year's Eve 19:00 in Los Angeles, already 2027 in UTC
+const NEW_YEARS_EVE = new Date('2027-01-01T03:00:00Z');
+
+const LA = 'America/Los_Angeles';
+
+describe('resolveDatePhrase', () => {
+  it('passes ISO dates through', () => {
+    assert.equal(resolveDatePhrase('2026-05-01', LA, LATE_EVENING), '2026-05-01');
+    assert.equal(resolveDatePhrase('2028-02-29', LA, LATE_EVENING), '2028-02-29');
+  });
+
+  it('rejects ISO dates that do not exist', () => {
+    assert.equal(resolveDatePhrase('2026-02-31', LA, LATE_EVENING), null);
+    assert.equal(resolveDatePhrase('2026-02-29', LA, LATE_EVENING), null);
+    assert.equal(resolveDatePhrase('2026-04-31', LA, LATE_EVENING), null);
+    assert.equal(resolveDatePhrase('2026-13-01', LA, LATE_EVENING), null);
+    assert.equal(resolveDatePhrase('2026-01-32', LA, LATE_EVENING), null);
+  });
+
+  it('reads today and tomorrow in the given timezone', () => {
+    assert.equal(resolveDatePhrase('today', LA, LATE_EVENING), '2026-03-09');
+    assert.equal(resolveDatePhrase('tomorrow', LA, LATE_EVENING), '2026-03-10');
+    assert.equal(resolveDatePhrase('today', 'UTC', LATE_EVENING), '2026-03-10');
+    assert.equal(resolveDatePhrase('tmrw', 'UTC', LATE_EVENING), '2026-03-11');
+  });
+
+  it('picks the next matching weekday, a week out for today\'s weekday', () => {
+    assert.equal(resolveDatePhrase('tuesday', LA, LATE_EVENING), '2026-03-10');
+    assert.equal(resolveDatePhrase('tuesday', 'UTC', LATE_EVENING), '2026-03-17');
+    assert.equal(resolveDatePhrase('next fri', LA, LATE_EVENING), '2026-03-13');
+    assert.equal(resolveDatePhrase('next week', LA, LATE_EVENING), '2026-03-16');
+  });
+
+  it('needs at least three letters of a weekday', () => {
+    assert.equal(resolveDatePhrase('wed', LA, LATE_EVENING), '2026-03-11');
+    assert.equal(resolveDatePhrase('thurs', LA, LATE_EVENING), '2026-03-12');
+    for (const phrase of ['m', 't', 's', 'on t', 'next s', 'we', 'su']) {
+      assert.equal(resolveDatePhrase(phrase, LA, LATE_EVENING), null, phrase);
+    }
+  });
+
+  it('adds relative days and weeks', () => {
+    assert.equal(resolveDatePhrase('in 3 days', LA, LATE_EVENING), '2026-03-12');
+    assert.equal(resolveDatePhrase('in 2 weeks', LA, LATE_EVENING), '2026-03-23');
+  });
+
+  it('adds relative months and years, clamping to the end of shorter months', () => {
+    assert.equal(resolveDatePhrase('in 1 month', LA, LATE_EVENING), '2026-04-09');
+    assert.equal(resolveDatePhrase('in 3 months', LA, LATE_EVENING), '2026-06-09');
+    assert.equal(resolveDatePhrase('in 2 years', LA, LATE_EVENING), '2028-03-09');
+    assert.equal(resolveDatePhrase('in 1 month', 'UTC', new Date('2026-01-31T12:00:00Z')), '2026-02-28');
+  });
+
+  it('moves a month and day that already passed to next year', () => {
+    assert.equal(resolveDatePhrase('march 1', LA, LATE_EVENING), '2027-03-01');
+    assert.equal(resolveDatePhrase('March 30th', LA, LATE_EVENING), '2026-03-30');
+    assert.equal(resolveDatePhrase('30 march 2028', LA, LATE_EVENING), '2028-03-30');
+  });
+
+  it('rolls the year over in the given timezone', () => {
+    assert.equal(resolveDatePhrase('dec 31', LA, NEW_YEARS_EVE), '2026-12-31');
+    assert.equal(resolveDatePhrase('dec 31', 'UTC', NEW_YEARS_EVE), '2027-12-31');
+    assert.equal(resolveDatePhrase('jan 1', LA, NEW_YEARS_EVE), '2027-01-01');
+  });
+
+  it('rejects dates that do not exist and phrases it does not know', () => {
+    assert.equal(resolveDatePhrase('feb 29', LA, LATE_EVENING), null);
+    assert.equal(resolveDatePhrase('feb 29 2028', LA, LATE_EVENING), '2028-02-29');
+    assert.equal(resolveDatePhrase('someday', LA, LATE_EVENING), null);
+  });
+});
+
+describe('parseRecurrence', () => {
+  it('parses plain intervals and their synonyms', () => {
+    assert.deepEqual(parseRecurrence('every day'), { unit: 'day', interval: 1 });
+    assert.deepEqual(parseRecurrence('daily'), { unit: 'day', interval: 1 });
+    assert.deepEqual(parseRecurrence('every other week'), { unit: 'week', interval: 2 });
+    assert.deepEqual(parseRecurrence('every 3 months'), { unit: 'month', interval: 3 });
+    assert.deepEqual(parseRecurrence('every day starting march 1'), { unit: 'day', interval: 1 });
+  });
+
+  it('parses weekdays, ignoring the time of day', () => {
+    assert.deepEqual(parseRecurrence('every weekday'), { unit: 'week', interval: 1, weekdays: [1, 2, 3, 4, 5] });
+    assert.deepEqual(parseRecurrence('every friday, monday and wednesday at 9am'), { unit: 'week', interval: 1, weekdays: [1, 3, 5] });
+    assert.deepEqual(parseRecurrence('ev! mon'), { unit: 'week', interval: 1, weekdays: [1] });
+  });
+
+  it('parses nth weekdays and days of the month', () => {
+    assert.deepEqual(parseRecurrence('every 2nd monday'), { unit: 'month', interval: 1, nth_weekday: { week: 2, weekday: 1 } });
+    assert.deepEqual(parseRecurrence('every last friday'), { unit: 'month', interval: 1, nth_weekday: { week: -1, weekday: 5 } });
+    assert.deepEqual(parseRecurrence('every 15th and 1st'), { unit: 'month', interval: 1, month_days: [1, 15] });
+    assert.deepEqual(parseRecurrence('every last day'), { unit: 'month', interval: 1, month_days: [-1] });
+    assert.deepEqual(parseRecurrence('every march 30'), { unit: 'year', interval: 1 });
+  });
+
+  it('returns null for what it cannot expand', () => {
+    assert.equal(parseRecurrence('tomorrow'), null);
+    assert.equal(parseRecurrence('every full moon'), null);
+  });
+});
+
+describe('nextDate', () => {
+  it('clamps monthly dates to short months and returns to the anchor day', () => {
+    const rule = { unit: 'month' as const, interval: 1 };
+    assert.equal(nextDate(rule, '2026-01-31', '2026-01-31'), '2026-02-28');
+    assert.equal(nextDate(rule, '2026-01-31', '2026-02-28'), '2026-03-31');
+  });
+
+  it('fires a 31st on the last day of shorter months', () => {
+    const rule = { unit: 'month' as const, interval: 1, month_days: [31] };
+    assert.equal(nextDate(rule, '2026-01-31', '2026-01-31'), '2026-02-28');
+    assert.equal(nextDate(rule, '2026-01-31', '2026-02-28'), '2026-03-31');
+  });
+
+  it('keeps yearly leap-day tasks in February', () => {
+    assert.equal(nextDate({ unit: 'year', interval: 1 }, '2024-02-29', '2024-02-29'), '2025-02-28');
+  });
+
+  it('only counts weeks an interval away from the anchor', () => {
+    assert.equal(nextDate({ unit: 'week', interval: 2, weekdays: [1] }, '2026-03-09', '2026-03-09'), '2026-03-23');
+  });
+
+  it('finds nth weekdays and skips months without them', () => {
+    assert.equal(nextDate({ unit: 'month', interval: 1, nth_weekday: { week: -1, weekday: 5 } }, '2026-03-27', '2026-03-27'), '2026-04-24');
+    assert.equal(nextDate({ unit: 'month', interval: 1, nth_weekday: { week: 5, weekday: 1 } }, '2026-03-30', '2026-03-30'), '2026-06-29');
+  });
+});
+
+describe('due wall time', () => {
+  const lateEveningDue: TaskDue = {
+    date: '2026-03-09',
+    datetime: '2026-03-10T06:30:00Z',
+    timezone: LA,
+    string: 'mar 9 11:30pm',
+    lang: 'en',
+    is_recurring: false
+  };
+
+  it('reads a zoned datetime near midnight on the task\'s local date', () => {
+    assert.deepEqual(dueWallTime(lateEveningDue), { date: '2026-03-09', time: '23:30:00' });
+  });
+
+  it('reads floating datetimes as written', () => {
+    assert.deepEqual(
+      dueWallTime({ date: '2026-03-10', datetime: '2026-03-10T09:00:00', string: 'mar 10 9am', lang: 'en', is_recurring: false }),
+      { date: '2026-03-10', time: '09:00:00' }
+    );
+  });
+
+  it('keeps the local time of day when rescheduling', () => {
+    const { to, reschedule } = rescheduleDue(lateEveningDue, '2026-03-20');
+    // 23:30 PDT on March 20 is 06:30 UTC on March 21
+    assert.deepEqual(to, { date: '2026-03-20', datetime: '2026-03-21T06:30:00Z' });
+    assert.deepEqual(reschedule, { date: '2026-03-21T06:30:00Z', timezone: LA });
+  });
+});
+
+describe('expandOccurrences', () => {
+  it('keeps the local time across a DST change', () => {
+    const { occurrences } = expandOccurrences({
+      date: '2026-03-07',
+      datetime: '2026-03-07T17:00:00Z',
+      timezone: LA,
+      string: 'every saturday at 9am',
+      lang: 'en',
+      is_recurring: true
+    }, 2);
+
+    assert.deepEqual(occurrences, [
+      { date: '2026-03-07', datetime: '2026-03-07T17:00:00Z' },
+      { date: '2026-03-14', datetime: '2026-03-14T16:00:00Z' }
+    ]);
+  });
+
+  it('rejects recurrences it cannot expand', () => {
+    assert.throws(
+      () => expandOccurrences({ date: '2026-03-07', string: 'every full moon', lang: 'en', is_recurring: true }, 3),
+      ValidationError
+    );
+  });
+});
@@ -0,0 +1,33 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHmac } from 'crypto';
+import { verifyWebhookSignature } from '../../src/services/events';
+
+const SECRET = 'client-secret';
+const body = Buffer.from(JSON.stringify({ event_name: 'item:added', user_id: '1', event_data: { id: '2' } }));
+const sign = (raw: Buffer, secret = SECRET): string => createHmac('sha256', secret).update(raw).digest('base64');
+
+describe('verifyWebhookSignature', () => {
+  it('accepts the base64 HMAC-SHA256 of the raw body', () => {
+    assert.equal(verifyWebhookSignature(body, sign(body), SECRET), true);
+  });
+
+  it('rejects a missing signature', () => {
+    assert.equal(verifyWebhookSignature(body, undefined, SECRET), false);
+    assert.equal(verifyWebhookSignature(body, '', SECRET), false);
+  });
+
+  it('rejects a signature made with another secret', () => {
+    assert.equal(verifyWebhookSignature(body, sign(body, 'other-secret'), SECRET), false);
+  });
+
+  it('rejects a body changed after signing, even by re-serialising', () => {
+    const reformatted = Buffer.from(JSON.stringify(JSON.parse(body.toString()), null, 2));
+    assert.equal(verifyWebhookSignature(reformatted, sign(body), SECRET), false);
+  });
+
+  it('rejects signatures of the wrong length without throwing', () => {
+    assert.equal(verifyWebhookSignature(body, sign(body).slice(0, 20), SECRET), false);
+    assert.equal(verifyWebhookSignature(body, 'not base64 at all!', SECRET), false);
+  });
+});
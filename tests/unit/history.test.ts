@@ -0,0 +1,85 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { HistoryStore } from '../../src/services/history-store';
+import { HistoryService } from '../../src/services/history.service';
+import { ConflictError } from '../../src/middleware/error-handler';
+import type { Task, TodoistService } from '../../src/services/todoist.service';
+
+const task = { id: 't1', content: 'Task' } as Task;
+
+function fakeTodoist(deleteTask: () => Promise<void>): TodoistService {
+  return { getUserId: async () => 'u1', deleteTask } as unknown as TodoistService;
+}
+
+describe('HistoryStore', () => {
+  let dir: string;
+
+  before(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'history-'));
+  });
+
+  after(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('keeps each user in a file of their own, bounded to maxEntries', async () => {
+    const store = new HistoryStore(dir, 2);
+    for (const id of ['a', 'b', 'c']) {
+      await store.append('u1', { action: 'task.create', task: { ...task, id } });
+    }
+    await store.append('u2', { action: 'task.create', task });
+
+    const saved = JSON.parse(await fs.readFile(path.join(dir, 'u1.json'), 'utf8'));
+    assert.deepEqual(saved.map((entry: { resource_id: string }) => entry.resource_id), ['b', 'c']);
+    assert.equal(JSON.parse(await fs.readFile(path.join(dir, 'u2.json'), 'utf8')).length, 1);
+  });
+});
+
+describe('HistoryService.undo', () => {
+  let dir: string;
+
+  before(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'history-undo-'));
+  });
+
+  after(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('applies an entry once when two undos race', async () => {
+    const store = new HistoryStore(dir, 10);
+    const entry = await store.append('u1', { action: 'task.create', task });
+
+    let calls = 0;
+    const service = new HistoryService(fakeTodoist(async () => {
+      calls++;
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }), store);
+
+    const results = await Promise.allSettled([service.undo(entry.id), service.undo(entry.id)]);
+
+    assert.equal(calls, 1);
+    assert.equal(results.filter(result => result.status === 'fulfilled').length, 1);
+    const rejected = results.find(result => result.status === 'rejected') as PromiseRejectedResult;
+    assert.ok(rejected.reason instanceof ConflictError);
+    await assert.rejects(service.undo(entry.id), ConflictError);
+  });
+
+  it('releases the entry when the undo fails, so it can be retried', async () => {
+    const store = new HistoryStore(dir, 10);
+    const entry = await store.append('u1', { action: 'task.create', task });
+
+    let fail = true;
+    const service = new HistoryService(fakeTodoist(async () => {
+      if (fail) throw new Error('Todoist unavailable');
+    }), store);
+
+    await assert.rejects(service.undo(entry.id), /Todoist unavailable/);
+    fail = false;
+    const result = await service.undo(entry.id);
+    assert.ok(result.entry.undone_at);
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { JsonFileStore } from '../../src/services/json-file-store';
+
+describe('JsonFileStore', () => {
+  let dir: string;
+
+  before(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'json-file-store-'));
+  });
+
+  after(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('starts from the empty value when the file does not exist', async () => {
+    const store = new JsonFileStore<string[]>(path.join(dir, 'missing.json'), 'test', () => []);
+    assert.deepEqual(await store.load(), []);
+  });
+
+  it('shares one read between concurrent first loads', async () => {
+    const store = new JsonFileStore<Record<string, number>>(path.join(dir, 'shared.json'), 'test', () => ({}));
+    const [first, second] = await Promise.all([store.load(), store.load()]);
+    assert.equal(first, second);
+  });
+
+  it('persists every concurrent mutation, in a private file, without leaving the temp file', async () => {
+    const filePath = path.join(dir, 'nested', 'concurrent.json');
+    const store = new JsonFileStore<Record<string, number>>(filePath, 'test', () => ({}));
+
+    await Promise.all(Array.from({ length: 20 }, async (_, index) => {
+      (await store.load())[`key${index}`] = index;
+      await store.save();
+    }));
+
+    const saved = JSON.parse(await fs.readFile(filePath, 'utf8'));
+    assert.equal(Object.keys(saved).length, 20);
+    assert.equal((await fs.stat(filePath)).mode & 0o777, 0o600);
+    await assert.rejects(fs.access(`${filePath}.tmp`));
+
+    const reloaded = new JsonFileStore<Record<string, number>>(filePath, 'test', () => ({}));
+    assert.deepEqual(await reloaded.load(), saved);
+  });
+
+  it('retries the read after a failed first load', async () => {
+    const filePath = path.join(dir, 'corrupt.json');
+    await fs.writeFile(filePath, '{ not json');
+    const store = new JsonFileStore<Record<string, number>>(filePath, 'test', () => ({}));
+    await assert.rejects(store.load());
+
+    await fs.writeFile(filePath, '{"a":1}');
+    assert.deepEqual(await store.load(), { a: 1 });
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { matchName, nameSimilarity, normalizeName } from '../../src/services/name-resolver.service';
+import { ConflictError } from '../../src/middleware/error-handler';
+
+const named = (...names: string[]) => names.map((name, index) => ({ id: String(index + 1), name }));
+
+function conflictCandidates(run: () => unknown): string[] {
+  let candidates: string[] = [];
+  assert.throws(run, (error: unknown) => {
+    assert.ok(error instanceof ConflictError);
+    assert.equal(error.statusCode, 409);
+    candidates = (error.details as { candidates: { name: string }[] }).candidates.map(candidate => candidate.name);
+    return true;
+  });
+  return candidates;
+}
+
+describe('normalizeName', () => {
+  it('ignores case, accents, emoji and punctuation', () => {
+    assert.equal(normalizeName('📥 Inbox'), 'inbox');
+    assert.equal(normalizeName('Café — Errands!'), 'cafe errands');
+  });
+});
+
+describe('nameSimilarity', () => {
+  it('scores prefixes and whole words above typos', () => {
+    assert.equal(nameSimilarity('work', 'Work'), 1);
+    assert.equal(nameSimilarity('groceries', 'Groceries & Errands'), 0.9);
+    assert.equal(nameSimilarity('errands', 'Groceries & Errands'), 0.85);
+    assert.equal(nameSimilarity('wrok', 'work'), 0.75);
+  });
+});
+
+describe('matchName', () => {
+  it('returns undefined when nothing is similar enough', () => {
+    assert.equal(matchName('project', 'garden', named('Work', 'Home')), undefined);
+  });
+
+  it('takes a single fuzzy match', () => {
+    assert.equal(matchName('project', 'groceries', named('Groceries & Errands', 'Work'))?.id, '1');
+  });
+
+  it('prefers an exact match over fuzzy ones', () => {
+    assert.equal(matchName('project', 'work', named('Work Projects', 'Work', 'Worx'))?.id, '2');
+  });
+
+  it('takes a fuzzy match that clearly leads the runner-up', () => {
+    // 0.9 for the prefix against 0.75 for a one-letter typo
+    assert.equal(matchName('project', 'work', named('Worx', 'Work Projects'))?.id, '2');
+  });
+
+  it('reports near-tied fuzzy matches as a conflict', () => {
+    assert.deepEqual(conflictCandidates(() => matchName('project', 'work', named('Work Projects', 'Work Admin'))), [
+      'Work Projects',
+      'Work Admin'
+    ]);
+  });
+
+  it('reports several exact matches as a conflict, leaving out fuzzy ones', () => {
+    assert.deepEqual(conflictCandidates(() => matchName('project', 'inbox', named('📥 Inbox', 'Inbox', 'Inbox Zero'))), [
+      '📥 Inbox',
+      'Inbox'
+    ]);
+  });
+});
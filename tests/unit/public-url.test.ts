@@ -0,0 +1,61 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { assertPublicUrl, isPrivateAddress, isPrivateHost } from '../../src/utils/public-url';
+import { CreateWebhookSubscriptionSchema } from '../../src/utils/validation';
+import { ValidationError } from '../../src/middleware/error-handler';
+
+describe('isPrivateAddress', () => {
+  it('flags loopback, private, link-local and reserved addresses', () => {
+    for (const address of [
+      '127.0.0.1', '10.1.2.3', '172.16.0.1', '172.31.255.255', '192.168.1.1', '169.254.169.254',
+      '100.64.0.1', '0.0.0.0', '224.0.0.1', '::1', '::', 'fd00::1', 'fc00::1', 'fe80::1', '::ffff:127.0.0.1', '::ffff:10.0.0.1'
+    ]) {
+      assert.equal(isPrivateAddress(address), true, address);
+    }
+  });
+
+  it('allows public addresses', () => {
+    for (const address of ['93.184.216.34', '172.32.0.1', '8.8.8.8', '2606:4700:4700::1111', '::ffff:8.8.8.8']) {
+      assert.equal(isPrivateAddress(address), false, address);
+    }
+  });
+
+  it('treats anything that is not an IP address as private', () => {
+    assert.equal(isPrivateAddress('example.com'), true);
+  });
+});
+
+describe('isPrivateHost', () => {
+  it('recognises localhost names and bracketed IPv6 literals', () => {
+    assert.equal(isPrivateHost('http://localhost:3000/hook'), true);
+    assert.equal(isPrivateHost('http://api.localhost/hook'), true);
+    assert.equal(isPrivateHost('http://[::1]:8080/hook'), true);
+    assert.equal(isPrivateHost('https://[fd12:3456::1]/hook'), true);
+    assert.equal(isPrivateHost('https://example.com/hook'), false);
+  });
+});
+
+describe('assertPublicUrl', () => {
+  it('rejects private addresses, including cloud metadata', async () => {
+    for (const url of ['http://169.254.169.254/latest/meta-data', 'http://127.0.0.1:6379', 'https://[::1]/', 'http://localhost/']) {
+      await assert.rejects(assertPublicUrl(url), ValidationError, url);
+    }
+  });
+
+  it('accepts a public IP literal without a DNS lookup', async () => {
+    await assertPublicUrl('https://93.184.216.34/hook');
+  });
+});
+
+describe('CreateWebhookSubscriptionSchema', () => {
+  it('rejects private hosts before anything is resolved', () => {
+    const result = CreateWebhookSubscriptionSchema.safeParse({ url: 'http://192.168.0.10/hook' });
+    assert.equal(result.success, false);
+  });
+
+  it('reports an invalid URL without the host check throwing', () => {
+    const result = CreateWebhookSubscriptionSchema.safeParse({ url: 'not a url' });
+    assert.equal(result.success, false);
+    assert.deepEqual(result.error?.issues.map(issue => issue.message), ['url must be a valid URL', 'url must use http or https']);
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseQuickAdd, breakdownToTaskOptions, QuickAddCatalog } from '../../src/services/quick-add.service';
+import { Project, Section, Label } from '../../src/services/todoist.service';
+
+const catalog: QuickAddCatalog = {
+  projects: [
+    { id: 'p1', name: 'Work Stuff' },
+    { id: 'p2', name: 'Home' }
+  ] as Project[],
+  sections: [
+    { id: 's1', project_id: 'p1', name: 'Meetings' },
+    { id: 's2', project_id: 'p2', name: 'Meetings' },
+    { id: 's3', project_id: 'p2', name: 'Garden' }
+  ] as Section[],
+  labels: [{ id: 'l1', name: 'Urgent' }] as Label[]
+};
+
+// 2026-03-10 05:00 UTC is still the evening of March 9 in Los Angeles
+const NOW = new Date('2026-03-10T05:00:00Z');
+
+describe('parseQuickAdd', () => {
+  it('splits every token out of the text', () => {
+    const parsed = parseQuickAdd('Prepare slides #Work Stuff /Meetings @urgent p1 tomorrow 3pm', catalog, 'UTC', NOW);
+
+    assert.equal(parsed.content, 'Prepare slides');
+    assert.deepEqual(parsed.project, { name: 'Work Stuff', id: 'p1' });
+    assert.deepEqual(parsed.section, { name: 'Meetings', id: 's1' });
+    assert.deepEqual(parsed.labels, [{ name: 'Urgent', id: 'l1' }]);
+    assert.deepEqual(parsed.priority, { token: 'p1', value: 4 });
+    assert.equal(parsed.due_string, 'tomorrow 3pm');
+    assert.deepEqual(parsed.warnings, []);
+  });
+
+  it('keeps recurring due strings whole for Todoist', () => {
+    const parsed = parseQuickAdd('Water plants every other monday at 9am #Home', catalog, 'UTC', NOW);
+
+    assert.equal(parsed.content, 'Water plants');
+    assert.equal(parsed.due_string, 'every other monday at 9am');
+  });
+
+  it('resolves the deadline before the due phrase can claim its date words', () => {
+    const parsed = parseQuickAdd('File taxes {march 30} friday', catalog, 'UTC', NOW);
+
+    assert.deepEqual(parsed.deadline, { phrase: 'march 30', date: '2026-03-30' });
+    assert.equal(parsed.due_string, 'friday');
+    assert.equal(parsed.content, 'File taxes');
+  });
+
+  it('resolves deadline phrases in the user\'s timezone', () => {
+    assert.equal(parseQuickAdd('Call mum {today}', catalog, 'America/Los_Angeles', NOW).deadline?.date, '2026-03-09');
+    assert.equal(parseQuickAdd('Call mum {today}', catalog, 'Europe/Berlin', NOW).deadline?.date, '2026-03-10');
+  });
+
+  it('resolves every relative unit the due phrase accepts, and warns about impossible dates', () => {
+    assert.equal(parseQuickAdd('Renew passport {in 2 months}', catalog, 'UTC', NOW).deadline?.date, '2026-05-10');
+    assert.equal(parseQuickAdd('Renew passport {in 1 year}', catalog, 'UTC', NOW).deadline?.date, '2027-03-10');
+
+    const impossible = parseQuickAdd('Pay rent {2026-02-31}', catalog, 'UTC', NOW);
+    assert.deepEqual(impossible.deadline, { phrase: '2026-02-31', date: null });
+    assert.equal(impossible.warnings.length, 1);
+  });
+
+  it('warns about names it cannot resolve', () => {
+    const parsed = parseQuickAdd('Buy seeds #Garden /Meetings @new', catalog, 'UTC', NOW);
+
+    assert.deepEqual(parsed.project, { name: 'Garden', id: null });
+    assert.deepEqual(parsed.section, { name: 'Meetings', id: null });
+    assert.deepEqual(parsed.labels, [{ name: 'new', id: null }]);
+    assert.deepEqual(parsed.warnings, [
+      'No project named "Garden"',
+      'Section "Meetings" exists in several projects; add #project'
+    ]);
+  });
+
+  it('warns when nothing is left for the content', () => {
+    assert.deepEqual(parseQuickAdd('tomorrow p2', catalog, 'UTC', NOW).warnings, ['Nothing is left for the task content']);
+  });
+
+  it('leaves unresolved names out of the task options', () => {
+    const options = breakdownToTaskOptions(parseQuickAdd('Plan trip #Nowhere @Urgent p3 {2026-04-01}', catalog, 'UTC', NOW));
+
+    assert.deepEqual(options, { content: 'Plan trip', labels: ['Urgent'], priority: 2, deadline_date: '2026-04-01' });
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { SyncStore, SyncItem, SyncResponse, toRestDue } from '../../src/services/sync-store';
+
+const TZ = 'America/Los_Angeles';
+
+function item(id: string, overrides: Partial<SyncItem> = {}): SyncItem {
+  return {
+    id,
+    project_id: 'p1',
+    section_id: null,
+    parent_id: null,
+    content: `Task ${id}`,
+    description: '',
+    priority: 1,
+    child_order: 1,
+    labels: [],
+    due: null,
+    added_by_uid: null,
+    added_at: '2026-03-01T00:00:00Z',
+    responsible_uid: null,
+    checked: false,
+    is_deleted: false,
+    ...overrides
+  };
+}
+
+const note = (id: string, itemId: string, isDeleted = false) => ({ id, item_id: itemId, is_deleted: isDeleted });
+
+const sync = (overrides: Partial<SyncResponse>): SyncResponse => ({ sync_token: 'next', full_sync: false, ...overrides });
+
+describe('toRestDue', () => {
+  it('keeps all-day dates as they are', () => {
+    assert.deepEqual(toRestDue({ date: '2026-03-09', string: 'mar 9', lang: 'en', is_recurring: false }), {
+      date: '2026-03-09',
+      string: 'mar 9',
+      lang: 'en',
+      is_recurring: false
+    });
+  });
+
+  it('gives a zoned datetime the calendar date in its timezone, not the UTC date', () => {
+    // 06:30Z on March 10 is 23:30 PDT on March 9
+    const due = toRestDue({ date: '2026-03-10T06:30:00Z', timezone: TZ, string: 'mar 9 11:30pm', lang: 'en', is_recurring: false });
+    assert.equal(due.date, '2026-03-09');
+    assert.equal(due.datetime, '2026-03-10T06:30:00Z');
+    assert.equal(due.timezone, TZ);
+  });
+
+  it('agrees with the UTC date just after local midnight', () => {
+    // 07:00Z on March 10 is 00:00 PDT on March 10
+    assert.equal(toRestDue({ date: '2026-03-10T07:00:00Z', timezone: TZ, string: 'mar 10', lang: 'en', is_recurring: false }).date, '2026-03-10');
+  });
+
+  it('reads floating datetimes without a timezone as written', () => {
+    const due = toRestDue({ date: '2026-03-09T23:30:00', timezone: null, string: 'mar 9 11:30pm', lang: 'en', is_recurring: false });
+    assert.equal(due.date, '2026-03-09');
+    assert.equal(due.datetime, '2026-03-09T23:30:00');
+    assert.equal('timezone' in due, false);
+  });
+});
+
+describe('SyncStore comment counts', () => {
+  it('counts notes per task across full and incremental syncs', () => {
+    const store = new SyncStore();
+    store.apply(sync({ full_sync: true, items: [item('a'), item('b')], notes: [note('n1', 'a'), note('n2', 'a'), note('n3', 'b')] }));
+    assert.equal(store.getTask('a')?.comment_count, 2);
+    assert.equal(store.getTask('b')?.comment_count, 1);
+
+    store.apply(sync({ notes: [note('n1', 'a', true), note('n4', 'b')] }));
+    assert.equal(store.getTask('a')?.comment_count, 1);
+    assert.equal(store.getTask('b')?.comment_count, 2);
+  });
+
+  it('does not double-count a note that is updated', () => {
+    const store = new SyncStore();
+    store.apply(sync({ full_sync: true, items: [item('a')], notes: [note('n1', 'a')] }));
+    store.apply(sync({ notes: [note('n1', 'a')] }));
+    assert.equal(store.getTask('a')?.comment_count, 1);
+  });
+
+  it('ignores deletions of notes it never saw', () => {
+    const store = new SyncStore();
+    store.apply(sync({ full_sync: true, items: [item('a')], notes: [note('n1', 'a')] }));
+    store.apply(sync({ notes: [note('unknown', 'a', true)] }));
+    assert.equal(store.getTask('a')?.comment_count, 1);
+  });
+
+  it('counts project notes separately and starts over on a full sync', () => {
+    const store = new SyncStore();
+    const project = {
+      id: 'p1', name: 'Work', color: 'blue', parent_id: null, child_order: 1, shared: false,
+      is_deleted: false, is_archived: false, is_favorite: false, view_style: 'list'
+    };
+    store.apply(sync({
+      full_sync: true,
+      items: [item('a')],
+      projects: [project],
+      notes: [note('n1', 'a')],
+      project_notes: [{ id: 'pn1', project_id: 'p1', is_deleted: false }]
+    }));
+    assert.equal(store.getProjects()[0].comment_count, 1);
+    assert.equal(store.getTask('a')?.comment_count, 1);
+
+    store.apply(sync({ full_sync: true, items: [item('a')], projects: [project] }));
+    assert.equal(store.getProjects()[0].comment_count, 0);
+    assert.equal(store.getTask('a')?.comment_count, 0);
+  });
+});
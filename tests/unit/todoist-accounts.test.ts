@@ -0,0 +1,86 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { TodoistAccountRegistry } from '../../src/services/todoist-accounts';
+import type { TodoistService } from '../../src/services/todoist.service';
+import type { TokenStore } from '../../src/services/token-store';
+
+const defaultService = {} as TodoistService;
+
+// Token store whose lookups resolve only when released, counting every read
+function slowTokenStore(tokens: Record<string, string>) {
+  const waiting: Array<() => void> = [];
+  let reads = 0;
+  const store = {
+    get: (clientId: string) => {
+      reads++;
+      return new Promise<string | undefined>(resolve => waiting.push(() => resolve(tokens[clientId])));
+    },
+    set: async (clientId: string, accessToken: string) => { tokens[clientId] = accessToken; },
+    delete: async (clientId: string) => delete tokens[clientId]
+  } as unknown as TokenStore;
+
+  return {
+    store,
+    reads: () => reads,
+    release: () => waiting.splice(0).forEach(resolve => resolve())
+  };
+}
+
+describe('TodoistAccountRegistry.forClient', () => {
+  it('shares one lookup and one service between concurrent first requests', async () => {
+    const tokens = slowTokenStore({ c1: 'token' });
+    const registry = new TodoistAccountRegistry(defaultService, tokens.store);
+
+    const first = registry.forClient('c1');
+    const second = registry.forClient('c1');
+    tokens.release();
+    const [a, b] = await Promise.all([first, second]);
+
+    assert.equal(tokens.reads(), 1);
+    assert.ok(a && a !== defaultService);
+    assert.equal(a, b);
+    assert.equal(await registry.forClient('c1'), a);
+    assert.deepEqual(registry.activeServices, [defaultService, a]);
+  });
+
+  it('falls back to the default account without caching it', async () => {
+    const tokens = slowTokenStore({});
+    const registry = new TodoistAccountRegistry(defaultService, tokens.store);
+
+    const lookup = registry.forClient('c1');
+    tokens.release();
+
+    assert.equal(await lookup, defaultService);
+    assert.deepEqual(registry.activeServices, [defaultService]);
+  });
+
+  it('does not cache a lookup that a link made stale', async () => {
+    const tokens = slowTokenStore({ c1: 'old' });
+    const registry = new TodoistAccountRegistry(defaultService, tokens.store);
+
+    const stale = registry.forClient('c1');
+    await registry.link('c1', 'new');
+    tokens.release();
+    await stale;
+
+    const fresh = registry.forClient('c1');
+    tokens.release();
+    assert.notEqual(await fresh, await stale);
+    assert.equal(tokens.reads(), 2);
+  });
+
+  it('retries after a failed lookup', async () => {
+    let fail = true;
+    const store = {
+      get: async () => {
+        if (fail) throw new Error('disk error');
+        return 'token';
+      }
+    } as unknown as TokenStore;
+    const registry = new TodoistAccountRegistry(defaultService, store);
+
+    await assert.rejects(registry.forClient('c1'), /disk error/);
+    fail = false;
+    assert.notEqual(await registry.forClient('c1'), defaultService);
+  });
+});
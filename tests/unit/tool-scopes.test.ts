@@ -0,0 +1,64 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { createMcpServer } from '../../src/server/mcp-server';
+import type { Scope } from '../../src/middleware/auth';
+import type { TodoistService } from '../../src/services/todoist.service';
+
+// Only the calls a test expects to reach Todoist are stubbed
+const todoistService = {
+  getComments: async () => []
+} as unknown as TodoistService;
+
+async function connect(scopes?: readonly Scope[]): Promise<Client> {
+  const server = createMcpServer(todoistService, scopes);
+  const client = new Client({ name: 'test', version: '1.0.0' });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  return client;
+}
+
+async function toolNames(scopes?: readonly Scope[]): Promise<string[]> {
+  const client = await connect(scopes);
+  const { tools } = await client.listTools();
+  await client.close();
+  return tools.map(tool => tool.name);
+}
+
+describe('MCP tool scopes', () => {
+  it('offers every tool over stdio, where no scopes apply', async () => {
+    const names = await toolNames();
+    assert.ok(names.includes('delete_project'));
+    assert.ok(names.includes('undo_change'));
+  });
+
+  it('offers no Todoist tools to a client with only the mcp scope', async () => {
+    assert.deepEqual(await toolNames(['mcp']), []);
+  });
+
+  it('offers the tools its scopes allow, as the REST routes would', async () => {
+    const names = await toolNames(['mcp', 'tasks:read', 'projects:write', 'labels:read']);
+
+    assert.ok(names.includes('get_tasks'));
+    assert.ok(names.includes('get_history'));
+    assert.ok(names.includes('create_project'));
+    assert.ok(names.includes('get_labels'));
+    for (const hidden of ['create_task', 'bulk_update_tasks', 'undo_change', 'delete_project', 'archive_project', 'delete_label']) {
+      assert.ok(!names.includes(hidden), `${hidden} should not be offered`);
+    }
+  });
+
+  it('checks scopes that depend on the arguments on each call', async () => {
+    const client = await connect(['mcp', 'tasks:read']);
+
+    const onTask = await client.callTool({ name: 'get_comments', arguments: { task_id: '1' } });
+    assert.equal(onTask.isError, undefined);
+
+    const onProject = await client.callTool({ name: 'get_comments', arguments: { project_id: '1' } });
+    assert.equal(onProject.isError, true);
+    assert.match((onProject.content as { text: string }[])[0].text, /requires projects:read/);
+
+    await client.close();
+  });
+});